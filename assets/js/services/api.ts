@@ -1,5 +1,6 @@
 import axios from 'axios';
-import { GraphData } from '../types';
+import { DecodedGraphData } from '../types';
+import { getGraphDataFormat, GraphLoadCallbacks, parseGraphStream } from './graph-loader';
 
 // Default API URL if not set in the window config
 const DEFAULT_API_URL = '/api/graph';
@@ -20,18 +21,69 @@ export const getStatusUrl = (): string => {
 };
 
 /**
- * Fetch the graph data from the API
+ * Get the URL of the base graph to compare the current one with, from the query string or the window config
  */
-export const fetchGraphData = async (): Promise<GraphData> => {
+export const getBaseUrl = (): string | null => {
+  return new URLSearchParams(window.location.search).get('base') || window.DePhpVizConfig?.baseUrl || null;
+};
+
+/**
+ * Fetch and decode the graph data from the API, or from another URL, as a JSON document or as NDJSON.
+ * The data is decoded in a web worker while it is downloaded.
+ */
+export const fetchGraphData = async (url: string = getApiUrl(), callbacks: GraphLoadCallbacks = {}): Promise<DecodedGraphData> => {
   try {
-    const response = await axios.get(getApiUrl());
-    return response.data as GraphData;
+    const response = await fetch(url);
+    if (!response.ok || !response.body) {
+      throw new Error(`Request failed with status code ${response.status}`);
+    }
+
+    // The length of compressed responses is not the one of the data that is read
+    const length = response.headers.get('Content-Length');
+    const total = length && !response.headers.get('Content-Encoding') ? Number(length) : null;
+
+    const format = getGraphDataFormat(url, response.headers.get('Content-Type'));
+    return await parseGraphStream(response.body, total, format, url, callbacks);
   } catch (error) {
     console.error('Failed to fetch graph data:', error);
     throw error;
   }
 };
 
+/**
+ * Read and decode the graph data from a local file, e.g. a graph.json generated by the analyze command,
+ * or an NDJSON file
+ */
+export const readGraphFile = async (file: File, callbacks: GraphLoadCallbacks = {}): Promise<DecodedGraphData> => {
+  try {
+    return await parseGraphStream(file.stream(), file.size, getGraphDataFormat(file.name, file.type), file.name, callbacks);
+  } catch (error) {
+    console.error(`Failed to read graph file ${file.name}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch a token that changes whenever the graph data changes: the hash of the graph data file reported by
+ * the status endpoint, or else the ETag or the modification date the graph data is served with
+ */
+export const fetchGraphVersion = async (): Promise<string | null> => {
+  try {
+    const response = await axios.get(getStatusUrl());
+    if (response.data?.graphDataHash) {
+      return String(response.data.graphDataHash);
+    }
+  } catch (error) {
+    // The graph data can be served without the server, e.g. as a static file
+  }
+
+  const response = await fetch(getApiUrl(), { method: 'HEAD', cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Request failed with status code ${response.status}`);
+  }
+  return response.headers.get('ETag') || response.headers.get('Last-Modified');
+};
+
 /**
  * Check if the API is available
  */
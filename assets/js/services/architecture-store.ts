@@ -0,0 +1,17 @@
+import { ArchitectureRules } from '@/types';
+import { EMPTY_ARCHITECTURE_RULES, parseArchitectureRules } from '@/utils/architecture-utils';
+
+const STORAGE_KEY = 'dephpviz.architecture';
+
+/**
+ * Load the architecture rules saved in the local storage, or no rules if there are none.
+ * An error is thrown when the local storage cannot be read or holds invalid rules.
+ */
+export const loadArchitectureRules = (): ArchitectureRules => {
+  const saved = window.localStorage.getItem(STORAGE_KEY);
+  return saved ? parseArchitectureRules(JSON.parse(saved)) : EMPTY_ARCHITECTURE_RULES;
+};
+
+export const saveArchitectureRules = (architecture: ArchitectureRules): void => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(architecture));
+};
@@ -0,0 +1,36 @@
+const STORAGE_KEY = 'dephpviz.editorUrl';
+
+// Link templates of common editors, where {path} is replaced by the file path and {line} by the line number
+export const EDITOR_URL_PRESETS: { [editor: string]: string } = {
+  'PhpStorm': 'phpstorm://open?file={path}&line={line}',
+  'VS Code': 'vscode://file/{path}:{line}'
+};
+
+/**
+ * Get the template of the "open in editor" links, from the local storage or from the configuration
+ */
+export const getEditorUrlTemplate = (): string => {
+  return window.localStorage.getItem(STORAGE_KEY) ?? window.DePhpVizConfig?.editorUrl ?? '';
+};
+
+/**
+ * Save the template of the "open in editor" links, or forget it to use the configured one again
+ */
+export const saveEditorUrlTemplate = (template: string | null): void => {
+  if (template === null) {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } else {
+    window.localStorage.setItem(STORAGE_KEY, template);
+  }
+};
+
+/**
+ * Build the link opening a file in the editor, or null if there is no template
+ */
+export const buildEditorUrl = (template: string, path: string, line: number = 1): string | null => {
+  if (!template.trim()) return null;
+
+  return template
+      .replace(/\{path\}/g, encodeURI(path).replace(/[?#&]/g, encodeURIComponent))
+      .replace(/\{line\}/g, String(line));
+};
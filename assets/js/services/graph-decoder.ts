@@ -0,0 +1,335 @@
+import { DecodedGraphData, EdgeData, EdgeMetadata, GraphBatch, GraphDiagnostic, NodeData, NodeMetadata } from '@/types';
+
+// Version of the graph data schema supported by this client.
+// The data written by the analyzer has no version, which stands for the first one.
+export const GRAPH_SCHEMA_VERSION = 1;
+
+const NODE_TYPES: NodeData['type'][] = ['class', 'trait', 'interface'];
+const EDGE_TYPES: EdgeData['type'][] = ['extends', 'implements', 'usesTrait', 'use'];
+
+/**
+ * Error thrown when graph data does not have the expected structure and cannot be decoded at all
+ */
+export class GraphDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphDataError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNonEmptyString = (value: unknown): value is string => isString(value) && value !== '';
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isNodeType = (value: unknown): value is NodeData['type'] => NODE_TYPES.some((type) => type === value);
+
+const isEdgeType = (value: unknown): value is EdgeData['type'] => EDGE_TYPES.some((type) => type === value);
+
+/**
+ * Decode the metadata of a node, ignoring the fields that do not have the expected type
+ */
+const decodeNodeMetadata = (raw: unknown, nodeId: string, diagnostics: GraphDiagnostic[]): NodeMetadata => {
+  // Empty PHP arrays are encoded as JSON arrays
+  if (raw === undefined || raw === null || (Array.isArray(raw) && raw.length === 0)) {
+    return {};
+  }
+  if (!isObject(raw)) {
+    diagnostics.push({ severity: 'warning', code: 'invalid-metadata', message: `Node "${nodeId}" has invalid metadata`, nodeId });
+    return {};
+  }
+
+  const metadata: NodeMetadata = {};
+  const invalidFields: string[] = [];
+  const decodeField = <K extends keyof NodeMetadata>(field: K, isValid: (value: unknown) => value is NodeMetadata[K]) => {
+    const value = raw[field];
+    if (value === undefined) return;
+    if (isValid(value)) {
+      metadata[field] = value;
+    } else {
+      invalidFields.push(field);
+    }
+  };
+
+  decodeField('namespace', isString);
+  decodeField('filePath', isString);
+  decodeField('docComment', isStringArray);
+  decodeField('isAbstract', isBoolean);
+  decodeField('isFinal', isBoolean);
+
+  if (invalidFields.length > 0) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'invalid-metadata',
+      message: `Node "${nodeId}" has invalid metadata fields: ${invalidFields.join(', ')}`,
+      nodeId
+    });
+  }
+
+  return metadata;
+};
+
+/**
+ * Decode the metadata of an edge, which is kept as is when it is an object
+ */
+const decodeEdgeMetadata = (raw: unknown, edgeId: string, diagnostics: GraphDiagnostic[]): EdgeMetadata => {
+  if (raw === undefined || raw === null || (Array.isArray(raw) && raw.length === 0)) {
+    return {};
+  }
+  if (!isObject(raw)) {
+    diagnostics.push({ severity: 'warning', code: 'invalid-metadata', message: `Edge "${edgeId}" has invalid metadata` });
+    return {};
+  }
+
+  return { ...raw };
+};
+
+export interface GraphDecoder {
+  // Report a problem found in the data
+  report: (diagnostic: GraphDiagnostic) => void;
+  // Check the version of the schema the data uses
+  decodeVersion: (version: unknown) => void;
+  // Decode a node, returning it unless it is dropped
+  decodeNode: (raw: unknown, index: number) => NodeData | null;
+  // Decode an edge, returning it unless it is dropped or waits for one of its nodes
+  decodeEdge: (raw: unknown, index: number) => EdgeData | null;
+  // Decode the edges still waiting for their nodes, returning those whose nodes were found, and get the decoded data
+  finish: () => { lateEdges: EdgeData[]; decoded: DecodedGraphData };
+}
+
+/**
+ * Create a decoder validating the nodes and edges of graph data one at a time, as they are received.
+ *
+ * An edge whose nodes were not decoded yet is kept until the end of the data, and reported as dangling if they
+ * are still missing then.
+ */
+export const createGraphDecoder = (): GraphDecoder => {
+  const diagnostics: GraphDiagnostic[] = [];
+  const nodes: { [key: string]: NodeData } = {};
+  const edges: { [key: string]: EdgeData } = {};
+  // The graph is not a multigraph, so only one edge is kept between two nodes
+  const linked = new Set<string>();
+  const pendingEdges: { edge: Record<string, unknown>; index: number }[] = [];
+
+  const decodeVersion = (version: unknown) => {
+    if ((version ?? GRAPH_SCHEMA_VERSION) !== GRAPH_SCHEMA_VERSION) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unsupported-version',
+        message: `The graph data uses version ${version} of the schema, while version ${GRAPH_SCHEMA_VERSION} is expected`
+      });
+    }
+  };
+
+  const decodeNode = (node: unknown, index: number): NodeData | null => {
+    if (!isObject(node) || !isNonEmptyString(node.id)) {
+      diagnostics.push({ severity: 'error', code: 'invalid-node', message: `Node #${index + 1} has no id` });
+      return null;
+    }
+    if (nodes[node.id]) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'duplicate-node',
+        message: `Node "${node.id}" is defined more than once, only the first definition is kept`,
+        nodeId: node.id
+      });
+      return null;
+    }
+    if (!isNodeType(node.type)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'unknown-node-type',
+        message: `Node "${node.id}" has an unknown type "${node.type}", expected one of ${NODE_TYPES.join(', ')}`
+      });
+      return null;
+    }
+
+    nodes[node.id] = {
+      id: node.id,
+      label: isNonEmptyString(node.label) ? node.label : node.id,
+      type: node.type,
+      metadata: decodeNodeMetadata(node.metadata, node.id, diagnostics)
+    };
+    return nodes[node.id];
+  };
+
+  // Validate an edge, which is validated again once its nodes are all decoded when it had to wait for them
+  const addEdge = (edge: Record<string, unknown>, index: number, final: boolean): EdgeData | null => {
+    const { source, target, type } = edge;
+    if (!isNonEmptyString(source) || !isNonEmptyString(target)) {
+      diagnostics.push({ severity: 'error', code: 'invalid-edge', message: `Edge #${index + 1} has no source or target` });
+      return null;
+    }
+    const id = isNonEmptyString(edge.id) ? edge.id : `${source}->${target}`;
+    if (!isEdgeType(type)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'unknown-edge-type',
+        message: `Edge "${id}" has an unknown type "${type}", expected one of ${EDGE_TYPES.join(', ')}`,
+        nodeId: nodes[source] ? source : undefined
+      });
+      return null;
+    }
+
+    const missing = [source, target].filter((node) => !nodes[node]);
+    if (missing.length > 0) {
+      if (!final) {
+        pendingEdges.push({ edge, index });
+        return null;
+      }
+      diagnostics.push({
+        severity: 'error',
+        code: 'dangling-edge',
+        message: `Edge "${id}" points to missing node${missing.length > 1 ? 's' : ''} ${missing.map((node) => `"${node}"`).join(' and ')}`,
+        nodeId: [source, target].find((node) => nodes[node])
+      });
+      return null;
+    }
+
+    const link = `${source}->${target}`;
+    if (edges[id] || linked.has(link)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'duplicate-edge',
+        message: `Edge "${id}" (${type}) duplicates another edge between the same nodes, only the first one is kept`,
+        nodeId: source
+      });
+      return null;
+    }
+
+    linked.add(link);
+    edges[id] = {
+      id,
+      source,
+      target,
+      type,
+      metadata: decodeEdgeMetadata(edge.metadata, id, diagnostics)
+    };
+    return edges[id];
+  };
+
+  // Anything but an object is reported as an edge without source or target
+  const decodeEdge = (edge: unknown, index: number): EdgeData | null => addEdge(isObject(edge) ? edge : {}, index, false);
+
+  const finish = () => {
+    const lateEdges = pendingEdges.splice(0)
+        .map(({ edge, index }) => addEdge(edge, index, true))
+        .filter((edge): edge is EdgeData => edge !== null);
+    return { lateEdges, decoded: { data: { version: GRAPH_SCHEMA_VERSION, nodes, edges }, diagnostics } };
+  };
+
+  const report = (diagnostic: GraphDiagnostic) => {
+    diagnostics.push(diagnostic);
+  };
+
+  return { report, decodeVersion, decodeNode, decodeEdge, finish };
+};
+
+/**
+ * Validate raw graph data against the schema, and normalize it to maps of nodes and edges keyed by id.
+ *
+ * Both the array form served by the API and the associative form written by the analyze command are accepted.
+ * Invalid nodes and edges, duplicates and edges whose extremities are missing are dropped and reported
+ * as diagnostics, so that the rest of the graph can still be displayed. A `GraphDataError` is only thrown
+ * when the data has no nodes or edges at all.
+ */
+export const decodeGraphData = (raw: unknown): DecodedGraphData => {
+  if (!isObject(raw)) {
+    throw new GraphDataError('The graph data must be a JSON object with "nodes" and "edges"');
+  }
+  const [nodes, edges] = ['nodes', 'edges'].map((key) => {
+    const list = raw[key];
+    if (!Array.isArray(list) && !isObject(list)) {
+      throw new GraphDataError(`The graph data has no "${key}" list`);
+    }
+    return Object.values(list);
+  });
+
+  const decoder = createGraphDecoder();
+  decoder.decodeVersion(raw.version);
+  nodes.forEach((node, index) => decoder.decodeNode(node, index));
+  edges.forEach((edge, index) => decoder.decodeEdge(edge, index));
+
+  return decoder.finish().decoded;
+};
+
+export interface NdjsonGraphDecoder {
+  // Decode the complete lines of a chunk of text, keeping the last one until the next chunk
+  decodeChunk: (text: string) => GraphBatch;
+  // Decode the last line and the edges still waiting for their nodes
+  finish: () => { batch: GraphBatch; decoded: DecodedGraphData };
+}
+
+/**
+ * Create a decoder of the NDJSON variant of the graph data, received by chunks of text.
+ *
+ * Every line holds one record: `{"version": 1}`, `{"node": {...}}` or `{"edge": {...}}`, with the same fields
+ * as in the JSON document. Edges are best written after their nodes, so that they are displayed as soon as
+ * they are received. A `GraphDataError` is thrown when the data has no records at all.
+ */
+export const createNdjsonGraphDecoder = (): NdjsonGraphDecoder => {
+  const decoder = createGraphDecoder();
+  let remainder = '';
+  let lineNumber = 0;
+  let recordCount = 0;
+  let nodeCount = 0;
+  let edgeCount = 0;
+
+  const decodeLine = (line: string, batch: GraphBatch) => {
+    lineNumber++;
+    if (line.trim() === '') return;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      decoder.report({ severity: 'error', code: 'invalid-record', message: `Line ${lineNumber} is not valid JSON: ${(error as Error).message}` });
+      return;
+    }
+
+    if (isObject(record) && record.node !== undefined) {
+      recordCount++;
+      const node = decoder.decodeNode(record.node, nodeCount++);
+      if (node) batch.nodes.push(node);
+    } else if (isObject(record) && record.edge !== undefined) {
+      recordCount++;
+      const edge = decoder.decodeEdge(record.edge, edgeCount++);
+      if (edge) batch.edges.push(edge);
+    } else if (isObject(record) && record.version !== undefined) {
+      recordCount++;
+      decoder.decodeVersion(record.version);
+    } else {
+      decoder.report({ severity: 'error', code: 'invalid-record', message: `Line ${lineNumber} is not a node, edge or version record` });
+    }
+  };
+
+  const decodeChunk = (text: string): GraphBatch => {
+    const batch: GraphBatch = { nodes: [], edges: [] };
+    const lines = (remainder + text).split('\n');
+    remainder = lines.pop() || '';
+    lines.forEach((line) => decodeLine(line, batch));
+    return batch;
+  };
+
+  const finish = () => {
+    const batch: GraphBatch = { nodes: [], edges: [] };
+    decodeLine(remainder, batch);
+    remainder = '';
+    if (recordCount === 0) {
+      throw new GraphDataError('The NDJSON graph data has no node, edge or version records');
+    }
+
+    const { lateEdges, decoded } = decoder.finish();
+    batch.edges.push(...lateEdges);
+    return { batch, decoded };
+  };
+
+  return { decodeChunk, finish };
+};
@@ -0,0 +1,113 @@
+import { DecodedGraphData, EdgeData, GraphBatch, GraphDataFormat, GraphLoadProgress, GraphParserMessage, GraphParserRequest, NodeData } from '@/types';
+import { GraphDataError, GRAPH_SCHEMA_VERSION } from './graph-decoder';
+
+const NDJSON_EXTENSIONS = ['.ndjson', '.jsonl'];
+const NDJSON_CONTENT_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines'];
+
+export interface GraphLoadCallbacks {
+  onProgress?: (progress: GraphLoadProgress) => void;
+  // Called with the nodes and edges as they are decoded, the nodes of an edge always coming first
+  onBatch?: (batch: GraphBatch) => void;
+}
+
+/**
+ * Tell the format of graph data from the name of its file or URL, or from the content type it is served with
+ */
+export const getGraphDataFormat = (name: string, contentType: string | null = null): GraphDataFormat => {
+  const path = name.split(/[?#]/)[0].toLowerCase();
+  const mediaType = (contentType || '').split(';')[0].trim().toLowerCase();
+  return NDJSON_EXTENSIONS.some((extension) => path.endsWith(extension)) || NDJSON_CONTENT_TYPES.includes(mediaType)
+      ? 'ndjson'
+      : 'json';
+};
+
+/**
+ * Decode graph data in a web worker while it is read from a stream, reporting the download progress
+ * and the nodes and edges as they are decoded.
+ *
+ * The decoded data is gathered from the batches, so that it is not sent twice by the worker.
+ */
+export const parseGraphStream = async (
+    stream: ReadableStream<Uint8Array>,
+    total: number | null,
+    format: GraphDataFormat,
+    name: string,
+    { onProgress, onBatch }: GraphLoadCallbacks = {}
+): Promise<DecodedGraphData> => {
+  const worker = new Worker(new URL('./graph-parser-worker.ts', import.meta.url), { type: 'module' });
+  const send = (request: GraphParserRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  const nodes: { [key: string]: NodeData } = {};
+  const edges: { [key: string]: EdgeData } = {};
+  let built = 0;
+
+  const reader = stream.getReader();
+  // Set when the worker fails, the rest of the data being of no use then
+  let failed = false;
+
+  const result = new Promise<DecodedGraphData>((resolve, reject) => {
+    const fail = (error: Error) => {
+      failed = true;
+      worker.terminate();
+      // Cancelling the reader ends the pending read, its own failure does not matter anymore
+      reader.cancel().catch(() => undefined);
+      reject(error);
+    };
+
+    worker.onmessage = (event: MessageEvent<GraphParserMessage>) => {
+      const message = event.data;
+      if (message.type === 'batch') {
+        message.batch.nodes.forEach((node) => nodes[node.id] = node);
+        message.batch.edges.forEach((edge) => edges[edge.id || `${edge.source}->${edge.target}`] = edge);
+        if (onBatch) onBatch(message.batch);
+
+        // NDJSON data is built while it is downloaded, whose progress is reported instead
+        built += message.batch.nodes.length + message.batch.edges.length;
+        if (onProgress && message.total !== null) onProgress({ phase: 'build', loaded: built, total: message.total });
+        return;
+      }
+
+      if (message.type === 'error') {
+        fail(message.invalidData ? new GraphDataError(message.message) : new Error(message.message));
+      } else {
+        worker.terminate();
+        resolve({ data: { version: GRAPH_SCHEMA_VERSION, nodes, edges }, diagnostics: message.diagnostics });
+      }
+    };
+    worker.onerror = (event) => {
+      fail(new Error(event.message || 'The graph parser worker failed'));
+    };
+  });
+
+  // The worker may fail while a chunk is read, before the result is returned to the caller
+  result.catch(() => undefined);
+
+  send({ type: 'start', format, name });
+
+  let loaded = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done || failed) break;
+
+      // A chunk that is a view on a larger buffer is copied, as its buffer cannot be transferred alone
+      const chunk = (value.byteOffset === 0 && value.byteLength === value.buffer.byteLength ? value.buffer : value.slice().buffer) as ArrayBuffer;
+      loaded += value.byteLength;
+      send({ type: 'chunk', chunk }, [chunk]);
+      if (onProgress) onProgress({ phase: 'download', loaded, total });
+    }
+  } catch (error) {
+    worker.terminate();
+    // The error of the worker is the one that stopped the download
+    if (failed) return result;
+    throw error;
+  }
+
+  // The worker failed before the end of the data
+  if (failed) return result;
+
+  send({ type: 'end' });
+  if (onProgress && format === 'json') onProgress({ phase: 'parse', loaded, total: null });
+
+  return result;
+};
@@ -0,0 +1,94 @@
+import { GraphBatch, GraphParserMessage, GraphParserRequest } from '@/types';
+import { createNdjsonGraphDecoder, decodeGraphData, GraphDataError, NdjsonGraphDecoder } from './graph-decoder';
+
+// Number of nodes or edges sent together once a JSON document is decoded
+const JSON_BATCH_SIZE = 2000;
+
+// State of the graph data being received, the worker parsing a single graph
+let name = '';
+let textDecoder = new TextDecoder();
+let jsonParts: string[] = [];
+let ndjsonDecoder: NdjsonGraphDecoder | null = null;
+
+const send = (message: GraphParserMessage) => self.postMessage(message);
+
+const sendBatch = (batch: GraphBatch, total: number | null) => {
+  if (batch.nodes.length > 0 || batch.edges.length > 0) {
+    send({ type: 'batch', batch, total });
+  }
+};
+
+const finishJson = () => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonParts.join(''));
+  } catch (error) {
+    throw new GraphDataError(`${name} is not a valid JSON file: ${(error as Error).message}`);
+  }
+  jsonParts = [];
+
+  const { data, diagnostics } = decodeGraphData(raw);
+  const nodes = Object.values(data.nodes);
+  const edges = Object.values(data.edges);
+  const total = nodes.length + edges.length;
+
+  // The nodes come first, so that every batch of edges can be added to the graph
+  for (let i = 0; i < nodes.length; i += JSON_BATCH_SIZE) {
+    sendBatch({ nodes: nodes.slice(i, i + JSON_BATCH_SIZE), edges: [] }, total);
+  }
+  for (let i = 0; i < edges.length; i += JSON_BATCH_SIZE) {
+    sendBatch({ nodes: [], edges: edges.slice(i, i + JSON_BATCH_SIZE) }, total);
+  }
+  send({ type: 'done', diagnostics });
+};
+
+const finishNdjson = (decoder: NdjsonGraphDecoder) => {
+  const { batch, decoded } = decoder.finish();
+  sendBatch(batch, null);
+  send({ type: 'done', diagnostics: decoded.diagnostics });
+};
+
+/**
+ * Web worker decoding the graph data while it is downloaded, so that the page stays responsive.
+ * NDJSON data is decoded line by line as it is received, JSON documents once they are complete.
+ */
+self.onmessage = (event: MessageEvent<GraphParserRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'start':
+        name = request.name;
+        textDecoder = new TextDecoder();
+        jsonParts = [];
+        ndjsonDecoder = request.format === 'ndjson' ? createNdjsonGraphDecoder() : null;
+        break;
+      case 'chunk': {
+        const text = textDecoder.decode(request.chunk, { stream: true });
+        if (ndjsonDecoder) {
+          sendBatch(ndjsonDecoder.decodeChunk(text), null);
+        } else {
+          jsonParts.push(text);
+        }
+        break;
+      }
+      case 'end': {
+        const text = textDecoder.decode();
+        if (ndjsonDecoder) {
+          sendBatch(ndjsonDecoder.decodeChunk(text), null);
+          finishNdjson(ndjsonDecoder);
+        } else {
+          jsonParts.push(text);
+          finishJson();
+        }
+        break;
+      }
+    }
+  } catch (error) {
+    send({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      invalidData: error instanceof GraphDataError
+    });
+  }
+};
@@ -0,0 +1,99 @@
+import { DecodedGraphData, RecentGraph, StoredGraph } from '@/types';
+
+const DATABASE_NAME = 'dephpviz';
+const DATABASE_VERSION = 1;
+const RECENT_GRAPHS_STORE = 'recentGraphs';
+
+// Number of recently loaded graphs that are kept
+const MAX_RECENT_GRAPHS = 10;
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Open the database, creating the object store on first use
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!window.indexedDB) {
+    return Promise.reject(new Error('IndexedDB is not supported by this browser'));
+  }
+
+  const request = window.indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(RECENT_GRAPHS_STORE, { keyPath: 'id' });
+  };
+
+  return promisifyRequest(request);
+};
+
+/**
+ * Run a callback on the object store of the recent graphs, and close the database afterwards
+ */
+const withStore = async <T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    const transaction = database.transaction(RECENT_GRAPHS_STORE, mode);
+    return await promisifyRequest(callback(transaction.objectStore(RECENT_GRAPHS_STORE)));
+  } finally {
+    database.close();
+  }
+};
+
+/**
+ * List the recently loaded graphs, from the most recent to the oldest, without their data
+ */
+export const listRecentGraphs = async (): Promise<RecentGraph[]> => {
+  const graphs = await withStore<StoredGraph[]>('readonly', (store) => store.getAll());
+
+  return graphs
+      .sort((a, b) => b.loadedAt - a.loadedAt)
+      .map(({ data, diagnostics, ...summary }) => summary);
+};
+
+/**
+ * Get a recently loaded graph with its data
+ */
+export const getRecentGraph = async (id: string): Promise<StoredGraph | null> => {
+  const graph = await withStore<StoredGraph | undefined>('readonly', (store) => store.get(id));
+  return graph || null;
+};
+
+/**
+ * Save a loaded graph, replacing a previous version from the same source, and forget the oldest ones
+ */
+export const saveRecentGraph = async (
+    name: string,
+    source: RecentGraph['source'],
+    { data, diagnostics }: DecodedGraphData
+): Promise<void> => {
+  const graph: StoredGraph = {
+    id: `${source}:${name}`,
+    name,
+    source,
+    loadedAt: Date.now(),
+    nodeCount: Object.keys(data.nodes).length,
+    edgeCount: Object.keys(data.edges).length,
+    data,
+    diagnostics
+  };
+  await withStore('readwrite', (store) => store.put(graph));
+
+  const outdated = (await listRecentGraphs()).slice(MAX_RECENT_GRAPHS);
+  for (const recentGraph of outdated) {
+    await deleteRecentGraph(recentGraph.id);
+  }
+};
+
+/**
+ * Forget a recently loaded graph
+ */
+export const deleteRecentGraph = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,37 @@
+import { SavedLayout } from '@/types';
+
+const STORAGE_KEY = 'dephpviz.layouts';
+
+/**
+ * List the layouts saved in the local storage, the most recent first.
+ * An error is thrown when the local storage cannot be read or holds invalid data.
+ */
+export const listSavedLayouts = (): SavedLayout[] => {
+  const layouts = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+  return Array.isArray(layouts) ? layouts.sort((a: SavedLayout, b: SavedLayout) => b.savedAt - a.savedAt) : [];
+};
+
+// Saved layouts that cannot be read are replaced when a layout is saved or deleted
+const listReadableSavedLayouts = (): SavedLayout[] => {
+  try {
+    return listSavedLayouts();
+  } catch (error) {
+    return [];
+  }
+};
+
+const writeSavedLayouts = (layouts: SavedLayout[]): SavedLayout[] => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+  return listSavedLayouts();
+};
+
+/**
+ * Save a layout, replacing the one with the same name
+ */
+export const saveLayout = (layout: SavedLayout): SavedLayout[] => {
+  return writeSavedLayouts([layout, ...listReadableSavedLayouts().filter((item) => item.name !== layout.name)]);
+};
+
+export const deleteSavedLayout = (name: string): SavedLayout[] => {
+  return writeSavedLayouts(listReadableSavedLayouts().filter((item) => item.name !== name));
+};
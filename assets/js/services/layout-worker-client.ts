@@ -0,0 +1,45 @@
+import { DirectedGraph } from 'graphology';
+import { LayoutName, LayoutOptions, LayoutWorkerMessage, LayoutWorkerRequest, NodePositions } from '@/types';
+import { finalizeLayout, getLayoutGraph } from '@/utils/layout-utils';
+
+/**
+ * Compute a force layout in a web worker, so that the page stays responsive on large graphs.
+ * The progress is reported from 0 to 1, and the layout can be cancelled, in which case the promise never settles.
+ */
+export const computeLayoutInWorker = (
+    graph: DirectedGraph,
+    layout: LayoutName,
+    options: LayoutOptions,
+    nodes: Set<string> | null,
+    onProgress: (progress: number) => void
+): { promise: Promise<NodePositions>; cancel: () => void } => {
+  const layoutGraph = getLayoutGraph(graph, nodes);
+  const worker = new Worker(new URL('./layout-worker.ts', import.meta.url), { type: 'module' });
+
+  const promise = new Promise<NodePositions>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<LayoutWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+      } else {
+        // The pinned positions and the namespace nodes are taken from the graph, which the worker does not have
+        resolve(finalizeLayout(graph, layoutGraph, layout, options, message.positions));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The layout worker failed'));
+    };
+  });
+
+  const request: LayoutWorkerRequest = { graph: layoutGraph.export(), layout, options };
+  worker.postMessage(request);
+
+  return { promise, cancel: () => worker.terminate() };
+};
@@ -0,0 +1,19 @@
+import { DirectedGraph } from 'graphology';
+import { LayoutWorkerMessage, LayoutWorkerRequest } from '@/types';
+import { runForceLayout } from '@/utils/layout-utils';
+
+/**
+ * Web worker computing the force layouts of large graphs, reporting its progress
+ */
+self.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+  const { graph, layout, options } = event.data;
+  const send = (message: LayoutWorkerMessage) => self.postMessage(message);
+
+  try {
+    const layoutGraph = DirectedGraph.from(graph);
+    const positions = runForceLayout(layoutGraph, layout, options, (progress) => send({ type: 'progress', progress }));
+    send({ type: 'done', positions });
+  } catch (error) {
+    send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -1,3 +1,13 @@
+import { SerializedGraph } from 'graphology-types';
+
+export interface NodeMetadata {
+  namespace?: string;
+  filePath?: string;
+  docComment?: string[];
+  isAbstract?: boolean;
+  isFinal?: boolean;
+}
+
 export interface NodeData {
   id: string;
   label: string;
@@ -5,6 +15,12 @@ export interface NodeData {
   color?: string;
   size?: number;
   highlighted?: boolean;
+  metadata?: NodeMetadata;
+}
+
+// Edges have no known metadata yet, but any metadata written by the analyzer is kept
+export interface EdgeMetadata {
+  [key: string]: unknown;
 }
 
 export interface EdgeData {
@@ -14,18 +30,146 @@ export interface EdgeData {
   type: 'extends' | 'implements' | 'usesTrait' | 'use';
   color?: string;
   size?: number;
+  metadata?: EdgeMetadata;
 }
 
 export interface GraphData {
+  version?: number;
   nodes: { [key: string]: NodeData };
   edges: { [key: string]: EdgeData };
 }
 
+// Errors are elements that were dropped, warnings are elements that were kept with some data ignored
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+    | 'unsupported-version'
+    | 'invalid-node'
+    | 'duplicate-node'
+    | 'unknown-node-type'
+    | 'invalid-edge'
+    | 'duplicate-edge'
+    | 'unknown-edge-type'
+    | 'dangling-edge'
+    | 'invalid-metadata'
+    | 'invalid-record'
+    | 'base-failed'
+    | 'reload-failed'
+    | 'storage-failed';
+
+// Problem found while decoding the graph data, while loading the base snapshot or reloading the data, or while using the settings kept in the local storage
+export interface GraphDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  // Id of the node concerned by the problem, if it is part of the graph
+  nodeId?: string;
+}
+
+export interface DecodedGraphData {
+  data: GraphData;
+  diagnostics: GraphDiagnostic[];
+}
+
 export interface FiltersState {
   clusters: { [key: string]: boolean };
   tags: { [key: string]: boolean };
   nodeTypes?: { [key: string]: boolean };
   edgeTypes?: { [key: string]: boolean };
+  // Query the displayed nodes must match, e.g. "namespace:App\Domain\* type:interface"
+  query?: string;
+  // Whether the direct neighbors of the nodes matching the query are displayed too
+  queryNeighbors?: boolean;
+  // Namespaces whose whole subtree is hidden when false
+  namespaces?: { [namespace: string]: boolean };
+}
+
+export type ExportFormat = 'png' | 'svg' | 'dot' | 'gexf';
+
+// The custom layout keeps positions set by hand, by dragging nodes or applying a saved layout
+export type LayoutName = 'circular' | 'forceAtlas2' | 'hierarchical' | 'namespaces' | 'force' | 'custom';
+
+export interface LayoutOptions {
+  // Seed of the random generator used by the randomized layouts, so that they can be reproduced
+  seed: number;
+  // Whether overlapping nodes are spread apart after the layout
+  noverlap: boolean;
+}
+
+export interface NodePositions {
+  [node: string]: { x: number; y: number };
+}
+
+// Layout computed by the web worker, from a serialized copy of the graph
+export interface LayoutWorkerRequest {
+  graph: SerializedGraph;
+  layout: LayoutName;
+  options: LayoutOptions;
+}
+
+// Messages sent back by the layout worker
+export type LayoutWorkerMessage =
+    | { type: 'progress'; progress: number }
+    | { type: 'done'; positions: NodePositions }
+    | { type: 'error'; message: string };
+
+// Formats of the graph data: a JSON document, or NDJSON with one record per line so that the graph can be
+// displayed while it is received
+export type GraphDataFormat = 'json' | 'ndjson';
+
+// Nodes and edges decoded together, added to the graph as they are received
+export interface GraphBatch {
+  nodes: NodeData[];
+  edges: EdgeData[];
+}
+
+// Graph data sent by chunks to the web worker parsing it
+export type GraphParserRequest =
+    | { type: 'start'; format: GraphDataFormat; name: string }
+    | { type: 'chunk'; chunk: ArrayBuffer }
+    | { type: 'end' };
+
+// Messages sent back by the parser worker: the decoded nodes and edges by batches, the total number of nodes
+// and edges being known for JSON documents, then the problems found in the data
+export type GraphParserMessage =
+    | { type: 'batch'; batch: GraphBatch; total: number | null }
+    | { type: 'done'; diagnostics: GraphDiagnostic[] }
+    | { type: 'error'; message: string; invalidData: boolean };
+
+export interface GraphLoadProgress {
+  phase: 'download' | 'parse' | 'build';
+  // Bytes downloaded, or nodes and edges added to the graph, so far
+  loaded: number;
+  // Total number of bytes, or of nodes and edges, when it is known
+  total: number | null;
+}
+
+// Node positions saved under a name, which can be applied to any graph sharing node ids
+export interface SavedLayout {
+  name: string;
+  savedAt: number;
+  positions: NodePositions;
+  pinnedNodes: string[];
+}
+
+// State of the visualization that can be shared through the URL
+export interface ViewState {
+  filters: FiltersState;
+  selectedNode: string | null;
+  focusedNamespace: string | null;
+  collapsedNamespaces: string[];
+  colorMode: NodeColorMode;
+  sizeMetric: MetricKey;
+  layout: LayoutName;
+  layoutOptions: LayoutOptions;
+  focus: FocusState | null;
+}
+
+// Node displayed alone with its neighborhood, up to a number of hops in a direction
+export interface FocusState {
+  node: string;
+  depth: number;
+  direction: DependencyDirection;
 }
 
 export interface Cluster {
@@ -34,6 +178,203 @@ export interface Cluster {
   clusterLabel: string;
 }
 
+export interface NamespaceTreeNode {
+  name: string;
+  namespace: string;
+  children: NamespaceTreeNode[];
+  nodeCount: number;
+  totalCount: number;
+  // Number of classes, interfaces and traits of the whole subtree
+  typeCounts: { [type: string]: number };
+}
+
+// The graph is displayed on the canvas, as a treemap of its namespaces, as a dependency structure matrix,
+// or as the inheritance hierarchy of a class
+export type GraphView = 'graph' | 'treemap' | 'matrix' | 'hierarchy';
+
+// What the tiles of the treemap are sized by
+export type TreemapSize = 'count' | 'degree' | 'fanIn' | 'fanOut';
+
+// Class, interface or trait inheriting from its parent in the inheritance tree
+export interface HierarchyTreeNode {
+  node: string;
+  // Type of the edge from the node to its parent, null for the root
+  edgeType: string | null;
+  children: HierarchyTreeNode[];
+}
+
+// Inherited classes, interfaces and traits, the class, interface or trait they come through being null when direct
+export interface InheritedNode {
+  node: string;
+  via: string | null;
+}
+
+export interface InheritanceHierarchy {
+  node: string;
+  // Extended classes or interfaces, from the closest to the farthest
+  ancestors: string[];
+  interfaces: InheritedNode[];
+  traits: InheritedNode[];
+  // Subclasses, implementors and users of a trait, recursively
+  descendants: HierarchyTreeNode;
+  // Depth of inheritance tree: length of the longest chain of extended classes or interfaces
+  depth: number;
+  // Number of children: direct subclasses, implementors or users of a trait
+  childCount: number;
+  descendantCount: number;
+}
+
+export interface HierarchyDiagram {
+  nodes: { node: string; x: number; y: number }[];
+  edges: { source: string; target: string; edgeType: string }[];
+  width: number;
+  height: number;
+}
+
+// Whether the rows and columns of the dependency structure matrix are the displayed nodes or their namespaces
+export type DsmLevel = 'class' | 'namespace';
+
+export interface DsmEntry {
+  key: string;
+  label: string;
+  namespace: string;
+}
+
+export interface DsmCell {
+  // The entry of the row depends on the entry of the column
+  row: number;
+  column: number;
+  // Number of dependencies of every edge type
+  counts: { [type: string]: number };
+  total: number;
+  // Edges between the classes, those of the collapsed namespaces included
+  edges: string[];
+}
+
+export interface Dsm {
+  entries: DsmEntry[];
+  cells: DsmCell[];
+  // Consecutive entries that depend on each other, once the matrix is partitioned
+  cycles: { start: number; size: number }[];
+}
+
+export interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TreemapItem {
+  key: string;
+  label: string;
+  value: number;
+  color: string;
+  // Namespace the tile stands for, or null for a single class
+  namespace: string | null;
+  typeCounts: { [type: string]: number };
+}
+
+export type MetricKey = 'degree' | 'fanIn' | 'fanOut' | 'instability' | 'abstractness' | 'distance';
+
+export type NodeColorMode = 'type' | 'cluster' | 'diff' | MetricKey;
+
+export interface CouplingMetrics {
+  fanIn: number;
+  fanOut: number;
+  instability: number;
+  abstractness: number;
+  distance: number;
+}
+
+export interface NamespaceMetrics extends CouplingMetrics {
+  namespace: string;
+  classCount: number;
+  abstractCount: number;
+}
+
+// 'out' follows dependencies, 'in' follows dependents
+export type DependencyDirection = 'out' | 'in' | 'both';
+
+export interface Subgraph {
+  nodes: string[];
+  edges: string[];
+}
+
+// A path is a subgraph whose nodes and edges are ordered from source to target
+export type DependencyPath = Subgraph;
+
+// Layer of the architecture, made of the nodes whose namespace matches one of its patterns, e.g. "App\Domain\*"
+export interface ArchitectureLayer {
+  name: string;
+  patterns: string[];
+}
+
+// 'deny' forbids the dependencies of a layer on the target layers, 'allow' only allows those
+export interface ArchitectureRule {
+  from: string;
+  type: 'allow' | 'deny';
+  to: string[];
+}
+
+export interface ArchitectureRules {
+  layers: ArchitectureLayer[];
+  rules: ArchitectureRule[];
+}
+
+// Edge breaking one of the architecture rules
+export interface RuleViolation {
+  rule: number;
+  edge: string;
+  source: string;
+  target: string;
+  sourceLayer: string;
+  targetLayer: string;
+}
+
+// Classes depending, directly or not, on the classes about to be changed
+export interface ImpactAnalysis {
+  // Distance of every affected class from the nearest changed class, the changed classes being at 0
+  distances: Map<string, number>;
+  maxDistance: number;
+  // Number of affected classes per namespace, the changed classes excluded, the largest count first
+  namespaces: { namespace: string; count: number }[];
+}
+
+export type DiffStatus = 'added' | 'removed' | 'unchanged';
+
+// Differences between two snapshots of the graph, by node and edge id
+export interface GraphDiff {
+  nodes: Record<DiffStatus, string[]>;
+  edges: Record<DiffStatus, string[]>;
+  newCycles: Subgraph[];
+}
+
+// Changes found when the graph data is reloaded while it is displayed
+export interface GraphReloadChanges {
+  addedNodes: string[];
+  removedNodes: string[];
+  addedEdges: number;
+  removedEdges: number;
+  // Positions of the added and removed nodes, which are flashed on the graph
+  flashes: { x: number; y: number; status: Exclude<DiffStatus, 'unchanged'> }[];
+}
+
+// Summary of a graph that was loaded from a file or a URL, kept in IndexedDB
+export interface RecentGraph {
+  id: string;
+  name: string;
+  source: 'file' | 'url';
+  loadedAt: number;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export interface StoredGraph extends RecentGraph {
+  data: GraphData;
+  diagnostics: GraphDiagnostic[];
+}
+
 export interface Tag {
   key: string;
   label: string;
@@ -53,6 +394,9 @@ declare global {
     DePhpVizConfig?: {
       apiUrl: string;
       statusUrl: string;
+      baseUrl?: string;
+      // Template of the "open in editor" links, e.g. vscode://file/{path}
+      editorUrl?: string;
     };
   }
 }
@@ -0,0 +1,126 @@
+import { DirectedGraph } from 'graphology';
+import { ArchitectureLayer, ArchitectureRule, ArchitectureRules, RuleViolation } from '@/types';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+import { createNamespaceMatcher } from '@/utils/query-utils';
+
+export const VIOLATION_EDGE_COLOR = '#dc3545';
+
+export const EMPTY_ARCHITECTURE_RULES: ArchitectureRules = {
+  layers: [],
+  rules: []
+};
+
+export const RULE_TYPE_LABELS: Record<ArchitectureRule['type'], string> = {
+  'deny': 'must not depend on',
+  'allow': 'may only depend on'
+};
+
+/**
+ * Describe a rule in plain words, e.g. "Domain must not depend on Infrastructure"
+ */
+export const describeRule = (rule: ArchitectureRule): string => {
+  const targets = rule.to.length > 0 ? rule.to.join(', ') : 'no other layer';
+  return `${rule.from} ${RULE_TYPE_LABELS[rule.type]} ${targets}`;
+};
+
+/**
+ * Get the layer of every node, which is the first one with a pattern matching its namespace
+ */
+export const getNodeLayers = (graph: DirectedGraph, layers: ArchitectureLayer[]): Map<string, string> => {
+  const matchers = layers.map((layer) => ({
+    name: layer.name,
+    matchers: layer.patterns.map(createNamespaceMatcher)
+  }));
+
+  const nodeLayers = new Map<string, string>();
+  graph.forEachNode((node, attributes) => {
+    if (isNamespaceNode(attributes)) return;
+
+    const namespace = String(attributes.namespace ?? '');
+    const layer = matchers.find((item) => item.matchers.some((matches) => matches(namespace)));
+    if (layer) nodeLayers.set(node, layer.name);
+  });
+  return nodeLayers;
+};
+
+/**
+ * Check every dependency between two layers against the rules.
+ *
+ * Dependencies inside a layer and dependencies of nodes outside of any layer are always allowed.
+ */
+export const findRuleViolations = (graph: DirectedGraph, architecture: ArchitectureRules): RuleViolation[] => {
+  if (architecture.rules.length === 0) return [];
+
+  const nodeLayers = getNodeLayers(graph, architecture.layers);
+  const violations: RuleViolation[] = [];
+  graph.forEachEdge((edge, attributes, source, target) => {
+    const sourceLayer = nodeLayers.get(source);
+    const targetLayer = nodeLayers.get(target);
+    if (!sourceLayer || !targetLayer || sourceLayer === targetLayer) return;
+
+    architecture.rules.forEach((rule, index) => {
+      if (rule.from !== sourceLayer) return;
+
+      const listed = rule.to.includes(targetLayer);
+      if ((rule.type === 'deny' && listed) || (rule.type === 'allow' && !listed)) {
+        violations.push({ rule: index, edge, source, target, sourceLayer, targetLayer });
+      }
+    });
+  });
+  return violations;
+};
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read architecture rules from a parsed JSON file, checking that the rules refer to defined layers
+ */
+export const parseArchitectureRules = (raw: unknown): ArchitectureRules => {
+  if (!isRecord(raw)) {
+    throw new Error('The rules must be a JSON object with "layers" and "rules"');
+  }
+
+  if (!Array.isArray(raw.layers)) {
+    throw new Error('The rules have no "layers" list');
+  }
+
+  const layers: ArchitectureLayer[] = raw.layers.map((layer: unknown, index: number) => {
+    const name = isRecord(layer) && typeof layer.name === 'string' ? layer.name.trim() : '';
+    if (!isRecord(layer) || !name) {
+      throw new Error(`Layer #${index + 1} has no name`);
+    }
+    if (!isStringArray(layer.patterns)) {
+      throw new Error(`Layer "${name}" has no "patterns" list of namespaces`);
+    }
+    return { name, patterns: layer.patterns };
+  });
+
+  const names = layers.map((layer) => layer.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Layer "${duplicate}" is defined more than once`);
+  }
+
+  const rules: ArchitectureRule[] = (Array.isArray(raw.rules) ? raw.rules : []).map((rule: unknown, index: number) => {
+    const from = isRecord(rule) ? rule.from : undefined;
+    if (!isRecord(rule) || typeof from !== 'string' || !names.includes(from)) {
+      throw new Error(`Rule #${index + 1} applies to an unknown layer "${from}"`);
+    }
+    const type = rule.type;
+    if (type !== 'allow' && type !== 'deny') {
+      throw new Error(`Rule #${index + 1} has an unknown type "${type}", expected allow or deny`);
+    }
+    if (!isStringArray(rule.to)) {
+      throw new Error(`Rule #${index + 1} has no "to" list of layers`);
+    }
+    const unknown = rule.to.find((name) => !names.includes(name));
+    if (unknown) {
+      throw new Error(`Rule #${index + 1} refers to an unknown layer "${unknown}"`);
+    }
+    return { from, type, to: rule.to };
+  });
+
+  return { layers, rules };
+};
@@ -0,0 +1,158 @@
+import Sigma from 'sigma';
+import { CameraState } from 'sigma/types';
+import { EdgeData, GraphData, NodeData } from '@/types';
+import { createRandomGenerator } from '@/utils/layout-utils';
+
+// Sizes of the synthetic graphs offered by the benchmark
+export const BENCHMARK_GRAPH_SIZES = [1000, 5000, 10000, 20000];
+
+// Average number of "use" dependencies of a synthetic class
+const SYNTHETIC_DEPENDENCIES = 3;
+
+// Share of the dependencies of a synthetic class that stay inside its module
+const SYNTHETIC_LOCALITY = 0.8;
+
+// Duration of every camera move of the benchmark, in milliseconds
+const BENCHMARK_MOVE_DURATION = 1000;
+
+export interface FrameTimeStats {
+  frames: number;
+  // Time spent drawing a frame, in milliseconds
+  mean: number;
+  median: number;
+  p95: number;
+  max: number;
+  // Frames drawn per second while the camera moves
+  fps: number;
+}
+
+/**
+ * Generate a graph shaped like a PHP code base, in the spirit of the SampleDataGenerator of the analyzer:
+ * modules of namespaces nested by level, class hierarchies, interfaces, traits, and dependencies mostly
+ * inside a module. The same seed gives the same graph.
+ */
+export const generateSyntheticGraph = (nodeCount: number, seed: number = 1): GraphData => {
+  const random = createRandomGenerator(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  const moduleCount = Math.max(1, Math.round(Math.sqrt(nodeCount) / 4));
+  const nodes: { [key: string]: NodeData } = {};
+  const edges: { [key: string]: EdgeData } = {};
+  const modules = Array.from({ length: moduleCount }, () => ({
+    classes: [] as string[],
+    interfaces: [] as string[],
+    traits: [] as string[]
+  }));
+  const allClasses: string[] = [];
+
+  const addEdge = (source: string, target: string, type: EdgeData['type']) => {
+    const id = `${source}->${target}`;
+    if (source !== target && !edges[id]) {
+      edges[id] = { id, source, target, type };
+    }
+  };
+
+  for (let i = 0; i < nodeCount; i++) {
+    const moduleIndex = i % moduleCount;
+    const module = modules[moduleIndex];
+    const level = 1 + Math.floor(random() * 3);
+    const draw = random();
+    const type: NodeData['type'] = draw < 0.1 ? 'interface' : draw < 0.15 ? 'trait' : 'class';
+    const label = `${type === 'interface' ? 'Contract' : type === 'trait' ? 'Behavior' : 'Service'}${i}${type === 'interface' ? 'Interface' : ''}`;
+    const namespace = `App\\Module${moduleIndex}\\Level${level}`;
+    const id = `${namespace}\\${label}`;
+
+    nodes[id] = {
+      id,
+      label,
+      type,
+      metadata: {
+        namespace,
+        filePath: `src/Module${moduleIndex}/Level${level}/${label}.php`,
+        docComment: [`/**`, ` * Synthetic ${type} #${i}`, ` */`],
+        isAbstract: type === 'class' && random() < 0.1,
+        isFinal: type === 'class' && random() < 0.2
+      }
+    };
+
+    if (type === 'interface') {
+      module.interfaces.push(id);
+      continue;
+    }
+    if (type === 'trait') {
+      module.traits.push(id);
+      continue;
+    }
+
+    // Class hierarchies and contracts inside the module
+    if (module.classes.length > 0 && random() < 0.3) addEdge(id, pick(module.classes), 'extends');
+    if (module.interfaces.length > 0 && random() < 0.3) addEdge(id, pick(module.interfaces), 'implements');
+    if (module.traits.length > 0 && random() < 0.1) addEdge(id, pick(module.traits), 'usesTrait');
+
+    // Dependencies, mostly on the classes of the same module
+    const dependencyCount = Math.round(random() * 2 * SYNTHETIC_DEPENDENCIES);
+    for (let j = 0; j < dependencyCount; j++) {
+      const candidates = random() < SYNTHETIC_LOCALITY ? module.classes : allClasses;
+      if (candidates.length > 0) addEdge(id, pick(candidates), 'use');
+    }
+
+    module.classes.push(id);
+    allClasses.push(id);
+  }
+
+  return { nodes, edges };
+};
+
+const getPercentile = (sorted: number[], percentile: number): number => {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * percentile))];
+};
+
+/**
+ * Measure the frame times while the camera zooms in, pans and zooms out, as when exploring the graph.
+ * The camera is put back where it was afterwards.
+ */
+export const measureFrameTimes = async (sigma: Sigma, onProgress: (progress: number) => void): Promise<FrameTimeStats> => {
+  const camera = sigma.getCamera();
+  const initialState = camera.getState();
+  const moves: Partial<CameraState>[] = [
+    { ratio: initialState.ratio / 4 },
+    { x: initialState.x + 0.2, y: initialState.y + 0.2 },
+    { x: initialState.x - 0.2, y: initialState.y - 0.1, ratio: initialState.ratio / 2 },
+    initialState
+  ];
+
+  const durations: number[] = [];
+  let renderStart = 0;
+  const onBeforeRender = () => {
+    renderStart = performance.now();
+  };
+  const onAfterRender = () => {
+    durations.push(performance.now() - renderStart);
+  };
+  sigma.on('beforeRender', onBeforeRender);
+  sigma.on('afterRender', onAfterRender);
+
+  const start = performance.now();
+  try {
+    for (let i = 0; i < moves.length; i++) {
+      await camera.animate(moves[i], { duration: BENCHMARK_MOVE_DURATION, easing: 'quadraticInOut' });
+      onProgress((i + 1) / moves.length);
+    }
+  } finally {
+    sigma.off('beforeRender', onBeforeRender);
+    sigma.off('afterRender', onAfterRender);
+    camera.setState(initialState);
+  }
+  const elapsed = performance.now() - start;
+
+  const sorted = [...durations].sort((a, b) => a - b);
+  return {
+    frames: durations.length,
+    mean: durations.reduce((sum, duration) => sum + duration, 0) / Math.max(durations.length, 1),
+    median: getPercentile(sorted, 0.5),
+    p95: getPercentile(sorted, 0.95),
+    max: sorted[sorted.length - 1] || 0,
+    fps: durations.length / (elapsed / 1000)
+  };
+};
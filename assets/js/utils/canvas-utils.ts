@@ -1,6 +1,48 @@
 import { NodeDisplayData, PartialButFor } from "sigma/types";
 import { Settings } from "sigma/settings";
 
+export type NodeShape = 'circle' | 'square' | 'diamond';
+
+// Corners of the polygonal node shapes, relative to the node size, so that they look as big as a circle of the same size
+export const NODE_SHAPE_CORNERS: Record<Exclude<NodeShape, 'circle'>, [number, number][]> = {
+  'square': [[-0.85, -0.85], [0.85, -0.85], [0.85, 0.85], [-0.85, 0.85]],
+  'diamond': [[0, -1.2], [1.2, 0], [0, 1.2], [-1.2, 0]]
+};
+
+/**
+ * Get the shape of a node from its Sigma program type, circles being the default
+ */
+export const getShape = (type: string | undefined): NodeShape => {
+  return type === 'square' || type === 'diamond' ? type : 'circle';
+};
+
+/**
+ * Get the distance from the center of a node to the bottom of its shape
+ */
+export const getShapeBottom = (shape: NodeShape, size: number): number => {
+  if (shape === 'circle') return size;
+  return Math.max(...NODE_SHAPE_CORNERS[shape].map(([, y]) => y)) * size;
+};
+
+/**
+ * Add the outline of a node shape to the current path of the context
+ */
+export const traceNodeShape = (context: CanvasRenderingContext2D, shape: NodeShape, x: number, y: number, size: number): void => {
+  context.beginPath();
+  if (shape === 'circle') {
+    context.arc(x, y, size, 0, Math.PI * 2);
+  } else {
+    NODE_SHAPE_CORNERS[shape].forEach(([cornerX, cornerY], index) => {
+      if (index === 0) {
+        context.moveTo(x + cornerX * size, y + cornerY * size);
+      } else {
+        context.lineTo(x + cornerX * size, y + cornerY * size);
+      }
+    });
+  }
+  context.closePath();
+};
+
 export function drawLabel(
     context: CanvasRenderingContext2D,
     data: PartialButFor<NodeDisplayData, "x" | "y" | "size" | "label" | "color">,
@@ -19,7 +61,25 @@ export function drawLabel(
   context.shadowOffsetY = 0;
   context.shadowBlur = 6;
   context.shadowColor = '#ffffff';
-  context.fillText(data.label, data.x, data.y + data.size + size + 3);
+  context.fillText(data.label, data.x, data.y + getShapeBottom(getShape(data.type), data.size) + size + 3);
+}
+
+/**
+ * Draw a label without the white halo, whose blur is the slowest part of drawing labels on large graphs
+ */
+export function drawFastLabel(
+    context: CanvasRenderingContext2D,
+    data: PartialButFor<NodeDisplayData, "x" | "y" | "size" | "label" | "color">,
+    settings: Settings
+): void {
+  if (!data.label) return;
+
+  const size = settings.labelSize;
+  context.font = `${settings.labelWeight} ${size}px ${settings.labelFont}`;
+  context.fillStyle = settings.labelColor.color || 'black';
+  // The halo of the other labels may still be set on the context
+  context.shadowBlur = 0;
+  context.fillText(data.label, data.x, data.y + getShapeBottom(getShape(data.type), data.size) + size + 3);
 }
 
 export function drawHover(
@@ -29,18 +89,15 @@ export function drawHover(
 ): void {
   const size = data.size;
   const color = data.color;
+  const shape = getShape(data.type);
 
   // Draw border
-  context.beginPath();
-  context.arc(data.x, data.y, size + 3, 0, Math.PI * 2);
-  context.closePath();
+  traceNodeShape(context, shape, data.x, data.y, size + 3);
   context.fillStyle = '#ffffff';
   context.fill();
 
   // Draw node
-  context.beginPath();
-  context.arc(data.x, data.y, size, 0, Math.PI * 2);
-  context.closePath();
+  traceNodeShape(context, shape, data.x, data.y, size);
   context.fillStyle = color;
   context.fill();
 }
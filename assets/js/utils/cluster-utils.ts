@@ -0,0 +1,318 @@
+import { DirectedGraph } from 'graphology';
+import { Attributes } from 'graphology-types';
+import { Cluster, NamespaceTreeNode, NodeColorMode } from '@/types';
+import { colorNodesByAttribute, DIFF_STATUS_COLORS, EDGE_TYPE_COLORS, MAX_NODE_SIZE, MIN_NODE_SIZE, NODE_TYPE_COLORS } from '@/utils/graph-utils';
+
+export const NAMESPACE_SEPARATOR = '\\';
+
+// Prefixes used for the keys of aggregated namespace nodes and edges
+export const NAMESPACE_NODE_PREFIX = 'namespace:';
+export const NAMESPACE_EDGE_PREFIX = 'namespace-edge:';
+
+// Color used for collapsed namespaces when nodes are not colored by cluster
+export const NAMESPACE_NODE_COLOR = '#6c757d';
+
+// Palette used to color the top-level namespaces
+export const CLUSTER_COLORS = [
+  '#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4',
+  '#46f0f0', '#f032e6', '#bcf60c', '#008080', '#9a6324',
+  '#800000', '#808000', '#000075', '#fabebe', '#aaffc3'
+];
+
+export const GLOBAL_NAMESPACE_LABEL = '(global)';
+
+/**
+ * Get the namespace of a node, from its metadata or from its fully-qualified id
+ */
+export const getNodeNamespace = (id: string, attributes: Attributes): string => {
+  if (typeof attributes.namespace === 'string') return attributes.namespace;
+  if (typeof attributes.metadata?.namespace === 'string') return attributes.metadata.namespace;
+
+  const separatorIndex = id.lastIndexOf(NAMESPACE_SEPARATOR);
+  return separatorIndex === -1 ? '' : id.substring(0, separatorIndex);
+};
+
+/**
+ * Check whether a namespace is equal to or nested inside another namespace
+ */
+export const isInNamespace = (namespace: string, parent: string): boolean => {
+  return namespace === parent || namespace.startsWith(parent + NAMESPACE_SEPARATOR);
+};
+
+/**
+ * List the namespaces whose whole subtree is hidden by the namespace filters
+ */
+export const getHiddenNamespaces = (namespaces: { [namespace: string]: boolean } | undefined): string[] => {
+  return Object.entries(namespaces || {}).filter(([, shown]) => !shown).map(([namespace]) => namespace);
+};
+
+/**
+ * Check whether a node is an aggregated namespace node
+ */
+export const isNamespaceNode = (attributes: Attributes): boolean => {
+  return attributes.entityType === 'namespace';
+};
+
+const splitNamespace = (namespace: string): string[] => {
+  return namespace ? namespace.split(NAMESPACE_SEPARATOR) : [];
+};
+
+/**
+ * Get the number of leading namespace segments shared by all the given namespaces
+ */
+const getCommonDepth = (namespaces: string[]): number => {
+  if (namespaces.length === 0) return 0;
+
+  let common = splitNamespace(namespaces[0]);
+  namespaces.forEach((namespace) => {
+    const segments = splitNamespace(namespace);
+    let depth = 0;
+    while (depth < common.length && depth < segments.length && common[depth] === segments[depth]) {
+      depth++;
+    }
+    common = common.slice(0, depth);
+  });
+
+  return common.length;
+};
+
+/**
+ * Assign a cluster to every node based on its top-level namespace.
+ *
+ * The namespace prefix shared by the whole codebase (e.g. the vendor namespace)
+ * is skipped, so that the clusters are the first namespaces that actually differ.
+ */
+export const assignClusters = (graph: DirectedGraph): Cluster[] => {
+  const namespaces: Record<string, string> = {};
+  graph.forEachNode((node, attributes) => {
+    if (isNamespaceNode(attributes)) return;
+    namespaces[node] = getNodeNamespace(node, attributes);
+  });
+
+  const clusterDepth = getCommonDepth(Object.values(namespaces)) + 1;
+  const clusterKeys = new Set<string>();
+
+  Object.entries(namespaces).forEach(([node, namespace]) => {
+    const cluster = splitNamespace(namespace).slice(0, clusterDepth).join(NAMESPACE_SEPARATOR);
+    clusterKeys.add(cluster);
+    graph.mergeNodeAttributes(node, { namespace, cluster });
+  });
+
+  const clusters: Cluster[] = Array.from(clusterKeys).sort().map((key, index) => ({
+    key,
+    color: CLUSTER_COLORS[index % CLUSTER_COLORS.length],
+    clusterLabel: key || GLOBAL_NAMESPACE_LABEL
+  }));
+
+  const clusterColors: Record<string, string> = {};
+  clusters.forEach((cluster) => {
+    clusterColors[cluster.key] = cluster.color;
+  });
+
+  graph.forEachNode((node, attributes) => {
+    if (attributes.cluster !== undefined) {
+      graph.setNodeAttribute(node, 'clusterColor', clusterColors[attributes.cluster]);
+    }
+  });
+
+  return clusters;
+};
+
+/**
+ * Build the namespace hierarchy of the graph
+ */
+export const buildNamespaceTree = (graph: DirectedGraph): NamespaceTreeNode => {
+  const root: NamespaceTreeNode = { name: GLOBAL_NAMESPACE_LABEL, namespace: '', children: [], nodeCount: 0, totalCount: 0, typeCounts: {} };
+
+  graph.forEachNode((node, attributes) => {
+    if (isNamespaceNode(attributes)) return;
+
+    const count = (treeNode: NamespaceTreeNode) => {
+      treeNode.totalCount++;
+      treeNode.typeCounts[attributes.entityType] = (treeNode.typeCounts[attributes.entityType] || 0) + 1;
+    };
+
+    let current = root;
+    count(current);
+
+    splitNamespace(getNodeNamespace(node, attributes)).forEach((segment) => {
+      const namespace = current.namespace ? current.namespace + NAMESPACE_SEPARATOR + segment : segment;
+      let child = current.children.find((item) => item.name === segment);
+      if (!child) {
+        child = { name: segment, namespace, children: [], nodeCount: 0, totalCount: 0, typeCounts: {} };
+        current.children.push(child);
+      }
+      current = child;
+      count(current);
+    });
+
+    current.nodeCount++;
+  });
+
+  const sortTree = (treeNode: NamespaceTreeNode) => {
+    treeNode.children.sort((a, b) => a.name.localeCompare(b.name));
+    treeNode.children.forEach(sortTree);
+  };
+  sortTree(root);
+
+  return root;
+};
+
+/**
+ * Get the size of an aggregated namespace node from the number of its members
+ */
+const getNamespaceNodeSize = (memberCount: number): number => {
+  return Math.min(MAX_NODE_SIZE * 1.5, MIN_NODE_SIZE + Math.sqrt(memberCount) * 2);
+};
+
+/**
+ * Replace every collapsed namespace by a single aggregated node.
+ *
+ * The function is idempotent: existing namespace nodes are removed and rebuilt
+ * from the list of collapsed namespaces. Edges of the aggregated nodes are the
+ * sum of the edges of their members. When a namespace is expanded again, its
+ * members are moved by the distance its aggregated node was dragged, so that
+ * they reappear in place.
+ */
+export const applyCollapsedNamespaces = (graph: DirectedGraph, collapsedNamespaces: string[]): void => {
+  // Only keep the outermost collapsed namespaces
+  const collapsed = collapsedNamespaces.filter((namespace) =>
+      !collapsedNamespaces.some((other) => other !== namespace && isInNamespace(namespace, other))
+  );
+
+  const getCollapsedParent = (namespace: string): string | null => {
+    return collapsed.find((item) => isInNamespace(namespace, item)) ?? null;
+  };
+
+  // Remember the current state of the existing namespace nodes
+  const previousNodes: Record<string, Attributes> = {};
+  graph.forEachNode((node, attributes) => {
+    if (isNamespaceNode(attributes)) {
+      previousNodes[attributes.namespace] = attributes;
+    }
+  });
+
+  // Move the members of the expanded namespaces where their namespace node was
+  Object.entries(previousNodes).forEach(([namespace, attributes]) => {
+    if (collapsed.includes(namespace)) return;
+
+    const dx = attributes.x - attributes.originX;
+    const dy = attributes.y - attributes.originY;
+    if (!dx && !dy) return;
+
+    graph.forEachNode((node, nodeAttributes) => {
+      if (!isNamespaceNode(nodeAttributes) && nodeAttributes.collapsedInto === namespace) {
+        graph.mergeNodeAttributes(node, { x: nodeAttributes.x + dx, y: nodeAttributes.y + dy });
+      }
+    });
+  });
+
+  Object.values(previousNodes).forEach((attributes) => {
+    graph.dropNode(NAMESPACE_NODE_PREFIX + attributes.namespace);
+  });
+
+  // Mark the members of the collapsed namespaces
+  const members: Record<string, string[]> = {};
+  graph.forEachNode((node, attributes) => {
+    const parent = getCollapsedParent(getNodeNamespace(node, attributes));
+    graph.setNodeAttribute(node, 'collapsedInto', parent);
+
+    if (parent !== null) {
+      (members[parent] = members[parent] || []).push(node);
+    }
+  });
+
+  // Add a node for every collapsed namespace, at the center of its members
+  Object.entries(members).forEach(([namespace, nodes]) => {
+    let originX = 0;
+    let originY = 0;
+    nodes.forEach((node) => {
+      originX += graph.getNodeAttribute(node, 'x');
+      originY += graph.getNodeAttribute(node, 'y');
+    });
+    originX /= nodes.length;
+    originY /= nodes.length;
+
+    const previous = previousNodes[namespace];
+    const firstMember = graph.getNodeAttributes(nodes[0]);
+
+    graph.addNode(NAMESPACE_NODE_PREFIX + namespace, {
+      label: `${namespace || GLOBAL_NAMESPACE_LABEL} (${nodes.length})`,
+      entityType: 'namespace',
+      type: 'circle',
+      namespace,
+      cluster: firstMember.cluster,
+      clusterColor: firstMember.clusterColor,
+      color: NAMESPACE_NODE_COLOR,
+      memberCount: nodes.length,
+      size: getNamespaceNodeSize(nodes.length),
+      x: previous ? previous.x : originX,
+      y: previous ? previous.y : originY,
+      originX: previous ? previous.originX : originX,
+      originY: previous ? previous.originY : originY,
+      collapsedInto: null,
+      hidden: false
+    });
+  });
+
+  // Aggregate the edges of the collapsed nodes
+  const getRepresentative = (node: string): string => {
+    const parent = graph.getNodeAttribute(node, 'collapsedInto');
+    return parent === null ? node : NAMESPACE_NODE_PREFIX + parent;
+  };
+
+  const aggregatedEdges: Record<string, { source: string; target: string; counts: Record<string, number> }> = {};
+  graph.forEachEdge((edge, attributes, source, target) => {
+    const aggregatedSource = getRepresentative(source);
+    const aggregatedTarget = getRepresentative(target);
+
+    if (aggregatedSource === source && aggregatedTarget === target) return;
+    if (aggregatedSource === aggregatedTarget) return;
+
+    const key = `${NAMESPACE_EDGE_PREFIX}${aggregatedSource}->${aggregatedTarget}`;
+    const aggregated = aggregatedEdges[key] = aggregatedEdges[key] || { source: aggregatedSource, target: aggregatedTarget, counts: {} };
+    aggregated.counts[attributes.entityType] = (aggregated.counts[attributes.entityType] || 0) + 1;
+  });
+
+  Object.entries(aggregatedEdges).forEach(([key, { source, target, counts }]) => {
+    const weight = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    const [mainType] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+
+    graph.addDirectedEdgeWithKey(key, source, target, {
+      entityType: 'aggregate',
+      type: 'arrow',
+      counts,
+      weight,
+      color: EDGE_TYPE_COLORS[mainType as keyof typeof EDGE_TYPE_COLORS] || '#adb5bd',
+      size: 1 + Math.log2(weight),
+      hidden: false
+    });
+  });
+};
+
+/**
+ * Color the nodes by their PHP type, by their cluster, by their diff status or by a metric
+ */
+export const applyNodeColors = (graph: DirectedGraph, mode: NodeColorMode): void => {
+  const metricMode = mode !== 'type' && mode !== 'cluster' && mode !== 'diff';
+  if (metricMode) {
+    colorNodesByAttribute(graph, mode);
+  }
+
+  graph.forEachNode((node, attributes) => {
+    let color: string;
+    if (mode === 'cluster' && attributes.clusterColor) {
+      color = attributes.clusterColor;
+    } else if (isNamespaceNode(attributes)) {
+      color = NAMESPACE_NODE_COLOR;
+    } else if (metricMode) {
+      return;
+    } else if (mode === 'diff' && attributes.diffStatus) {
+      color = DIFF_STATUS_COLORS[attributes.diffStatus as keyof typeof DIFF_STATUS_COLORS];
+    } else {
+      color = NODE_TYPE_COLORS[attributes.entityType as keyof typeof NODE_TYPE_COLORS] || '#666';
+    }
+
+    graph.setNodeAttribute(node, 'color', color);
+  });
+};
@@ -0,0 +1,111 @@
+import { DirectedGraph } from 'graphology';
+import { Subgraph } from '@/types';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+
+/**
+ * Find the strongly connected components of a directed graph given by its nodes and their successors.
+ *
+ * Every component is listed after the components it depends on, so that the list is a reverse
+ * topological order of the components.
+ */
+export const findStronglyConnectedComponents = (nodes: Iterable<string>, getSuccessors: (node: string) => string[]): string[][] => {
+  // Iterative version of Tarjan's algorithm, to avoid stack overflows on deep graphs
+  const indices = new Map<string, number>();
+  const lowlinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let index = 0;
+
+  const open = (node: string) => {
+    indices.set(node, index);
+    lowlinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+  };
+
+  for (const start of nodes) {
+    if (indices.has(start)) continue;
+
+    open(start);
+    const callStack = [{ node: start, successors: getSuccessors(start), position: 0 }];
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1];
+
+      if (frame.position < frame.successors.length) {
+        const successor = frame.successors[frame.position++];
+        if (!indices.has(successor)) {
+          open(successor);
+          callStack.push({ node: successor, successors: getSuccessors(successor), position: 0 });
+        } else if (onStack.has(successor)) {
+          lowlinks.set(frame.node, Math.min(lowlinks.get(frame.node)!, indices.get(successor)!));
+        }
+        continue;
+      }
+
+      callStack.pop();
+      if (callStack.length > 0) {
+        const parent = callStack[callStack.length - 1].node;
+        lowlinks.set(parent, Math.min(lowlinks.get(parent)!, lowlinks.get(frame.node)!));
+      }
+
+      if (lowlinks.get(frame.node) === indices.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+};
+
+/**
+ * Find the strongly connected components of the dependency graph that contain a cycle.
+ *
+ * Only the edges whose type is enabled in `edgeTypes` are followed, and aggregated
+ * namespace nodes are ignored. The components are sorted from the largest to the smallest.
+ */
+export const findDependencyCycles = (graph: DirectedGraph, edgeTypes: { [key: string]: boolean }): Subgraph[] => {
+  const getSuccessors = (node: string): string[] => {
+    const successors: string[] = [];
+    graph.forEachOutEdge(node, (edge, attributes, source, target, sourceAttributes, targetAttributes) => {
+      if (edgeTypes[attributes.entityType] && !isNamespaceNode(targetAttributes)) {
+        successors.push(target);
+      }
+    });
+    return successors;
+  };
+
+  const components = findStronglyConnectedComponents(
+      graph.filterNodes((node, attributes) => !isNamespaceNode(attributes)),
+      getSuccessors
+  );
+
+  const cycles: Subgraph[] = [];
+  components.forEach((nodes) => {
+    const members = new Set(nodes);
+    const edges: string[] = [];
+    nodes.forEach((node) => {
+      graph.forEachOutEdge(node, (edge, attributes, source, target) => {
+        if (edgeTypes[attributes.entityType] && members.has(target)) {
+          edges.push(edge);
+        }
+      });
+    });
+
+    // A single node is only a cycle when it depends on itself
+    if (nodes.length > 1 || edges.length > 0) {
+      cycles.push({ nodes, edges });
+    }
+  });
+
+  return cycles.sort((a, b) => b.nodes.length - a.nodes.length || b.edges.length - a.edges.length);
+};
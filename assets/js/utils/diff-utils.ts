@@ -0,0 +1,101 @@
+import { DirectedGraph } from 'graphology';
+import { DiffStatus, EdgeData, GraphData, GraphDiff, NodeData, Subgraph } from '@/types';
+import { findDependencyCycles } from '@/utils/cycle-utils';
+import { buildGraph, DIFF_STATUS_COLORS, DIFF_UNCHANGED_EDGE_COLOR, EDGE_TYPE_COLORS } from '@/utils/graph-utils';
+
+/**
+ * Get the id of an edge, falling back to its extremities when the data has no id
+ */
+export const getEdgeId = (edge: EdgeData): string => {
+  return edge.id || `${edge.source}->${edge.target}`;
+};
+
+const getDiffStatus = (inBase: boolean, inHead: boolean): DiffStatus => {
+  if (inBase && inHead) return 'unchanged';
+  return inHead ? 'added' : 'removed';
+};
+
+/**
+ * Merge two snapshots of the graph, the head one taking precedence.
+ *
+ * The graph is not a multigraph, so an edge of the base snapshot is dropped
+ * when the head snapshot already links the same nodes.
+ */
+const mergeGraphData = (base: GraphData, head: GraphData): GraphData => {
+  const nodes: { [key: string]: NodeData } = {};
+  Object.values(base.nodes).forEach((node) => nodes[node.id] = node);
+  Object.values(head.nodes).forEach((node) => nodes[node.id] = node);
+
+  const edges: { [key: string]: EdgeData } = {};
+  const linked = new Set<string>();
+  Object.values(head.edges).forEach((edge) => {
+    edges[getEdgeId(edge)] = edge;
+    linked.add(`${edge.source}->${edge.target}`);
+  });
+  Object.values(base.edges).forEach((edge) => {
+    if (!linked.has(`${edge.source}->${edge.target}`)) {
+      edges[getEdgeId(edge)] = edge;
+    }
+  });
+
+  return { nodes, edges };
+};
+
+/**
+ * Find the cycles of the head snapshot whose classes were not already part of a single cycle in the base snapshot
+ */
+const findNewCycles = (graph: DirectedGraph, base: GraphData, head: GraphData): Subgraph[] => {
+  const edgeTypes = Object.fromEntries(Object.keys(EDGE_TYPE_COLORS).map((type) => [type, true]));
+  const headGraph = buildGraph(head);
+  const baseCycles = findDependencyCycles(buildGraph(base), edgeTypes).map((cycle) => new Set(cycle.nodes));
+
+  return findDependencyCycles(headGraph, edgeTypes)
+      .filter((cycle) => !baseCycles.some((baseCycle) => cycle.nodes.every((node) => baseCycle.has(node))))
+      .map((cycle) => ({
+        nodes: cycle.nodes,
+        // Translate the edge keys of the head graph to the merged graph
+        edges: cycle.edges.map((edge) => graph.edge(headGraph.source(edge), headGraph.target(edge))!)
+      }));
+};
+
+/**
+ * Build a graph containing the nodes and edges of both snapshots, where every
+ * node and edge has a `diffStatus` attribute, and compute the differences.
+ *
+ * Nodes are compared by id and edges by `getEdgeId`. The edges listed in the
+ * differences and in the new cycles are keys of the merged graph.
+ */
+export const buildDiffGraph = (base: GraphData, head: GraphData): { graph: DirectedGraph; diff: GraphDiff } => {
+  const graph = buildGraph(mergeGraphData(base, head));
+
+  const baseNodes = new Set(Object.values(base.nodes).map((node) => node.id));
+  const headNodes = new Set(Object.values(head.nodes).map((node) => node.id));
+  const baseEdges = new Set(Object.values(base.edges).map(getEdgeId));
+  const headEdges = new Set(Object.values(head.edges).map(getEdgeId));
+
+  const diff: GraphDiff = {
+    nodes: { added: [], removed: [], unchanged: [] },
+    edges: { added: [], removed: [], unchanged: [] },
+    newCycles: []
+  };
+
+  graph.forEachNode((node) => {
+    const status = getDiffStatus(baseNodes.has(node), headNodes.has(node));
+    graph.setNodeAttribute(node, 'diffStatus', status);
+    diff.nodes[status].push(node);
+  });
+
+  graph.forEachEdge((edge, attributes) => {
+    const id = getEdgeId(attributes as EdgeData);
+    const status = getDiffStatus(baseEdges.has(id), headEdges.has(id));
+    graph.mergeEdgeAttributes(edge, {
+      diffStatus: status,
+      color: status === 'unchanged' ? DIFF_UNCHANGED_EDGE_COLOR : DIFF_STATUS_COLORS[status]
+    });
+    diff.edges[status].push(edge);
+  });
+
+  diff.newCycles = findNewCycles(graph, base, head);
+
+  return { graph, diff };
+};
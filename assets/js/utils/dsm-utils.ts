@@ -0,0 +1,102 @@
+import { DirectedGraph } from 'graphology';
+import { Dsm, DsmCell, DsmEntry, DsmLevel } from '@/types';
+import { getNodeNamespace, GLOBAL_NAMESPACE_LABEL, isNamespaceNode, NAMESPACE_NODE_PREFIX } from '@/utils/cluster-utils';
+import { findStronglyConnectedComponents } from '@/utils/cycle-utils';
+
+const compareEntries = (a: DsmEntry, b: DsmEntry): number =>
+    a.namespace.localeCompare(b.namespace) || a.label.localeCompare(b.label);
+
+/**
+ * Build the dependency structure matrix of the displayed graph.
+ *
+ * Every edge between two classes is counted in the cell of the displayed nodes that stand for them,
+ * i.e. the classes themselves or the collapsed namespaces they belong to, so that the edges of
+ * the collapsed namespaces can still be listed. Hidden nodes and edges are left out.
+ *
+ * The entries are grouped and ordered by namespace. When the matrix is partitioned, the entries that
+ * depend on each other are brought together and every entry comes after the entries it depends on,
+ * so that only the dependencies of cycles are left above the diagonal.
+ */
+export const buildDsm = (graph: DirectedGraph, level: DsmLevel, partition: boolean): Dsm => {
+  // Displayed node standing for a class
+  const getRepresentative = (node: string): string => {
+    const collapsedInto = graph.getNodeAttribute(node, 'collapsedInto');
+    return collapsedInto === null || collapsedInto === undefined ? node : NAMESPACE_NODE_PREFIX + collapsedInto;
+  };
+
+  const entries = new Map<string, DsmEntry>();
+  const getEntryKey = (node: string): string | null => {
+    if (!graph.hasNode(node)) return null;
+    const attributes = graph.getNodeAttributes(node);
+    if (attributes.hidden) return null;
+
+    const namespace = getNodeNamespace(node, attributes);
+    const key = level === 'namespace' ? namespace : node;
+    if (!entries.has(key)) {
+      entries.set(key, {
+        key,
+        label: level === 'namespace' ? namespace || GLOBAL_NAMESPACE_LABEL : attributes.label || node,
+        namespace
+      });
+    }
+    return key;
+  };
+
+  graph.forEachNode((node) => {
+    getEntryKey(getRepresentative(node));
+  });
+
+  const dependencies = new Map<string, Map<string, Omit<DsmCell, 'row' | 'column'>>>();
+  graph.forEachEdge((edge, attributes, source, target, sourceAttributes, targetAttributes) => {
+    if (attributes.hidden || isNamespaceNode(sourceAttributes) || isNamespaceNode(targetAttributes)) return;
+
+    const row = getEntryKey(getRepresentative(source));
+    const column = getEntryKey(getRepresentative(target));
+    if (row === null || column === null) return;
+    // The dependencies inside a namespace are not shown at the namespace level
+    if (level === 'namespace' && row === column) return;
+
+    let rowCells = dependencies.get(row);
+    if (!rowCells) dependencies.set(row, rowCells = new Map());
+    let cell = rowCells.get(column);
+    if (!cell) rowCells.set(column, cell = { counts: {}, total: 0, edges: [] });
+
+    cell.counts[attributes.entityType] = (cell.counts[attributes.entityType] || 0) + 1;
+    cell.total++;
+    cell.edges.push(edge);
+  });
+
+  const sorted = Array.from(entries.values()).sort(compareEntries);
+  let ordered = sorted;
+  const cycles: Dsm['cycles'] = [];
+
+  if (partition) {
+    const components = findStronglyConnectedComponents(
+        sorted.map((entry) => entry.key),
+        (key) => Array.from(dependencies.get(key)?.keys() || []).filter((column) => column !== key)
+    );
+
+    ordered = [];
+    components.forEach((component) => {
+      if (component.length > 1) cycles.push({ start: ordered.length, size: component.length });
+      ordered.push(...component.map((key) => entries.get(key)!).sort(compareEntries));
+    });
+  }
+
+  const indices = new Map(ordered.map((entry, index) => [entry.key, index]));
+  const cells: DsmCell[] = [];
+  dependencies.forEach((rowCells, row) => {
+    rowCells.forEach((cell, column) => {
+      cells.push({ row: indices.get(row)!, column: indices.get(column)!, ...cell });
+    });
+  });
+
+  return { entries: ordered, cells, cycles };
+};
+
+/**
+ * Get the most frequent edge type of a cell, which it is colored by
+ */
+export const getMainEdgeType = (cell: DsmCell): string => {
+  return Object.entries(cell.counts).sort((a, b) => b[1] - a[1])[0][0];
+};
@@ -0,0 +1,283 @@
+import { DirectedGraph } from 'graphology';
+import { Attributes } from 'graphology-types';
+import { getShape, getShapeBottom, NODE_SHAPE_CORNERS, NodeShape } from '@/utils/canvas-utils';
+
+// Size of the longest side of the exported drawing, in pixels
+const EXPORT_SIZE = 2000;
+const EXPORT_MARGIN = 50;
+const EXPORT_LABEL_SIZE = 12;
+const EXPORT_FONT = 'Public Sans, sans-serif';
+
+// Scale of the PNG export relative to the SVG drawing
+const PNG_SCALE = 2;
+
+// Time the URL of a downloaded file is kept for, in milliseconds
+const DOWNLOAD_URL_LIFETIME = 60000;
+
+// Dash patterns of the edge styles, matching the WebGL programs
+const EDGE_DASH_ARRAYS: Record<string, string> = {
+  'dashed': '8 4',
+  'dotted': '2 3'
+};
+
+interface ExportedNode {
+  key: string;
+  attributes: Attributes;
+}
+
+interface ExportedEdge {
+  key: string;
+  source: string;
+  target: string;
+  attributes: Attributes;
+}
+
+/**
+ * Get the nodes and edges that are currently visible, i.e. not hidden by the filters
+ */
+export const getVisibleElements = (graph: DirectedGraph): { nodes: ExportedNode[]; edges: ExportedEdge[] } => {
+  const nodes: ExportedNode[] = [];
+  const edges: ExportedEdge[] = [];
+
+  graph.forEachNode((key, attributes) => {
+    if (!attributes.hidden) nodes.push({ key, attributes });
+  });
+
+  graph.forEachEdge((key, attributes, source, target, sourceAttributes, targetAttributes) => {
+    if (!attributes.hidden && !sourceAttributes.hidden && !targetAttributes.hidden) {
+      edges.push({ key, source, target, attributes });
+    }
+  });
+
+  return { nodes, edges };
+};
+
+const escapeXml = (value: string): string => {
+  return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+};
+
+const escapeDot = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+};
+
+/**
+ * Draw a node shape as an SVG element
+ */
+const getSvgShape = (shape: NodeShape, x: number, y: number, size: number, color: string): string => {
+  if (shape === 'circle') {
+    return `<circle cx="${x.toFixed(2)}" cy="${y.toFixed(2)}" r="${size}" fill="${escapeXml(color)}"/>`;
+  }
+
+  const points = NODE_SHAPE_CORNERS[shape].map(([cornerX, cornerY]) => `${(x + cornerX * size).toFixed(2)},${(y + cornerY * size).toFixed(2)}`);
+  return `<polygon points="${points.join(' ')}" fill="${escapeXml(color)}"/>`;
+};
+
+/**
+ * Export the visible graph as a standalone SVG document, preserving the current positions
+ */
+export const exportToSvg = (graph: DirectedGraph): string => {
+  const { nodes, edges } = getVisibleElements(graph);
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  nodes.forEach(({ attributes }) => {
+    minX = Math.min(minX, attributes.x);
+    maxX = Math.max(maxX, attributes.x);
+    minY = Math.min(minY, -attributes.y);
+    maxY = Math.max(maxY, -attributes.y);
+  });
+  if (nodes.length === 0) {
+    minX = minY = maxX = maxY = 0;
+  }
+
+  // The graph y axis points up, while the SVG one points down
+  const scale = (EXPORT_SIZE - 2 * EXPORT_MARGIN) / Math.max(maxX - minX, maxY - minY, 1e-9);
+  const width = Math.ceil((maxX - minX) * scale + 2 * EXPORT_MARGIN);
+  const height = Math.ceil((maxY - minY) * scale + 2 * EXPORT_MARGIN);
+  const positions: Record<string, { x: number; y: number; size: number }> = {};
+  nodes.forEach(({ key, attributes }) => {
+    positions[key] = {
+      x: (attributes.x - minX) * scale + EXPORT_MARGIN,
+      y: (-attributes.y - minY) * scale + EXPORT_MARGIN,
+      size: attributes.size || 5
+    };
+  });
+
+  // One arrow head marker per edge color
+  const edgeColors = Array.from(new Set(edges.map(({ attributes }) => attributes.color || '#adb5bd')));
+  const markerIds: Record<string, string> = {};
+  const markers = edgeColors.map((color, index) => {
+    markerIds[color] = `arrow-${index}`;
+    return `<marker id="arrow-${index}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">` +
+        `<path d="M 0 0 L 10 5 L 0 10 z" fill="${escapeXml(color)}"/></marker>`;
+  });
+
+  const edgeElements = edges.map(({ source, target, attributes }) => {
+    const from = positions[source];
+    const to = positions[target];
+    const color = attributes.color || '#adb5bd';
+
+    // Stop the line at the border of the target node
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.sqrt(dx * dx + dy * dy) || 1;
+    const x2 = to.x - (dx / length) * to.size;
+    const y2 = to.y - (dy / length) * to.size;
+
+    const dashArray = EDGE_DASH_ARRAYS[attributes.type];
+
+    return `<line x1="${from.x.toFixed(2)}" y1="${from.y.toFixed(2)}" x2="${x2.toFixed(2)}" y2="${y2.toFixed(2)}" ` +
+        `stroke="${escapeXml(color)}" stroke-width="${attributes.size || 1}"${dashArray ? ` stroke-dasharray="${dashArray}"` : ''} ` +
+        `marker-end="url(#${markerIds[color]})"/>`;
+  });
+
+  const nodeElements = nodes.map(({ key, attributes }) => {
+    const { x, y, size } = positions[key];
+    return getSvgShape(getShape(attributes.type), x, y, size, attributes.color || '#666');
+  });
+
+  const labelElements = nodes.filter(({ attributes }) => attributes.label).map(({ key, attributes }) => {
+    const { x, y, size } = positions[key];
+    const bottom = y + getShapeBottom(getShape(attributes.type), size);
+    return `<text x="${x.toFixed(2)}" y="${(bottom + EXPORT_LABEL_SIZE + 3).toFixed(2)}">${escapeXml(attributes.label)}</text>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs>${markers.join('')}</defs>`,
+    `<rect width="100%" height="100%" fill="white"/>`,
+    `<g class="edges">${edgeElements.join('')}</g>`,
+    `<g class="nodes">${nodeElements.join('')}</g>`,
+    `<g class="labels" font-family="${EXPORT_FONT}" font-size="${EXPORT_LABEL_SIZE}" fill="black">${labelElements.join('')}</g>`,
+    '</svg>'
+  ].join('\n');
+};
+
+/**
+ * Export the visible graph as a PNG image, rendered from the SVG export
+ */
+export const exportToPng = (graph: DirectedGraph): Promise<Blob> => {
+  const svg = exportToSvg(graph);
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width * PNG_SCALE;
+      canvas.height = image.height * PNG_SCALE;
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+
+      context.scale(PNG_SCALE, PNG_SCALE);
+      context.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+
+      canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Failed to render the PNG image')), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load the SVG image'));
+    };
+    image.src = url;
+  });
+};
+
+/**
+ * Export the visible graph in the Graphviz DOT format, with fixed positions
+ */
+export const exportToDot = (graph: DirectedGraph): string => {
+  const { nodes, edges } = getVisibleElements(graph);
+
+  const lines = [
+    'digraph dependencies {',
+    '  node [style=filled, fontname="Helvetica"];',
+    ...nodes.map(({ key, attributes }) =>
+        `  "${escapeDot(key)}" [label="${escapeDot(attributes.label || key)}", fillcolor="${attributes.color || '#666'}", ` +
+        `type="${escapeDot(attributes.entityType || '')}", pos="${(+attributes.x).toFixed(4)},${(+attributes.y).toFixed(4)}!"];`
+    ),
+    ...edges.map(({ source, target, attributes }) =>
+        `  "${escapeDot(source)}" -> "${escapeDot(target)}" [label="${escapeDot(attributes.entityType || '')}", color="${attributes.color || '#adb5bd'}"];`
+    ),
+    '}'
+  ];
+
+  return lines.join('\n');
+};
+
+const hexToRgb = (color: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : [102, 102, 102];
+};
+
+/**
+ * Export the visible graph in the GEXF format, with positions, sizes and colors
+ */
+export const exportToGexf = (graph: DirectedGraph): string => {
+  const { nodes, edges } = getVisibleElements(graph);
+
+  const nodeElements = nodes.map(({ key, attributes }) => {
+    const [r, g, b] = hexToRgb(attributes.color || '#666');
+    return `      <node id="${escapeXml(key)}" label="${escapeXml(attributes.label || key)}">\n` +
+        `        <attvalues><attvalue for="type" value="${escapeXml(attributes.entityType || '')}"/></attvalues>\n` +
+        `        <viz:color r="${r}" g="${g}" b="${b}"/>\n` +
+        `        <viz:position x="${attributes.x}" y="${attributes.y}" z="0"/>\n` +
+        `        <viz:size value="${attributes.size || 5}"/>\n` +
+        `      </node>`;
+  });
+
+  const edgeElements = edges.map(({ key, source, target, attributes }) => {
+    const [r, g, b] = hexToRgb(attributes.color || '#adb5bd');
+    return `      <edge id="${escapeXml(key)}" source="${escapeXml(source)}" target="${escapeXml(target)}" label="${escapeXml(attributes.entityType || '')}">\n` +
+        `        <attvalues><attvalue for="type" value="${escapeXml(attributes.entityType || '')}"/></attvalues>\n` +
+        `        <viz:color r="${r}" g="${g}" b="${b}"/>\n` +
+        `      </edge>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node"><attribute id="type" title="type" type="string"/></attributes>',
+    '    <attributes class="edge"><attribute id="type" title="type" type="string"/></attributes>',
+    '    <nodes>',
+    ...nodeElements,
+    '    </nodes>',
+    '    <edges>',
+    ...edgeElements,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>'
+  ].join('\n');
+};
+
+/**
+ * Trigger the download of a file in the browser
+ */
+export const downloadFile = (content: Blob | string, filename: string, mimeType: string): void => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // The download starts asynchronously, so the URL is revoked once it had the time to start
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME);
+};
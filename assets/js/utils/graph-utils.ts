@@ -1,7 +1,7 @@
 import { DirectedGraph } from 'graphology';
 import circular from 'graphology-layout/circular';
 import random from 'graphology-layout/random';
-import { GraphData, NodeData, EdgeData } from '@/types';
+import { GraphBatch, GraphData, NodeData, EdgeData } from '@/types';
 
 // Node type to color mapping
 export const NODE_TYPE_COLORS = {
@@ -18,23 +18,61 @@ export const EDGE_TYPE_COLORS = {
   'use': '#adb5bd'
 };
 
+// Edge type labels, including the edges between collapsed namespaces
+export const EDGE_TYPE_LABELS: { [type: string]: string } = {
+  'extends': 'Extends',
+  'implements': 'Implements',
+  'usesTrait': 'Uses trait',
+  'use': 'Uses',
+  'aggregate': 'Namespace dependencies'
+};
+
+// Diff status to color mapping, used when comparing two snapshots of the graph
+export const DIFF_STATUS_COLORS = {
+  'added': '#28a745',
+  'removed': '#dc3545',
+  'unchanged': '#868e96'
+};
+export const DIFF_UNCHANGED_EDGE_COLOR = '#dee2e6';
+
 // Node size settings
 export const MIN_NODE_SIZE = 5;
 export const MAX_NODE_SIZE = 20;
 
+// Gradient used when coloring nodes by a metric
+export const METRIC_LOW_COLOR = '#2c7bb6';
+export const METRIC_HIGH_COLOR = '#d7191c';
+
+// Angle between two consecutive nodes of the spiral on which the nodes are placed when they are added
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
 /**
  * Convert API graph data to a graphology graph
  */
 export const buildGraph = (graphData: GraphData): DirectedGraph => {
   const graph = new DirectedGraph();
+  appendGraphData(graph, { nodes: Object.values(graphData.nodes), edges: Object.values(graphData.edges) });
+  return graph;
+};
 
+/**
+ * Add nodes and edges to a graph, as they are received when the graph data is streamed.
+ *
+ * The nodes are placed on a spiral in the order they are added, so that the graph can be displayed
+ * before it is laid out.
+ */
+export const appendGraphData = (graph: DirectedGraph, { nodes, edges }: GraphBatch): void => {
   // Add nodes
-  Object.values(graphData.nodes).forEach((node: NodeData) => {
+  nodes.forEach((node: NodeData) => {
     // Set node color based on type
     const nodeColor = NODE_TYPE_COLORS[node.type] || '#666';
+    const index = graph.order;
 
     graph.addNode(node.id, {
       ...node,
+      metadata: node.metadata || {},
+      x: Math.sqrt(index) * Math.cos(index * GOLDEN_ANGLE),
+      y: Math.sqrt(index) * Math.sin(index * GOLDEN_ANGLE),
       color: nodeColor,
       size: MIN_NODE_SIZE,
       entityType: node.type, // Store the PHP entity type (class, trait, interface)
@@ -44,9 +82,9 @@ export const buildGraph = (graphData: GraphData): DirectedGraph => {
   });
 
   // Add edges
-  Object.values(graphData.edges).forEach((edge: EdgeData) => {
-    // Skip if source or target doesn't exist
-    if (!graph.hasNode(edge.source) || !graph.hasNode(edge.target)) {
+  edges.forEach((edge: EdgeData) => {
+    // Skip dangling and parallel edges, which are reported when decoding the graph data
+    if (!graph.hasNode(edge.source) || !graph.hasNode(edge.target) || graph.hasEdge(edge.source, edge.target)) {
       return;
     }
 
@@ -55,31 +93,44 @@ export const buildGraph = (graphData: GraphData): DirectedGraph => {
 
     graph.addEdge(edge.source, edge.target, {
       ...edge,
+      metadata: edge.metadata || {},
       color: edgeColor,
       size: edge.type === 'extends' ? 2 : 1,
       entityType: edge.type,
-      type: 'line',
+      type: getEdgeStyle(edge.type),
       hidden: false
     });
   });
-
-  return graph;
 };
 
 /**
  * Get node shape based on type
  */
-const getNodeShape = (type: string): string => {
+export const getNodeShape = (type: string): string => {
   switch (type) {
     case 'trait':
-      return 'circle';
+      return 'square';
     case 'interface':
-      return 'circle';
+      return 'diamond';
     default:
       return 'circle';
   }
 };
 
+/**
+ * Get the Sigma program drawing an edge, so that the kind of relationship is visible without its color
+ */
+export const getEdgeStyle = (type: string): string => {
+  switch (type) {
+    case 'implements':
+      return 'dashed';
+    case 'usesTrait':
+      return 'dotted';
+    default:
+      return 'arrow';
+  }
+};
+
 /**
  * Initialize the graph with positions and sizes
  */
@@ -100,33 +151,83 @@ export const initializeGraph = (graph: DirectedGraph): void => {
     }
   }
 
-  // Calculate node degrees (sum of incoming and outgoing connections)
-  const degrees: Record<string, number> = {};
-  let minDegree = Infinity;
-  let maxDegree = 0;
+  assignNodeDegrees(graph);
+
+  // Set node sizes based on their degree
+  sizeNodesByAttribute(graph, 'degree');
+};
+
+/**
+ * Calculate node degrees (sum of incoming and outgoing connections), leaving out the edges of the collapsed namespaces
+ */
+export const assignNodeDegrees = (graph: DirectedGraph): void => {
+  graph.forEachNode((node, attributes) => {
+    // Collapsed namespace nodes are sized by their member count
+    if (attributes.entityType === 'namespace') return;
+    const degree = graph.filterEdges(node, (edge, edgeAttributes) => edgeAttributes.entityType !== 'aggregate').length;
+    graph.setNodeAttribute(node, 'degree', degree);
+  });
+};
+
+/**
+ * Get the range of a numeric node attribute, ignoring the nodes that do not have it
+ */
+const getAttributeRange = (graph: DirectedGraph, attribute: string): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
 
-  graph.forEachNode((node) => {
-    const degree = graph.inDegree(node) + graph.outDegree(node);
-    degrees[node] = degree;
+  graph.forEachNode((node, attributes) => {
+    const value = attributes[attribute];
+    if (typeof value !== 'number') return;
 
-    minDegree = Math.min(minDegree, degree);
-    maxDegree = Math.max(maxDegree, degree);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
   });
 
-  // If all nodes have the same degree, set them to the minimum size
-  if (minDegree === maxDegree) {
-    graph.forEachNode((node) => {
-      graph.setNodeAttribute(node, 'size', MIN_NODE_SIZE);
-    });
-    return;
-  }
+  return [min, max];
+};
 
-  // Set node sizes based on their degree
-  graph.forEachNode((node) => {
-    const degree = degrees[node];
-    const normalizedDegree = (degree - minDegree) / (maxDegree - minDegree);
-    const size = MIN_NODE_SIZE + normalizedDegree * (MAX_NODE_SIZE - MIN_NODE_SIZE);
+/**
+ * Set node sizes based on a numeric attribute, such as the degree or a coupling metric
+ */
+export const sizeNodesByAttribute = (graph: DirectedGraph, attribute: string): void => {
+  const [min, max] = getAttributeRange(graph, attribute);
+
+  graph.forEachNode((node, attributes) => {
+    const value = attributes[attribute];
+    if (typeof value !== 'number') return;
+
+    // If all nodes have the same value, set them to the minimum size
+    const normalizedValue = max > min ? (value - min) / (max - min) : 0;
+    const size = MIN_NODE_SIZE + normalizedValue * (MAX_NODE_SIZE - MIN_NODE_SIZE);
 
     graph.setNodeAttribute(node, 'size', size);
   });
 };
+
+/**
+ * Interpolate between two hexadecimal colors
+ */
+export const interpolateColor = (from: string, to: string, ratio: number): string => {
+  const parse = (color: string) => [1, 3, 5].map((index) => parseInt(color.substring(index, index + 2), 16));
+  const [fromRgb, toRgb] = [parse(from), parse(to)];
+
+  return '#' + fromRgb
+      .map((value, index) => Math.round(value + (toRgb[index] - value) * ratio).toString(16).padStart(2, '0'))
+      .join('');
+};
+
+/**
+ * Set node colors on a gradient based on a numeric attribute
+ */
+export const colorNodesByAttribute = (graph: DirectedGraph, attribute: string): void => {
+  const [min, max] = getAttributeRange(graph, attribute);
+
+  graph.forEachNode((node, attributes) => {
+    const value = attributes[attribute];
+    if (typeof value !== 'number') return;
+
+    const normalizedValue = max > min ? (value - min) / (max - min) : 0;
+    graph.setNodeAttribute(node, 'color', interpolateColor(METRIC_LOW_COLOR, METRIC_HIGH_COLOR, normalizedValue));
+  });
+};
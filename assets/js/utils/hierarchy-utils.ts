@@ -0,0 +1,183 @@
+import { DirectedGraph } from 'graphology';
+import { HierarchyDiagram, HierarchyTreeNode, InheritanceHierarchy, InheritedNode } from '@/types';
+
+// Edge types making up the inheritance hierarchy, as opposed to the mere uses
+export const INHERITANCE_EDGE_TYPES = ['extends', 'implements', 'usesTrait'];
+
+/**
+ * List the nodes a node is linked to by edges of the given types
+ */
+const getTargets = (graph: DirectedGraph, node: string, edgeTypes: string[]): string[] => {
+  const targets: string[] = [];
+  graph.forEachOutEdge(node, (edge, attributes, source, target) => {
+    if (edgeTypes.includes(attributes.entityType) && target !== node && !targets.includes(target)) targets.push(target);
+  });
+  return targets;
+};
+
+/**
+ * List the nodes linked to a node by edges of the given types
+ */
+const getSources = (graph: DirectedGraph, node: string, edgeTypes: string[]): { node: string; edgeType: string }[] => {
+  const sources: { node: string; edgeType: string }[] = [];
+  graph.forEachInEdge(node, (edge, attributes, source) => {
+    if (edgeTypes.includes(attributes.entityType) && source !== node && !sources.some((item) => item.node === source)) {
+      sources.push({ node: source, edgeType: attributes.entityType });
+    }
+  });
+  return sources.sort((a, b) => a.node.localeCompare(b.node));
+};
+
+/**
+ * Get the length of the longest chain of classes or interfaces extended by a node, ignoring cyclic inheritance
+ */
+export const getInheritanceDepth = (graph: DirectedGraph, node: string, visiting: Set<string> = new Set()): number => {
+  visiting.add(node);
+  let depth = 0;
+  getTargets(graph, node, ['extends']).forEach((parent) => {
+    if (!visiting.has(parent)) depth = Math.max(depth, 1 + getInheritanceDepth(graph, parent, visiting));
+  });
+  visiting.delete(node);
+  return depth;
+};
+
+/**
+ * Follow the edges of a type from some nodes, then from the nodes found, remembering the node each one comes through
+ */
+const collectInherited = (graph: DirectedGraph, starts: InheritedNode[], edgeType: string, exclude: Set<string>): InheritedNode[] => {
+  const found = new Map<string, string | null>();
+  const queue: InheritedNode[] = [];
+
+  starts.forEach(({ node, via }) => {
+    getTargets(graph, node, [edgeType]).forEach((target) => queue.push({ node: target, via }));
+  });
+
+  while (queue.length > 0) {
+    const { node, via } = queue.shift()!;
+    if (found.has(node) || exclude.has(node)) continue;
+    found.set(node, via);
+
+    // Interfaces extend other interfaces, and traits use other traits
+    getTargets(graph, node, [edgeType === 'implements' ? 'extends' : edgeType]).forEach((target) => {
+      queue.push({ node: target, via: node });
+    });
+  }
+
+  return Array.from(found, ([node, via]) => ({ node, via }));
+};
+
+/**
+ * Build the inheritance hierarchy of a class, interface or trait: the classes or interfaces it extends,
+ * the interfaces and traits it gets from itself or from its ancestors, and the tree of the classes,
+ * interfaces and traits inheriting from it.
+ *
+ * Every node of the tree of descendants is only listed once, under the first parent it is reached from.
+ */
+export const buildInheritanceHierarchy = (graph: DirectedGraph, node: string): InheritanceHierarchy => {
+  // Extended classes or interfaces, breadth first
+  const ancestors: string[] = [];
+  const queue = getTargets(graph, node, ['extends']);
+  while (queue.length > 0) {
+    const ancestor = queue.shift()!;
+    if (ancestor === node || ancestors.includes(ancestor)) continue;
+    ancestors.push(ancestor);
+    queue.push(...getTargets(graph, ancestor, ['extends']));
+  }
+
+  const starts: InheritedNode[] = [{ node, via: null }, ...ancestors.map((ancestor) => ({ node: ancestor, via: ancestor }))];
+  const exclude = new Set([node, ...ancestors]);
+
+  const visited = new Set<string>([node]);
+  const buildTree = (treeNode: HierarchyTreeNode): HierarchyTreeNode => {
+    getSources(graph, treeNode.node, INHERITANCE_EDGE_TYPES).forEach(({ node: child, edgeType }) => {
+      if (visited.has(child)) return;
+      visited.add(child);
+      treeNode.children.push({ node: child, edgeType, children: [] });
+    });
+    treeNode.children.forEach(buildTree);
+    return treeNode;
+  };
+  const descendants = buildTree({ node, edgeType: null, children: [] });
+
+  return {
+    node,
+    ancestors,
+    interfaces: collectInherited(graph, starts, 'implements', exclude),
+    traits: collectInherited(graph, starts, 'usesTrait', exclude),
+    descendants,
+    depth: getInheritanceDepth(graph, node),
+    childCount: descendants.children.length,
+    descendantCount: visited.size - 1
+  };
+};
+
+/**
+ * Lay out the inheritance hierarchy of a node from top to bottom, in rows of one unit:
+ * the classes, interfaces and traits it inherits from above it, by distance, and the tree of its descendants
+ * below it, every parent being centered above its children.
+ */
+export const layoutHierarchyDiagram = (graph: DirectedGraph, hierarchy: InheritanceHierarchy): HierarchyDiagram => {
+  const positions = new Map<string, { x: number; y: number }>();
+  const edges: HierarchyDiagram['edges'] = [];
+
+  // Descendants, the leaves being one unit apart
+  let nextLeaf = 0;
+  const placeTree = (treeNode: HierarchyTreeNode, depth: number): number => {
+    let x: number;
+    if (treeNode.children.length === 0) {
+      x = nextLeaf++;
+    } else {
+      const childPositions = treeNode.children.map((child) => placeTree(child, depth + 1));
+      x = (childPositions[0] + childPositions[childPositions.length - 1]) / 2;
+    }
+    positions.set(treeNode.node, { x, y: depth });
+    treeNode.children.forEach((child) => edges.push({ source: child.node, target: treeNode.node, edgeType: child.edgeType! }));
+    return x;
+  };
+  const rootX = placeTree(hierarchy.descendants, 0);
+
+  // Inherited nodes, in rows centered above the node
+  const levels: string[][] = [];
+  let current = [hierarchy.node];
+  const seen = new Set(current);
+  while (current.length > 0) {
+    const next: string[] = [];
+    current.forEach((child) => {
+      getTargets(graph, child, INHERITANCE_EDGE_TYPES).forEach((parent) => {
+        graph.forEachEdge(child, parent, (edge, attributes) => {
+          if (INHERITANCE_EDGE_TYPES.includes(attributes.entityType)) {
+            edges.push({ source: child, target: parent, edgeType: attributes.entityType });
+          }
+        });
+        if (!seen.has(parent)) {
+          seen.add(parent);
+          next.push(parent);
+        }
+      });
+    });
+    if (next.length > 0) levels.push(next.sort());
+    current = next;
+  }
+  levels.forEach((level, index) => {
+    level.forEach((node, position) => {
+      positions.set(node, { x: rootX + position - (level.length - 1) / 2, y: -(index + 1) });
+    });
+  });
+
+  // Move the diagram to positive coordinates
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  positions.forEach(({ x, y }) => {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+
+  return {
+    nodes: Array.from(positions, ([node, { x, y }]) => ({ node, x: x - minX, y: y + levels.length })),
+    edges,
+    width: maxX - minX + 1,
+    height: maxY + levels.length + 1
+  };
+};
@@ -0,0 +1,95 @@
+import { DirectedGraph } from 'graphology';
+import { ImpactAnalysis } from '@/types';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+import { interpolateColor } from '@/utils/graph-utils';
+
+// Colors of the changed classes, and of the affected classes from the nearest to the farthest
+export const IMPACT_SOURCE_COLOR = '#67001f';
+export const IMPACT_NEAR_COLOR = '#d7191c';
+export const IMPACT_FAR_COLOR = '#fdae61';
+
+/**
+ * Compute the blast radius of changing some classes: every class depending on them, directly or through
+ * other classes, with its distance from the nearest changed class.
+ *
+ * Only the edges whose type is enabled in `edgeTypes` are followed, hidden or not, and aggregated namespace
+ * nodes are ignored.
+ */
+export const computeImpact = (graph: DirectedGraph, nodes: string[], edgeTypes: { [key: string]: boolean }): ImpactAnalysis => {
+  const distances = new Map<string, number>();
+  let frontier = nodes.filter((node) => graph.hasNode(node));
+  frontier.forEach((node) => distances.set(node, 0));
+
+  let maxDistance = 0;
+  for (let distance = 1; frontier.length > 0; distance++) {
+    const next: string[] = [];
+    frontier.forEach((node) => {
+      graph.forEachInEdge(node, (edge, attributes, source, target, sourceAttributes) => {
+        if (distances.has(source) || !edgeTypes[attributes.entityType] || isNamespaceNode(sourceAttributes)) return;
+        distances.set(source, distance);
+        next.push(source);
+      });
+    });
+    if (next.length > 0) maxDistance = distance;
+    frontier = next;
+  }
+
+  const counts = new Map<string, number>();
+  distances.forEach((distance, node) => {
+    if (distance === 0) return;
+    const namespace = graph.getNodeAttribute(node, 'namespace') ?? '';
+    counts.set(namespace, (counts.get(namespace) || 0) + 1);
+  });
+
+  return {
+    distances,
+    maxDistance,
+    namespaces: Array.from(counts, ([namespace, count]) => ({ namespace, count }))
+        .sort((a, b) => b.count - a.count || a.namespace.localeCompare(b.namespace))
+  };
+};
+
+/**
+ * Get the color of a class from its distance to the changed classes
+ */
+export const getImpactColor = (distance: number, maxDistance: number): string => {
+  if (distance === 0) return IMPACT_SOURCE_COLOR;
+  return interpolateColor(IMPACT_NEAR_COLOR, IMPACT_FAR_COLOR, maxDistance > 1 ? (distance - 1) / (maxDistance - 1) : 0);
+};
+
+/**
+ * Get the affected classes, from the nearest to the farthest, then by name
+ */
+const getAffectedNodes = (impact: ImpactAnalysis): string[] => {
+  return Array.from(impact.distances.keys())
+      .sort((a, b) => impact.distances.get(a)! - impact.distances.get(b)! || a.localeCompare(b));
+};
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Export the affected classes as CSV, with their type, namespace, distance and file
+ */
+export const exportImpactToCsv = (graph: DirectedGraph, impact: ImpactAnalysis): string => {
+  const rows = getAffectedNodes(impact).map((node) => {
+    const attributes = graph.getNodeAttributes(node);
+    return [node, attributes.entityType, attributes.namespace ?? '', impact.distances.get(node)!, attributes.metadata?.filePath ?? '']
+        .map(escapeCsv)
+        .join(',');
+  });
+
+  return [['class', 'type', 'namespace', 'distance', 'file'].join(','), ...rows].join('\n') + '\n';
+};
+
+/**
+ * Export the affected classes as plain text, one per line, followed by their file after a tab when it is known
+ */
+export const exportImpactToText = (graph: DirectedGraph, impact: ImpactAnalysis): string => {
+  return getAffectedNodes(impact).map((node) => {
+    const filePath = graph.getNodeAttribute(node, 'metadata')?.filePath;
+    return filePath ? `${node}\t${filePath}` : node;
+  }).join('\n') + '\n';
+};
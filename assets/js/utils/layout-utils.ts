@@ -0,0 +1,380 @@
+import { DirectedGraph } from 'graphology';
+import forceAtlas2 from 'graphology-layout-forceatlas2';
+import noverlap from 'graphology-layout-noverlap';
+import circlepack from 'graphology-layout/circlepack';
+import circular from 'graphology-layout/circular';
+import random from 'graphology-layout/random';
+import { LayoutName, LayoutOptions, NodePositions, SavedLayout } from '@/types';
+import { isNamespaceNode, NAMESPACE_NODE_PREFIX } from '@/utils/cluster-utils';
+
+export const FA2_SETTINGS = {
+  gravity: 1,
+  scalingRatio: 1.2,
+  strongGravityMode: true,
+  slowDown: 10,
+  edgeWeightInfluence: 0,
+  barnesHutOptimize: true,
+  barnesHutTheta: 0.5,
+};
+
+// Number of iterations used to compute a ForceAtlas2 layout without the live worker, e.g. to reproduce it from a shared URL
+export const FA2_ITERATIONS = 200;
+
+// Number of ForceAtlas2 iterations between two progress reports
+const FA2_BATCH_ITERATIONS = 10;
+
+// Layouts that can be computed in a web worker, which are the slowest ones on large graphs
+export const WORKER_LAYOUTS: LayoutName[] = ['force', 'forceAtlas2'];
+
+export const LAYOUT_LABELS: Record<LayoutName, string> = {
+  'circular': 'Circular',
+  'forceAtlas2': 'ForceAtlas2',
+  'hierarchical': 'Hierarchical',
+  'namespaces': 'Grouped by namespace',
+  'force': 'Seeded force',
+  'custom': 'Custom positions'
+};
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  seed: 1,
+  noverlap: false
+};
+
+// Edge types the hierarchical layout is oriented along, from the child to the parent
+const HIERARCHY_EDGE_TYPES = ['extends', 'implements'];
+
+// Spacing of the hierarchical layout, in graph coordinates
+const LAYER_SPACING = 100;
+const NODE_SPACING = 60;
+
+// Number of barycenter passes used to reduce the crossings between layers
+const ORDERING_SWEEPS = 8;
+
+// Size of the viewport the node sizes of noverlap are relative to
+const NOVERLAP_VIEWPORT_SIZE = 1000;
+const NOVERLAP_ITERATIONS = 200;
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32), so that randomized layouts can be reproduced
+ */
+export const createRandomGenerator = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Get a copy of the graph without the aggregated namespace nodes, which are placed with their members,
+ * and restricted to the given nodes if any
+ */
+export const getLayoutGraph = (graph: DirectedGraph, nodes: Set<string> | null): DirectedGraph => {
+  const layoutGraph = graph.copy();
+  layoutGraph.filterNodes((node, attributes) => isNamespaceNode(attributes) || (!!nodes && !nodes.has(node)))
+      .forEach((node) => layoutGraph.dropNode(node));
+  return layoutGraph;
+};
+
+/**
+ * Compute a layered (Sugiyama-style) layout, where the parents are above their children.
+ *
+ * Layers are assigned by the longest path to a root of the hierarchy, then the nodes of every
+ * layer are ordered by the barycenter of their neighbors to reduce crossings. The nodes outside
+ * of the hierarchy are arranged in a grid below it.
+ */
+const computeHierarchicalLayout = (graph: DirectedGraph): NodePositions => {
+  const parents = new Map<string, string[]>();
+  const children = new Map<string, string[]>();
+  graph.forEachNode((node) => {
+    parents.set(node, []);
+    children.set(node, []);
+  });
+  graph.forEachEdge((edge, attributes, source, target) => {
+    if (source === target || !HIERARCHY_EDGE_TYPES.includes(attributes.entityType)) return;
+    parents.get(source)!.push(target);
+    children.get(target)!.push(source);
+  });
+
+  // Layer of every node in the hierarchy, guarding against cycles in invalid data
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+  const getLayer = (node: string): number => {
+    if (layers.has(node)) return layers.get(node)!;
+    if (visiting.has(node)) return 0;
+
+    visiting.add(node);
+    const layer = parents.get(node)!.reduce((max, parent) => Math.max(max, getLayer(parent) + 1), 0);
+    visiting.delete(node);
+    layers.set(node, layer);
+    return layer;
+  };
+
+  // Sort by label first, so that the layout does not depend on the order of the data
+  const byLabel = (a: string, b: string) =>
+      String(graph.getNodeAttribute(a, 'label') || a).localeCompare(String(graph.getNodeAttribute(b, 'label') || b)) ||
+      a.localeCompare(b);
+  const hierarchyNodes = graph.filterNodes((node) => parents.get(node)!.length + children.get(node)!.length > 0).sort(byLabel);
+  const looseNodes = graph.filterNodes((node) => parents.get(node)!.length + children.get(node)!.length === 0).sort(byLabel);
+
+  const rows: string[][] = [];
+  hierarchyNodes.forEach((node) => {
+    const layer = getLayer(node);
+    (rows[layer] = rows[layer] || []).push(node);
+  });
+  for (let layer = 0; layer < rows.length; layer++) {
+    rows[layer] = rows[layer] || [];
+  }
+
+  // Relative position of every node in its layer, between 0 and 1
+  const ranks = new Map<string, number>();
+  const updateRanks = (row: string[]) => {
+    row.forEach((node, index) => ranks.set(node, row.length > 1 ? index / (row.length - 1) : 0.5));
+  };
+  rows.forEach(updateRanks);
+
+  const orderByBarycenter = (row: string[], neighbors: Map<string, string[]>) => {
+    const barycenters = new Map<string, number>();
+    row.forEach((node) => {
+      const placed = neighbors.get(node)!.filter((neighbor) => ranks.has(neighbor));
+      barycenters.set(node, placed.length > 0
+          ? placed.reduce((sum, neighbor) => sum + ranks.get(neighbor)!, 0) / placed.length
+          : ranks.get(node)!);
+    });
+    // Array.prototype.sort is stable, so ties keep their previous order
+    row.sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+    updateRanks(row);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let layer = 1; layer < rows.length; layer++) orderByBarycenter(rows[layer], parents);
+    } else {
+      for (let layer = rows.length - 2; layer >= 0; layer--) orderByBarycenter(rows[layer], children);
+    }
+  }
+
+  const positions: NodePositions = {};
+  rows.forEach((row, layer) => {
+    row.forEach((node, index) => {
+      positions[node] = { x: (index - (row.length - 1) / 2) * NODE_SPACING, y: -layer * LAYER_SPACING };
+    });
+  });
+
+  // Arrange the nodes outside of the hierarchy in a grid as wide as the widest layer
+  const columns = Math.max(Math.ceil(Math.sqrt(looseNodes.length)), ...rows.map((row) => row.length));
+  const gridTop = -(rows.length + 1) * LAYER_SPACING;
+  looseNodes.forEach((node, index) => {
+    const column = index % columns;
+    const line = Math.floor(index / columns);
+    const lineLength = Math.min(columns, looseNodes.length - line * columns);
+    positions[node] = { x: (column - (lineLength - 1) / 2) * NODE_SPACING, y: gridTop - line * LAYER_SPACING / 2 };
+  });
+
+  return positions;
+};
+
+/**
+ * Spread overlapping nodes apart, taking their displayed size into account
+ */
+const applyNoverlap = (graph: DirectedGraph, positions: NodePositions): NodePositions => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  Object.values(positions).forEach(({ x, y }) => {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  });
+
+  // Node sizes are in pixels, so they are scaled to the extent of the layout
+  const ratio = Math.max(maxX - minX, maxY - minY, 1e-9) / NOVERLAP_VIEWPORT_SIZE;
+
+  return noverlap(graph, {
+    maxIterations: NOVERLAP_ITERATIONS,
+    inputReducer: (node, attributes) => ({ ...positions[node], size: attributes.size }),
+    settings: { ratio, margin: 2 * ratio }
+  });
+};
+
+/**
+ * Run the iterations of a force layout on a layout graph, the seeded one starting from random positions.
+ *
+ * The iterations are run in batches, so that the progress can be reported when the layout is computed in a worker.
+ */
+export const runForceLayout = (
+    layoutGraph: DirectedGraph,
+    layout: LayoutName,
+    options: LayoutOptions,
+    onProgress: ((progress: number) => void) | null = null
+): NodePositions => {
+  if (layout === 'force') {
+    random.assign(layoutGraph, { rng: createRandomGenerator(options.seed), scale: 100 });
+  }
+
+  for (let done = 0; done < FA2_ITERATIONS; done += FA2_BATCH_ITERATIONS) {
+    forceAtlas2.assign(layoutGraph, { iterations: Math.min(FA2_BATCH_ITERATIONS, FA2_ITERATIONS - done), settings: FA2_SETTINGS });
+    if (onProgress) onProgress(Math.min(done + FA2_BATCH_ITERATIONS, FA2_ITERATIONS) / FA2_ITERATIONS);
+  }
+
+  return getNodePositions(layoutGraph);
+};
+
+/**
+ * Keep the pinned nodes in place, spread the overlapping nodes apart if asked to, and place the aggregated
+ * namespace nodes at the center of their members
+ */
+export const finalizeLayout = (
+    graph: DirectedGraph,
+    layoutGraph: DirectedGraph,
+    layout: LayoutName,
+    options: LayoutOptions,
+    positions: NodePositions
+): NodePositions => {
+  if (layout !== 'custom') {
+    layoutGraph.forEachNode((node, attributes) => {
+      if (attributes.fixed) positions[node] = { x: attributes.x, y: attributes.y };
+    });
+  }
+
+  if (options.noverlap) {
+    positions = applyNoverlap(layoutGraph, positions);
+  }
+
+  // Place the namespace nodes at the center of their members
+  const members: Record<string, { x: number; y: number; count: number }> = {};
+  graph.forEachNode((node, attributes) => {
+    if (isNamespaceNode(attributes) || attributes.collapsedInto === null || attributes.collapsedInto === undefined || !positions[node]) return;
+
+    const center = members[attributes.collapsedInto] = members[attributes.collapsedInto] || { x: 0, y: 0, count: 0 };
+    center.x += positions[node].x;
+    center.y += positions[node].y;
+    center.count++;
+  });
+  Object.entries(members).forEach(([namespace, { x, y, count }]) => {
+    positions[NAMESPACE_NODE_PREFIX + namespace] = { x: x / count, y: y / count };
+  });
+
+  return positions;
+};
+
+/**
+ * Compute the positions of a layout without applying them, so that the nodes can be animated to them.
+ *
+ * Pinned nodes keep their current position, unless custom positions are applied.
+ * When a subset of the nodes is given, only they are laid out, e.g. the neighborhood of a focused node.
+ * The aggregated namespace nodes are placed at the center of their members.
+ */
+export const computeLayout = (
+    graph: DirectedGraph,
+    layout: LayoutName,
+    options: LayoutOptions,
+    customPositions: NodePositions | null = null,
+    nodes: Set<string> | null = null
+): NodePositions => {
+  const layoutGraph = getLayoutGraph(graph, nodes);
+
+  let positions: NodePositions;
+  switch (layout) {
+    case 'custom':
+      // Nodes missing from the custom positions stay where they are
+      positions = getNodePositions(layoutGraph);
+      Object.entries(customPositions || {}).forEach(([node, position]) => {
+        if (positions[node]) positions[node] = { x: position.x, y: position.y };
+      });
+      break;
+    case 'hierarchical':
+      positions = computeHierarchicalLayout(layoutGraph);
+      break;
+    case 'namespaces':
+      positions = circlepack(layoutGraph, {
+        hierarchyAttributes: ['cluster', 'namespace'],
+        rng: createRandomGenerator(options.seed)
+      });
+      break;
+    case 'force':
+    case 'forceAtlas2':
+      // The ForceAtlas2 layout continues from the current positions, as the live layout does
+      positions = runForceLayout(layoutGraph, layout, options);
+      break;
+    default:
+      positions = circular(layoutGraph) as NodePositions;
+  }
+
+  return finalizeLayout(graph, layoutGraph, layout, options, positions);
+};
+
+/**
+ * Get the positions of the nodes of the graph, without the aggregated namespace nodes
+ */
+export const getNodePositions = (graph: DirectedGraph): NodePositions => {
+  const positions: NodePositions = {};
+  graph.forEachNode((node, attributes) => {
+    if (!isNamespaceNode(attributes)) {
+      positions[node] = { x: attributes.x, y: attributes.y };
+    }
+  });
+  return positions;
+};
+
+/**
+ * Get a key identifying a layout and its options, to know whether the current positions come from it
+ */
+export const getLayoutKey = (layout: LayoutName, options: LayoutOptions): string => {
+  return [layout, options.seed, options.noverlap].join(':');
+};
+
+/**
+ * Save the current positions of the graph under a name
+ */
+export const createSavedLayout = (graph: DirectedGraph, name: string): SavedLayout => {
+  return {
+    name,
+    savedAt: Date.now(),
+    positions: getNodePositions(graph),
+    pinnedNodes: graph.filterNodes((node, attributes) => !isNamespaceNode(attributes) && !!attributes.fixed)
+  };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read a saved layout from a parsed JSON file, keeping only the valid positions.
+ *
+ * The positions downloaded before layouts could be named have no name, so the fallback one is used.
+ */
+export const parseSavedLayout = (raw: unknown, fallbackName: string): SavedLayout => {
+  if (!isRecord(raw)) {
+    throw new Error('The layout must be a JSON object with "positions"');
+  }
+
+  if (!isRecord(raw.positions)) {
+    throw new Error('The layout has no "positions" of nodes');
+  }
+
+  const positions: NodePositions = {};
+  Object.entries(raw.positions).forEach(([node, position]) => {
+    if (isRecord(position) && isFiniteNumber(position.x) && isFiniteNumber(position.y)) {
+      positions[node] = { x: position.x, y: position.y };
+    }
+  });
+  if (Object.keys(positions).length === 0) {
+    throw new Error('The layout has no valid node positions');
+  }
+
+  return {
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : fallbackName,
+    savedAt: isFiniteNumber(raw.savedAt) ? raw.savedAt : Date.now(),
+    positions,
+    pinnedNodes: Array.isArray(raw.pinnedNodes)
+        ? raw.pinnedNodes.filter((node: unknown): node is string => typeof node === 'string' && node in positions)
+        : []
+  };
+};
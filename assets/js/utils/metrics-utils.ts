@@ -0,0 +1,94 @@
+import { DirectedGraph } from 'graphology';
+import { Attributes } from 'graphology-types';
+import { CouplingMetrics, MetricKey, NamespaceMetrics } from '@/types';
+import { getNodeNamespace, isNamespaceNode } from '@/utils/cluster-utils';
+
+export const METRIC_LABELS: Record<MetricKey, string> = {
+  'degree': 'Degree',
+  'fanIn': 'Fan-in (Ca)',
+  'fanOut': 'Fan-out (Ce)',
+  'instability': 'Instability (I)',
+  'abstractness': 'Abstractness (A)',
+  'distance': 'Distance (D)'
+};
+
+/**
+ * Check whether a node is abstract, i.e. an interface or an abstract class
+ */
+export const isAbstractNode = (attributes: Attributes): boolean => {
+  return attributes.entityType === 'interface' || !!attributes.metadata?.isAbstract;
+};
+
+/**
+ * Compute Robert Martin's instability and distance from the main sequence
+ */
+const buildMetrics = (fanIn: number, fanOut: number, abstractness: number): CouplingMetrics => {
+  const instability = fanIn + fanOut > 0 ? fanOut / (fanIn + fanOut) : 0;
+
+  return {
+    fanIn,
+    fanOut,
+    instability,
+    abstractness,
+    distance: Math.abs(abstractness + instability - 1)
+  };
+};
+
+/**
+ * Compute the coupling metrics of every node and store them as node attributes
+ */
+export const assignNodeMetrics = (graph: DirectedGraph): void => {
+  graph.forEachNode((node, attributes) => {
+    if (isNamespaceNode(attributes)) return;
+
+    const dependents = new Set<string>();
+    const dependencies = new Set<string>();
+    graph.forEachInNeighbor(node, (neighbor, neighborAttributes) => {
+      if (neighbor !== node && !isNamespaceNode(neighborAttributes)) dependents.add(neighbor);
+    });
+    graph.forEachOutNeighbor(node, (neighbor, neighborAttributes) => {
+      if (neighbor !== node && !isNamespaceNode(neighborAttributes)) dependencies.add(neighbor);
+    });
+
+    graph.mergeNodeAttributes(node, buildMetrics(dependents.size, dependencies.size, isAbstractNode(attributes) ? 1 : 0));
+  });
+};
+
+/**
+ * Compute the coupling metrics of every namespace.
+ *
+ * The afferent coupling of a namespace is the number of classes outside of it
+ * that depend on its classes, and its efferent coupling the number of classes
+ * outside of it that its classes depend on.
+ */
+export const computeNamespaceMetrics = (graph: DirectedGraph): NamespaceMetrics[] => {
+  const namespaces: Record<string, { classes: string[]; abstractCount: number; dependents: Set<string>; dependencies: Set<string> }> = {};
+  const nodeNamespaces: Record<string, string> = {};
+
+  graph.forEachNode((node, attributes) => {
+    if (isNamespaceNode(attributes)) return;
+
+    const namespace = getNodeNamespace(node, attributes);
+    nodeNamespaces[node] = namespace;
+
+    const entry = namespaces[namespace] = namespaces[namespace] || { classes: [], abstractCount: 0, dependents: new Set(), dependencies: new Set() };
+    entry.classes.push(node);
+    if (isAbstractNode(attributes)) entry.abstractCount++;
+  });
+
+  graph.forEachEdge((edge, attributes, source, target) => {
+    const sourceNamespace = nodeNamespaces[source];
+    const targetNamespace = nodeNamespaces[target];
+    if (sourceNamespace === undefined || targetNamespace === undefined || sourceNamespace === targetNamespace) return;
+
+    namespaces[sourceNamespace].dependencies.add(target);
+    namespaces[targetNamespace].dependents.add(source);
+  });
+
+  return Object.entries(namespaces).map(([namespace, entry]) => ({
+    namespace,
+    classCount: entry.classes.length,
+    abstractCount: entry.abstractCount,
+    ...buildMetrics(entry.dependents.size, entry.dependencies.size, entry.abstractCount / entry.classes.length)
+  }));
+};
@@ -0,0 +1,97 @@
+import { DirectedGraph } from 'graphology';
+import { DependencyPath } from '@/types';
+import { forEachVisibleNeighbor, getTransitiveNeighbors } from '@/utils/traversal-utils';
+
+// Upper bound on the number of paths returned when searching all simple paths
+export const MAX_PATH_COUNT = 50;
+
+/**
+ * Find the shortest directed path between two nodes, following visible edges only
+ */
+export const findShortestPath = (graph: DirectedGraph, source: string, target: string): DependencyPath | null => {
+  if (!graph.hasNode(source) || !graph.hasNode(target)) return null;
+  if (source === target) return { nodes: [source], edges: [] };
+
+  const previous = new Map<string, { node: string; edge: string }>();
+  const visited = new Set<string>([source]);
+  let frontier = [source];
+
+  while (frontier.length > 0 && !visited.has(target)) {
+    const next: string[] = [];
+    frontier.forEach((current) => {
+      forEachVisibleNeighbor(graph, current, 'out', (neighbor, attributes, edge) => {
+        if (visited.has(neighbor)) return;
+        visited.add(neighbor);
+        previous.set(neighbor, { node: current, edge });
+        next.push(neighbor);
+      });
+    });
+    frontier = next;
+  }
+
+  if (!visited.has(target)) return null;
+
+  const path: DependencyPath = { nodes: [target], edges: [] };
+  let current = target;
+  while (current !== source) {
+    const step = previous.get(current)!;
+    path.nodes.unshift(step.node);
+    path.edges.unshift(step.edge);
+    current = step.node;
+  }
+
+  return path;
+};
+
+/**
+ * Find all simple directed paths between two nodes, up to a maximum number of hops.
+ *
+ * Paths are returned from the shortest to the longest.
+ */
+export const findAllSimplePaths = (
+    graph: DirectedGraph,
+    source: string,
+    target: string,
+    maxLength: number,
+    maxCount: number = MAX_PATH_COUNT
+): DependencyPath[] => {
+  if (!graph.hasNode(source) || !graph.hasNode(target) || source === target) return [];
+
+  // Distance of every node to the target, to prune branches that cannot reach it in time
+  const distanceToTarget = getTransitiveNeighbors(graph, target, 'in', maxLength);
+  distanceToTarget.set(target, 0);
+
+  const paths: DependencyPath[] = [];
+  const nodes = [source];
+  const edges: string[] = [];
+  const onPath = new Set<string>([source]);
+
+  const visit = (current: string) => {
+    if (paths.length >= maxCount) return;
+
+    forEachVisibleNeighbor(graph, current, 'out', (neighbor, attributes, edge) => {
+      if (paths.length >= maxCount || onPath.has(neighbor)) return;
+
+      const distance = distanceToTarget.get(neighbor);
+      if (distance === undefined || edges.length + 1 + distance > maxLength) return;
+
+      nodes.push(neighbor);
+      edges.push(edge);
+
+      if (neighbor === target) {
+        paths.push({ nodes: [...nodes], edges: [...edges] });
+      } else {
+        onPath.add(neighbor);
+        visit(neighbor);
+        onPath.delete(neighbor);
+      }
+
+      nodes.pop();
+      edges.pop();
+    });
+  };
+
+  visit(source);
+
+  return paths.sort((a, b) => a.edges.length - b.edges.length);
+};
@@ -0,0 +1,36 @@
+import { Settings } from 'sigma/settings';
+import { drawFastLabel, drawLabel } from '@/utils/canvas-utils';
+
+// Number of nodes from which the performance mode is enabled when a graph is loaded
+export const PERFORMANCE_MODE_THRESHOLD = 2000;
+
+// Delay before searching the nodes of a large graph, in milliseconds
+export const LARGE_GRAPH_SEARCH_DELAY = 150;
+
+/**
+ * Get the rendering settings of the normal or performance mode.
+ *
+ * In performance mode, the edges and labels are hidden while the camera moves, and fewer labels are drawn,
+ * without halo: only the nodes large enough on screen get one, so that more labels appear when zooming in.
+ */
+export const getRenderSettings = (performanceMode: boolean): Partial<Settings> => {
+  if (performanceMode) {
+    return {
+      defaultDrawNodeLabel: drawFastLabel,
+      hideEdgesOnMove: true,
+      hideLabelsOnMove: true,
+      labelDensity: 0.03,
+      labelGridCellSize: 100,
+      labelRenderedSizeThreshold: 20
+    };
+  }
+
+  return {
+    defaultDrawNodeLabel: drawLabel,
+    hideEdgesOnMove: false,
+    hideLabelsOnMove: false,
+    labelDensity: 0.07,
+    labelGridCellSize: 60,
+    labelRenderedSizeThreshold: 15
+  };
+};
@@ -0,0 +1,309 @@
+import {
+  createEdgeArrowHeadProgram,
+  createEdgeCompoundProgram,
+  DEFAULT_EDGE_ARROW_HEAD_PROGRAM_OPTIONS,
+  EdgeArrowProgram,
+  EdgeProgram,
+  EdgeProgramType,
+  NodeCircleProgram,
+  NodeProgram,
+  NodeProgramType,
+  numberToGLSLFloat,
+  ProgramInfo
+} from 'sigma/rendering';
+import { EdgeDisplayData, NodeDisplayData, RenderParams } from 'sigma/types';
+import { floatColor } from 'sigma/utils';
+import { NODE_SHAPE_CORNERS, NodeShape } from '@/utils/canvas-utils';
+
+// Length of the dashes and of the gaps between them, in pixels
+export interface EdgeDashOptions {
+  dashLength: number;
+  gapLength: number;
+}
+
+const NODE_UNIFORMS = ['u_sizeRatio', 'u_correctionRatio', 'u_matrix'] as const;
+
+// language=GLSL
+const NODE_VERTEX_SHADER_SOURCE = /*glsl*/`
+attribute vec4 a_id;
+attribute vec4 a_color;
+attribute vec2 a_position;
+attribute float a_size;
+attribute vec2 a_offset;
+
+uniform mat3 u_matrix;
+uniform float u_sizeRatio;
+uniform float u_correctionRatio;
+
+varying vec4 v_color;
+
+const float bias = 255.0 / 254.0;
+
+void main() {
+  // Same scale as the radius of the circle nodes
+  float size = a_size * u_correctionRatio / u_sizeRatio * 2.0;
+  vec2 position = a_position + a_offset * size;
+  gl_Position = vec4((u_matrix * vec3(position, 1)).xy, 0, 1);
+
+  #ifdef PICKING_MODE
+  v_color = a_id;
+  #else
+  v_color = a_color;
+  #endif
+
+  v_color.a *= bias;
+}
+`;
+
+// language=GLSL
+const NODE_FRAGMENT_SHADER_SOURCE = /*glsl*/`
+precision mediump float;
+
+varying vec4 v_color;
+
+void main(void) {
+  gl_FragColor = v_color;
+}
+`;
+
+/**
+ * Create a program drawing the nodes as a convex polygon, split into triangles around its center.
+ * Their labels and hover are drawn by the default functions of canvas-utils, which follow the node shape.
+ */
+export const createNodeShapeProgram = (shape: Exclude<NodeShape, 'circle'>): NodeProgramType => {
+  const corners = NODE_SHAPE_CORNERS[shape];
+  const vertices = corners.flatMap((corner, index) => [[0, 0], corner, corners[(index + 1) % corners.length]]);
+
+  return class NodeShapeProgram extends NodeProgram<typeof NODE_UNIFORMS[number]> {
+    getDefinition() {
+      const { FLOAT, UNSIGNED_BYTE, TRIANGLES } = WebGLRenderingContext;
+      return {
+        VERTICES: vertices.length,
+        VERTEX_SHADER_SOURCE: NODE_VERTEX_SHADER_SOURCE,
+        FRAGMENT_SHADER_SOURCE: NODE_FRAGMENT_SHADER_SOURCE,
+        METHOD: TRIANGLES,
+        UNIFORMS: NODE_UNIFORMS,
+        ATTRIBUTES: [
+          { name: 'a_position', size: 2, type: FLOAT },
+          { name: 'a_size', size: 1, type: FLOAT },
+          { name: 'a_color', size: 4, type: UNSIGNED_BYTE, normalized: true },
+          { name: 'a_id', size: 4, type: UNSIGNED_BYTE, normalized: true }
+        ],
+        CONSTANT_ATTRIBUTES: [{ name: 'a_offset', size: 2, type: FLOAT }],
+        CONSTANT_DATA: vertices
+      };
+    }
+
+    processVisibleItem(nodeIndex: number, startIndex: number, data: NodeDisplayData) {
+      const array = this.array;
+      array[startIndex++] = data.x;
+      array[startIndex++] = data.y;
+      array[startIndex++] = data.size;
+      array[startIndex++] = floatColor(data.color);
+      array[startIndex++] = nodeIndex;
+    }
+
+    setUniforms(params: RenderParams, { gl, uniformLocations }: ProgramInfo<typeof NODE_UNIFORMS[number]>) {
+      gl.uniform1f(uniformLocations.u_correctionRatio, params.correctionRatio);
+      gl.uniform1f(uniformLocations.u_sizeRatio, params.sizeRatio);
+      gl.uniformMatrix3fv(uniformLocations.u_matrix, false, params.matrix);
+    }
+  };
+};
+
+const EDGE_UNIFORMS = [
+  'u_matrix',
+  'u_zoomRatio',
+  'u_sizeRatio',
+  'u_correctionRatio',
+  'u_pixelRatio',
+  'u_feather',
+  'u_minEdgeThickness',
+  'u_lengthToThicknessRatio',
+  'u_dimensions'
+] as const;
+
+// language=GLSL
+const EDGE_VERTEX_SHADER_SOURCE = /*glsl*/`
+attribute vec4 a_id;
+attribute vec4 a_color;
+attribute vec2 a_normal;
+attribute float a_normalCoef;
+attribute vec2 a_positionStart;
+attribute vec2 a_positionEnd;
+attribute float a_positionCoef;
+attribute float a_radius;
+attribute float a_radiusCoef;
+
+uniform mat3 u_matrix;
+uniform float u_zoomRatio;
+uniform float u_sizeRatio;
+uniform float u_pixelRatio;
+uniform float u_correctionRatio;
+uniform float u_minEdgeThickness;
+uniform float u_lengthToThicknessRatio;
+uniform float u_feather;
+uniform vec2 u_dimensions;
+
+varying vec4 v_color;
+varying vec2 v_normal;
+varying float v_thickness;
+varying float v_feather;
+varying float v_distance;
+
+const float bias = 255.0 / 254.0;
+
+void main() {
+  float radius = a_radius * a_radiusCoef;
+  vec2 normal = a_normal * a_normalCoef;
+  vec2 position = a_positionStart * (1.0 - a_positionCoef) + a_positionEnd * a_positionCoef;
+
+  float normalLength = length(normal);
+  vec2 unitNormal = normal / normalLength;
+
+  // The line stops before the target node, to leave space for the arrow head, as in the Sigma clamped edges
+  float pixelsThickness = max(normalLength, u_minEdgeThickness * u_sizeRatio);
+  float webGLThickness = pixelsThickness * u_correctionRatio / u_sizeRatio;
+
+  float direction = sign(radius);
+  float webGLNodeRadius = direction * radius * 2.0 * u_correctionRatio / u_sizeRatio;
+  float webGLArrowHeadLength = webGLThickness * u_lengthToThicknessRatio * 2.0;
+
+  vec2 compensationVector = vec2(-direction * unitNormal.y, direction * unitNormal.x) * (webGLNodeRadius + webGLArrowHeadLength);
+  vec2 center = position + compensationVector;
+
+  gl_Position = vec4((u_matrix * vec3(center + unitNormal * webGLThickness, 1)).xy, 0, 1);
+
+  // Distance from the source in pixels, along which the dashes are drawn
+  vec2 startPosition = (u_matrix * vec3(a_positionStart, 1)).xy;
+  vec2 centerPosition = (u_matrix * vec3(center, 1)).xy;
+  v_distance = length((centerPosition - startPosition) * u_dimensions / 2.0);
+
+  v_thickness = webGLThickness / u_zoomRatio;
+  v_normal = unitNormal;
+  v_feather = u_feather * u_correctionRatio / u_zoomRatio / u_pixelRatio * 2.0;
+
+  #ifdef PICKING_MODE
+  v_color = a_id;
+  #else
+  v_color = a_color;
+  #endif
+
+  v_color.a *= bias;
+}
+`;
+
+const getEdgeFragmentShaderSource = ({ dashLength, gapLength }: EdgeDashOptions): string => /*glsl*/`
+precision mediump float;
+
+varying vec4 v_color;
+varying vec2 v_normal;
+varying float v_thickness;
+varying float v_feather;
+varying float v_distance;
+
+const vec4 transparent = vec4(0.0, 0.0, 0.0, 0.0);
+const float dashLength = ${numberToGLSLFloat(dashLength)};
+const float period = ${numberToGLSLFloat(dashLength + gapLength)};
+
+void main(void) {
+  // The gaps can be picked, so that hovering a dashed edge is as easy as a plain one
+  #ifdef PICKING_MODE
+  gl_FragColor = v_color;
+  #else
+  if (mod(v_distance, period) > dashLength) discard;
+
+  float dist = length(v_normal) * v_thickness;
+  float t = smoothstep(v_thickness - v_feather, v_thickness, dist);
+
+  gl_FragColor = mix(v_color, transparent, t);
+  #endif
+}
+`;
+
+/**
+ * Create a program drawing the edges as dashed lines stopping before their target node
+ */
+export const createEdgeDashedProgram = (options: EdgeDashOptions): EdgeProgramType => {
+  const fragmentShaderSource = getEdgeFragmentShaderSource(options);
+
+  return class EdgeDashedProgram extends EdgeProgram<typeof EDGE_UNIFORMS[number]> {
+    getDefinition() {
+      const { FLOAT, UNSIGNED_BYTE, TRIANGLES } = WebGLRenderingContext;
+      return {
+        VERTICES: 6,
+        VERTEX_SHADER_SOURCE: EDGE_VERTEX_SHADER_SOURCE,
+        FRAGMENT_SHADER_SOURCE: fragmentShaderSource,
+        METHOD: TRIANGLES,
+        UNIFORMS: EDGE_UNIFORMS,
+        ATTRIBUTES: [
+          { name: 'a_positionStart', size: 2, type: FLOAT },
+          { name: 'a_positionEnd', size: 2, type: FLOAT },
+          { name: 'a_normal', size: 2, type: FLOAT },
+          { name: 'a_color', size: 4, type: UNSIGNED_BYTE, normalized: true },
+          { name: 'a_id', size: 4, type: UNSIGNED_BYTE, normalized: true },
+          { name: 'a_radius', size: 1, type: FLOAT }
+        ],
+        // Position (source or target), side of the line and whether the vertex is moved away from the target
+        CONSTANT_ATTRIBUTES: [
+          { name: 'a_positionCoef', size: 1, type: FLOAT },
+          { name: 'a_normalCoef', size: 1, type: FLOAT },
+          { name: 'a_radiusCoef', size: 1, type: FLOAT }
+        ],
+        CONSTANT_DATA: [[0, 1, 0], [0, -1, 0], [1, 1, 1], [1, 1, 1], [0, -1, 0], [1, -1, -1]]
+      };
+    }
+
+    processVisibleItem(edgeIndex: number, startIndex: number, sourceData: NodeDisplayData, targetData: NodeDisplayData, data: EdgeDisplayData) {
+      const thickness = data.size || 1;
+      const dx = targetData.x - sourceData.x;
+      const dy = targetData.y - sourceData.y;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      const normalX = length ? (-dy / length) * thickness : 0;
+      const normalY = length ? (dx / length) * thickness : 0;
+
+      const array = this.array;
+      array[startIndex++] = sourceData.x;
+      array[startIndex++] = sourceData.y;
+      array[startIndex++] = targetData.x;
+      array[startIndex++] = targetData.y;
+      array[startIndex++] = normalX;
+      array[startIndex++] = normalY;
+      array[startIndex++] = floatColor(data.color);
+      array[startIndex++] = edgeIndex;
+      array[startIndex++] = targetData.size || 1;
+    }
+
+    setUniforms(params: RenderParams, { gl, uniformLocations }: ProgramInfo<typeof EDGE_UNIFORMS[number]>) {
+      gl.uniformMatrix3fv(uniformLocations.u_matrix, false, params.matrix);
+      gl.uniform1f(uniformLocations.u_zoomRatio, params.zoomRatio);
+      gl.uniform1f(uniformLocations.u_sizeRatio, params.sizeRatio);
+      gl.uniform1f(uniformLocations.u_correctionRatio, params.correctionRatio);
+      gl.uniform1f(uniformLocations.u_pixelRatio, params.pixelRatio);
+      gl.uniform1f(uniformLocations.u_feather, params.antiAliasingFeather);
+      gl.uniform1f(uniformLocations.u_minEdgeThickness, params.minEdgeThickness);
+      gl.uniform1f(uniformLocations.u_lengthToThicknessRatio, DEFAULT_EDGE_ARROW_HEAD_PROGRAM_OPTIONS.lengthToThicknessRatio);
+      gl.uniform2f(uniformLocations.u_dimensions, params.width, params.height);
+    }
+  };
+};
+
+/**
+ * Create a program drawing the edges as dashed arrows
+ */
+export const createEdgeDashedArrowProgram = (options: EdgeDashOptions): EdgeProgramType => {
+  return createEdgeCompoundProgram([createEdgeDashedProgram(options), createEdgeArrowHeadProgram()]);
+};
+
+// Programs of the node shapes and edge styles, used as the Sigma node and edge types
+export const NODE_PROGRAM_CLASSES: Record<NodeShape, NodeProgramType> = {
+  'circle': NodeCircleProgram,
+  'square': createNodeShapeProgram('square'),
+  'diamond': createNodeShapeProgram('diamond')
+};
+
+export const EDGE_PROGRAM_CLASSES: Record<string, EdgeProgramType> = {
+  'arrow': EdgeArrowProgram,
+  'dashed': createEdgeDashedArrowProgram({ dashLength: 8, gapLength: 4 }),
+  'dotted': createEdgeDashedArrowProgram({ dashLength: 2, gapLength: 3 })
+};
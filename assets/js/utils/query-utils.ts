@@ -0,0 +1,340 @@
+import { DirectedGraph } from 'graphology';
+import { Attributes } from 'graphology-types';
+import { DependencyDirection, FiltersState, MetricKey } from '@/types';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+import { METRIC_LABELS } from '@/utils/metrics-utils';
+import { getNeighborhood } from '@/utils/traversal-utils';
+
+type ComparisonOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+type QueryExpression =
+    | { kind: 'and' | 'or'; items: QueryExpression[] }
+    | { kind: 'not'; item: QueryExpression }
+    | { kind: 'term'; field: string; operator: ComparisonOperator; value: string }
+    | { kind: 'text'; value: string }
+    | { kind: 'all' };
+
+export interface ParsedQuery {
+  expression: QueryExpression;
+  // Depth of the dependency terms, set by a "depth:N" modifier
+  depth: number;
+}
+
+// Fields that match text values, and the relations that match the dependents or dependencies of other nodes
+const TEXT_FIELDS = ['namespace', 'ns', 'name', 'type', 'file', 'abstract', 'final'];
+const RELATION_FIELDS: Record<string, DependencyDirection> = {
+  'depends-on': 'in',
+  'used-by': 'out'
+};
+const NODE_TYPES = ['class', 'interface', 'trait'];
+const MAX_DEPTH = 10;
+
+// Metrics can be compared in any case, e.g. "fanin>10"
+const METRIC_FIELDS: Record<string, MetricKey> = Object.fromEntries(
+    Object.keys(METRIC_LABELS).map((key) => [key.toLowerCase(), key as MetricKey])
+);
+
+const TERM_PATTERN = /^([a-z][a-z-]*)(>=|<=|:|=|>|<)(.*)$/i;
+
+/**
+ * Error thrown when a query cannot be parsed, with the position of the problem in the query
+ */
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+interface Token {
+  text: string;
+  position: number;
+}
+
+/**
+ * Split a query into words and parentheses, keeping the quoted parts of the words together
+ */
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ text: char, position: index });
+      index++;
+    } else {
+      const position = index;
+      let text = '';
+      while (index < query.length && !/[\s()]/.test(query[index])) {
+        if (query[index] === '"') {
+          const end = query.indexOf('"', index + 1);
+          if (end === -1) throw new QuerySyntaxError('Unterminated quote', index);
+          text += query.slice(index + 1, end);
+          index = end + 1;
+        } else {
+          text += query[index++];
+        }
+      }
+      tokens.push({ text, position });
+    }
+  }
+  return tokens;
+};
+
+const isKeyword = (token: Token | undefined, ...keywords: string[]): boolean => {
+  return !!token && keywords.includes(token.text.toUpperCase());
+};
+
+/**
+ * Parse a query, where terms are combined with AND (implicit between two terms), OR, NOT and parentheses.
+ *
+ * A term is either a field with a value ("namespace:App\Domain\*", "type:interface", "file:src/Web/*",
+ * "abstract:true", "depends-on:LoggerInterface"), a metric comparison ("fanin>10") or a bare word
+ * matched against the names of the nodes.
+ */
+export const parseQuery = (query: string): ParsedQuery => {
+  const tokens = tokenize(query);
+  let index = 0;
+  let depth = 1;
+
+  const parseTerm = (token: Token): QueryExpression => {
+    const match = token.text.match(TERM_PATTERN);
+    if (!match) {
+      return { kind: 'text', value: token.text };
+    }
+
+    const field = match[1].toLowerCase();
+    const operator = match[2] as ComparisonOperator;
+    const value = match[3];
+    if (value === '') {
+      throw new QuerySyntaxError(`Missing value for "${field}"`, token.position);
+    }
+
+    if (field === 'depth') {
+      const parsedDepth = Number(value);
+      if ((operator !== ':' && operator !== '=') || !Number.isInteger(parsedDepth) || parsedDepth < 1) {
+        throw new QuerySyntaxError('The depth must be a positive integer', token.position);
+      }
+      depth = Math.min(parsedDepth, MAX_DEPTH);
+      return { kind: 'all' };
+    }
+    if (METRIC_FIELDS[field]) {
+      if (!Number.isFinite(Number(value))) {
+        throw new QuerySyntaxError(`"${field}" must be compared to a number`, token.position);
+      }
+      return { kind: 'term', field: METRIC_FIELDS[field], operator, value };
+    }
+    if (!TEXT_FIELDS.includes(field) && !RELATION_FIELDS[field]) {
+      throw new QuerySyntaxError(`Unknown field "${field}"`, token.position);
+    }
+    if (operator !== ':' && operator !== '=') {
+      throw new QuerySyntaxError(`"${field}" cannot be compared with "${operator}"`, token.position);
+    }
+    if (field === 'type' && !NODE_TYPES.includes(value.toLowerCase())) {
+      throw new QuerySyntaxError(`Unknown type "${value}", expected one of ${NODE_TYPES.join(', ')}`, token.position);
+    }
+    if ((field === 'abstract' || field === 'final') && !['true', 'false'].includes(value.toLowerCase())) {
+      throw new QuerySyntaxError(`"${field}" must be true or false`, token.position);
+    }
+    return { kind: 'term', field: field === 'ns' ? 'namespace' : field, operator: ':', value };
+  };
+
+  const parseUnary = (): QueryExpression => {
+    const token = tokens[index];
+    if (!token) {
+      throw new QuerySyntaxError('Unexpected end of the query', query.length);
+    }
+    index++;
+
+    if (isKeyword(token, 'NOT') || token.text === '!') {
+      return { kind: 'not', item: parseUnary() };
+    }
+    if (token.text === '(') {
+      const expression = parseOr();
+      if (tokens[index]?.text !== ')') {
+        throw new QuerySyntaxError('Missing closing parenthesis', tokens[index]?.position ?? query.length);
+      }
+      index++;
+      return expression;
+    }
+    if (token.text === ')' || isKeyword(token, 'AND', 'OR') || token.text === '&&' || token.text === '||') {
+      throw new QuerySyntaxError(`Unexpected "${token.text}"`, token.position);
+    }
+    // A leading "-" or "!" negates a term, e.g. "-type:trait"
+    if (token.text.length > 1 && (token.text[0] === '-' || token.text[0] === '!')) {
+      return { kind: 'not', item: parseTerm({ text: token.text.slice(1), position: token.position + 1 }) };
+    }
+    return parseTerm(token);
+  };
+
+  const parseAnd = (): QueryExpression => {
+    const items = [parseUnary()];
+    while (index < tokens.length && tokens[index].text !== ')' && !isKeyword(tokens[index], 'OR') && tokens[index].text !== '||') {
+      if (isKeyword(tokens[index], 'AND') || tokens[index].text === '&&') index++;
+      items.push(parseUnary());
+    }
+    return items.length === 1 ? items[0] : { kind: 'and', items };
+  };
+
+  const parseOr = (): QueryExpression => {
+    const items = [parseAnd()];
+    while (isKeyword(tokens[index], 'OR') || tokens[index]?.text === '||') {
+      index++;
+      items.push(parseAnd());
+    }
+    return items.length === 1 ? items[0] : { kind: 'or', items };
+  };
+
+  if (tokens.length === 0) {
+    return { expression: { kind: 'all' }, depth };
+  }
+
+  const expression = parseOr();
+  if (index < tokens.length) {
+    throw new QuerySyntaxError(`Unexpected "${tokens[index].text}"`, tokens[index].position);
+  }
+  return { expression, depth };
+};
+
+/**
+ * Convert a glob pattern, where "*" matches any characters and "?" a single one, to a regular expression source
+ */
+const globToPattern = (glob: string): string => {
+  return glob.split('').map((char) => {
+    if (char === '*') return '.*';
+    if (char === '?') return '.';
+    return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+};
+
+const createMatcher = (field: string, value: string): ((text: string) => boolean) => {
+  let pattern: string;
+  if (field === 'namespace') {
+    // "App\Domain\*" also matches the classes of the App\Domain namespace itself
+    pattern = value.endsWith('\\*')
+        ? `^${globToPattern(value.slice(0, -2))}(\\\\.*)?$`
+        : `^${globToPattern(value)}$`;
+  } else if (field === 'file') {
+    // File paths are usually absolute, so the pattern can match from any directory
+    pattern = `(^|/)${globToPattern(value.replace(/^\/+/, ''))}$`;
+  } else {
+    pattern = `^${globToPattern(value)}$`;
+  }
+
+  const regExp = new RegExp(pattern, 'i');
+  return (text) => regExp.test(text);
+};
+
+const compare = (actual: number, operator: ComparisonOperator, expected: number): boolean => {
+  switch (operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+/**
+ * Create a matcher of namespaces, where "App\Domain\*" matches App\Domain and its sub-namespaces
+ */
+export const createNamespaceMatcher = (pattern: string): ((namespace: string) => boolean) => {
+  return createMatcher('namespace', pattern);
+};
+
+/**
+ * Get the nodes of the graph matching a parsed query, without the aggregated namespace nodes
+ */
+export const getQueryMatches = (graph: DirectedGraph, query: ParsedQuery): Set<string> => {
+  const labelOf = (node: string, attributes: Attributes): string => String(attributes.label || node);
+
+  const buildPredicate = (expression: QueryExpression): ((node: string, attributes: Attributes) => boolean) => {
+    switch (expression.kind) {
+      case 'all':
+        return () => true;
+      case 'and': {
+        const predicates = expression.items.map(buildPredicate);
+        return (node, attributes) => predicates.every((predicate) => predicate(node, attributes));
+      }
+      case 'or': {
+        const predicates = expression.items.map(buildPredicate);
+        return (node, attributes) => predicates.some((predicate) => predicate(node, attributes));
+      }
+      case 'not': {
+        const predicate = buildPredicate(expression.item);
+        return (node, attributes) => !predicate(node, attributes);
+      }
+      case 'text': {
+        const value = expression.value.toLowerCase();
+        return (node, attributes) => labelOf(node, attributes).toLowerCase().includes(value) || node.toLowerCase().includes(value);
+      }
+    }
+
+    const { field, operator, value } = expression;
+    if (Object.values(METRIC_FIELDS).includes(field as MetricKey)) {
+      const expected = Number(value);
+      return (node, attributes) => typeof attributes[field] === 'number' && compare(attributes[field], operator, expected);
+    }
+    if (RELATION_FIELDS[field]) {
+      const matcher = createMatcher(field, value);
+      const targets = graph.filterNodes((node, attributes) =>
+          !isNamespaceNode(attributes) && (matcher(labelOf(node, attributes)) || matcher(node)));
+      // The filters are ignored, so that the result does not depend on what is displayed
+      const related = getNeighborhood(graph, targets, RELATION_FIELDS[field], query.depth);
+      const targetSet = new Set(targets);
+      return (node) => related.has(node) && !targetSet.has(node);
+    }
+
+    const matcher = createMatcher(field, value);
+    switch (field) {
+      case 'namespace':
+        return (node, attributes) => matcher(String(attributes.namespace ?? ''));
+      case 'type':
+        return (node, attributes) => attributes.entityType === value.toLowerCase();
+      case 'file':
+        return (node, attributes) => !!attributes.metadata?.filePath && matcher(attributes.metadata.filePath);
+      case 'abstract':
+        return (node, attributes) => !!attributes.metadata?.isAbstract === (value.toLowerCase() === 'true');
+      case 'final':
+        return (node, attributes) => !!attributes.metadata?.isFinal === (value.toLowerCase() === 'true');
+      default:
+        return (node, attributes) => matcher(labelOf(node, attributes)) || matcher(node);
+    }
+  };
+
+  const predicate = buildPredicate(query.expression);
+  return new Set(graph.filterNodes((node, attributes) => !isNamespaceNode(attributes) && predicate(node, attributes)));
+};
+
+/**
+ * Get the nodes kept by the query of the filters, with their direct neighbors if requested,
+ * or null when there is no query or it is invalid
+ */
+export const getQueryFilterNodes = (graph: DirectedGraph, filters: FiltersState): Set<string> | null => {
+  if (!filters.query || !filters.query.trim()) return null;
+
+  let parsed: ParsedQuery;
+  try {
+    parsed = parseQuery(filters.query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return null;
+    throw error;
+  }
+
+  const matches = getQueryMatches(graph, parsed);
+  if (filters.queryNeighbors) {
+    Array.from(matches).forEach((node) => {
+      graph.forEachNeighbor(node, (neighbor, attributes) => {
+        if (!isNamespaceNode(attributes)) matches.add(neighbor);
+      });
+    });
+  }
+  return matches;
+};
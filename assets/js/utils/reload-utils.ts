@@ -0,0 +1,94 @@
+import { DirectedGraph } from 'graphology';
+import { GraphReloadChanges } from '@/types';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+
+// Distance of an added node from its neighbors, relative to the size of the graph
+const ADDED_NODE_SPREAD = 0.02;
+
+// Node attributes that belong to the display of the graph rather than to its data
+const DISPLAY_ATTRIBUTES = ['x', 'y', 'fixed', 'hidden', 'collapsedInto'];
+
+/**
+ * Merge a new version of the graph data, built as a separate graph, into the displayed graph:
+ * the nodes and edges that are gone are dropped, the new ones are added and the attributes of the others
+ * are updated, keeping their positions and pins. The nodes and edges of the collapsed namespaces are left
+ * to be aggregated again.
+ *
+ * The added nodes are placed next to their neighbors that were already displayed, or anywhere in the graph
+ * when they have none.
+ */
+export const mergeGraphData = (graph: DirectedGraph, data: DirectedGraph): GraphReloadChanges => {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  graph.forEachNode((node, attributes) => {
+    if (isNamespaceNode(attributes)) return;
+    minX = Math.min(minX, attributes.x);
+    maxX = Math.max(maxX, attributes.x);
+    minY = Math.min(minY, attributes.y);
+    maxY = Math.max(maxY, attributes.y);
+  });
+  const hasExtent = minX <= maxX;
+  const spread = hasExtent ? Math.max(maxX - minX, maxY - minY, 1) * ADDED_NODE_SPREAD : 1;
+
+  const changes: GraphReloadChanges = { addedNodes: [], removedNodes: [], addedEdges: 0, removedEdges: 0, flashes: [] };
+
+  // Removed edges, counted apart from the nodes they are removed with
+  graph.filterEdges((edge, attributes, source, target) => attributes.entityType !== 'aggregate' && !data.hasEdge(source, target))
+      .forEach((edge) => {
+        changes.removedEdges++;
+        graph.dropEdge(edge);
+      });
+
+  graph.filterNodes((node, attributes) => !isNamespaceNode(attributes) && !data.hasNode(node)).forEach((node) => {
+    const { x, y } = graph.getNodeAttributes(node);
+    changes.removedNodes.push(node);
+    changes.flashes.push({ x, y, status: 'removed' });
+    graph.dropNode(node);
+  });
+
+  // Kept nodes, whose data may have changed
+  const keptNodes = new Set(graph.filterNodes((node, attributes) => !isNamespaceNode(attributes)));
+  keptNodes.forEach((node) => {
+    const attributes = { ...data.getNodeAttributes(node) };
+    DISPLAY_ATTRIBUTES.forEach((name) => delete attributes[name]);
+    graph.mergeNodeAttributes(node, attributes);
+  });
+
+  // Added nodes, placed next to the kept ones
+  data.forEachNode((node, attributes) => {
+    if (keptNodes.has(node)) return;
+
+    const neighbors = data.neighbors(node).filter((neighbor) => keptNodes.has(neighbor));
+    let x: number, y: number;
+    if (neighbors.length > 0) {
+      x = neighbors.reduce((sum, neighbor) => sum + graph.getNodeAttribute(neighbor, 'x'), 0) / neighbors.length;
+      y = neighbors.reduce((sum, neighbor) => sum + graph.getNodeAttribute(neighbor, 'y'), 0) / neighbors.length;
+    } else if (hasExtent) {
+      x = minX + Math.random() * (maxX - minX);
+      y = minY + Math.random() * (maxY - minY);
+    } else {
+      ({ x, y } = attributes);
+    }
+
+    // Nodes sharing their neighbors would be placed on top of each other
+    const angle = Math.random() * Math.PI * 2;
+    x += Math.cos(angle) * spread;
+    y += Math.sin(angle) * spread;
+
+    graph.addNode(node, { ...attributes, x, y });
+    changes.addedNodes.push(node);
+    changes.flashes.push({ x, y, status: 'added' });
+  });
+
+  // Added edges, and kept edges whose data may have changed
+  data.forEachEdge((edge, attributes, source, target) => {
+    const existing = graph.edge(source, target);
+    if (existing === undefined) {
+      graph.addEdge(source, target, attributes);
+      changes.addedEdges++;
+    } else {
+      graph.mergeEdgeAttributes(existing, { ...attributes, hidden: graph.getEdgeAttribute(existing, 'hidden') });
+    }
+  });
+
+  return changes;
+};
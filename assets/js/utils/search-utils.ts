@@ -0,0 +1,142 @@
+import { DirectedGraph } from 'graphology';
+import { Attributes } from 'graphology-types';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+
+export interface SearchResult {
+  id: string;
+  label: string;
+  namespace: string;
+  entityType: string;
+  score: number;
+}
+
+// Number of results suggested for a search
+const MAX_SEARCH_RESULTS = 20;
+
+// Scores of the kinds of matches, from the most to the least relevant
+const SCORE_EXACT = 1000;
+const SCORE_PREFIX = 900;
+const SCORE_INITIALS = 800;
+const SCORE_SUBSTRING = 700;
+const SCORE_ID_SUBSTRING = 500;
+const SCORE_FUZZY = 300;
+const SCORE_ID_FUZZY = 200;
+const SCORE_FILE = 150;
+const SCORE_TYPO = 100;
+
+/**
+ * Get the initials of the words of a camel-cased or snake-cased name, e.g. "FSR" for "FileSystemRepository"
+ */
+export const getInitials = (name: string): string => {
+  return (name.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) || []).map((word) => word[0]).join('').toLowerCase();
+};
+
+/**
+ * Score the match of the characters of a query appearing in order in a text, or return null if they do not.
+ * Consecutive characters and characters starting a word are favored, so that "repo" ranks "Repository" before "RemoteProvider".
+ */
+const scoreSubsequence = (query: string, text: string): number | null => {
+  let score = 0;
+  let position = -1;
+  for (const char of query) {
+    const next = text.toLowerCase().indexOf(char, position + 1);
+    if (next === -1) return null;
+
+    if (next === position + 1) score += 3;
+    if (next === 0 || /[A-Z\\_\-/.]/.test(text[next]) || /[\\_\-/.]/.test(text[next - 1])) score += 2;
+    score -= Math.min(next - position - 1, 5);
+    position = next;
+  }
+  return score;
+};
+
+/**
+ * Get the Damerau-Levenshtein distance between two strings, counting transpositions as a single edit
+ */
+const getEditDistance = (a: string, b: string): number => {
+  const distances: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) distances[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return distances[a.length][b.length];
+};
+
+/**
+ * Score how well a node matches a search, or return null if it does not match at all.
+ *
+ * The label is matched exactly, by prefix, by camel-case initials, as a substring or fuzzily, then the
+ * fully-qualified id, e.g. "Domain\Node" to tell apart two classes named "Node", and the file path.
+ * As a last resort, a label close to the search by one or two typos still matches.
+ */
+export const scoreNode = (search: string, id: string, attributes: Attributes): number | null => {
+  const query = search.trim().toLowerCase();
+  if (!query) return null;
+
+  const label = String(attributes.label || id);
+  const lcLabel = label.toLowerCase();
+  const lcId = id.toLowerCase();
+
+  // Shorter labels are favored among matches of the same kind
+  const lengthPenalty = Math.min(lcLabel.length - query.length, 50) / 100;
+
+  if (lcLabel === query) return SCORE_EXACT;
+  if (lcLabel.startsWith(query)) return SCORE_PREFIX - lengthPenalty;
+  if (query.length > 1 && getInitials(label).startsWith(query)) return SCORE_INITIALS - lengthPenalty;
+
+  const labelIndex = lcLabel.indexOf(query);
+  if (labelIndex !== -1) return SCORE_SUBSTRING - Math.min(labelIndex, 50) - lengthPenalty;
+
+  const idIndex = lcId.indexOf(query);
+  if (idIndex !== -1) return SCORE_ID_SUBSTRING + (lcId.endsWith(query) ? 50 : 0) - lengthPenalty;
+
+  const labelFuzzy = scoreSubsequence(query, label);
+  if (labelFuzzy !== null) return SCORE_FUZZY + Math.max(-99, Math.min(99, labelFuzzy));
+
+  const idFuzzy = query.includes('\\') ? scoreSubsequence(query, id) : null;
+  if (idFuzzy !== null) return SCORE_ID_FUZZY + Math.max(-49, Math.min(49, idFuzzy));
+
+  const filePath = attributes.metadata?.filePath;
+  if (typeof filePath === 'string' && filePath.toLowerCase().includes(query)) return SCORE_FILE;
+
+  if (query.length >= 4) {
+    const maxDistance = query.length >= 8 ? 2 : 1;
+    const distance = Math.min(getEditDistance(query, lcLabel), getEditDistance(query, lcLabel.slice(0, query.length)));
+    if (distance <= maxDistance) return SCORE_TYPO - distance * 10 - lengthPenalty;
+  }
+
+  return null;
+};
+
+/**
+ * Search the visible nodes of the graph, from the best to the worst match.
+ * Collapsed namespaces are left out, as their nodes are gone once they are expanded.
+ */
+export const searchNodes = (graph: DirectedGraph, search: string, limit: number = MAX_SEARCH_RESULTS): SearchResult[] => {
+  const results: SearchResult[] = [];
+  graph.forEachNode((id, attributes) => {
+    if (attributes.hidden || isNamespaceNode(attributes)) return;
+
+    const score = scoreNode(search, id, attributes);
+    if (score !== null) {
+      results.push({
+        id,
+        label: String(attributes.label || id),
+        namespace: String(attributes.namespace ?? ''),
+        entityType: String(attributes.entityType || ''),
+        score
+      });
+    }
+  });
+
+  return results
+      .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label) || a.id.localeCompare(b.id))
+      .slice(0, limit);
+};
@@ -0,0 +1,48 @@
+import Sigma from "sigma";
+
+/**
+ * Move the camera to a node
+ */
+export const animateToNode = (sigma: Sigma, node: string, ratio: number = 0.05): void => {
+  const nodeDisplayData = sigma.getNodeDisplayData(node);
+
+  if (nodeDisplayData)
+    sigma.getCamera().animate(
+        { ...nodeDisplayData, ratio },
+        {
+          duration: 600,
+        },
+    );
+};
+
+/**
+ * Move the camera so that all the given nodes are visible
+ */
+export const animateToNodes = (sigma: Sigma, nodes: string[]): void => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  nodes.forEach((node) => {
+    const nodeDisplayData = sigma.getNodeDisplayData(node);
+    if (!nodeDisplayData) return;
+
+    minX = Math.min(minX, nodeDisplayData.x);
+    minY = Math.min(minY, nodeDisplayData.y);
+    maxX = Math.max(maxX, nodeDisplayData.x);
+    maxY = Math.max(maxY, nodeDisplayData.y);
+  });
+
+  if (minX === Infinity) return;
+
+  // The viewport shows about one unit of the normalized graph space at ratio 1
+  const ratio = Math.min(1, Math.max(0.05, Math.max(maxX - minX, maxY - minY) * 1.3));
+
+  sigma.getCamera().animate(
+      { x: (minX + maxX) / 2, y: (minY + maxY) / 2, ratio },
+      {
+        duration: 600,
+      },
+  );
+};
@@ -0,0 +1,128 @@
+import { DirectedGraph } from 'graphology';
+import { Attributes } from 'graphology-types';
+import { DependencyDirection } from '@/types';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+
+// Number of hops displayed around a focused node, by default and at most
+export const DEFAULT_FOCUS_DEPTH = 1;
+export const MAX_FOCUS_DEPTH = 10;
+
+/**
+ * Iterate over the visible neighbors of a node in the given direction
+ */
+export const forEachVisibleNeighbor = (
+    graph: DirectedGraph,
+    node: string,
+    direction: DependencyDirection,
+    callback: (neighbor: string, edgeAttributes: Attributes, edge: string) => void
+): void => {
+  if (direction !== 'in') {
+    graph.forEachOutEdge(node, (edge, attributes, source, target, sourceAttributes, targetAttributes) => {
+      if (!attributes.hidden && !targetAttributes.hidden) {
+        callback(target, attributes, edge);
+      }
+    });
+  }
+
+  if (direction !== 'out') {
+    graph.forEachInEdge(node, (edge, attributes, source, target, sourceAttributes) => {
+      if (!attributes.hidden && !sourceAttributes.hidden) {
+        callback(source, attributes, edge);
+      }
+    });
+  }
+};
+
+/**
+ * Get the distinct visible neighbors of a node in the given direction
+ */
+export const getVisibleNeighbors = (graph: DirectedGraph, node: string, direction: DependencyDirection): string[] => {
+  const neighbors = new Set<string>();
+  forEachVisibleNeighbor(graph, node, direction, (neighbor) => neighbors.add(neighbor));
+  return Array.from(neighbors);
+};
+
+/**
+ * Get the distinct visible neighbors of a node in the given direction, grouped by edge type
+ */
+export const getVisibleNeighborsByEdgeType = (
+    graph: DirectedGraph,
+    node: string,
+    direction: DependencyDirection
+): Map<string, string[]> => {
+  const groups = new Map<string, Set<string>>();
+  forEachVisibleNeighbor(graph, node, direction, (neighbor, attributes) => {
+    const type = String(attributes.entityType ?? 'use');
+    groups.set(type, (groups.get(type) || new Set()).add(neighbor));
+  });
+  return new Map(Array.from(groups, ([type, neighbors]) => [type, Array.from(neighbors)]));
+};
+
+/**
+ * Get the nodes reachable from a node, with their distance, using a breadth-first search
+ */
+export const getTransitiveNeighbors = (
+    graph: DirectedGraph,
+    node: string,
+    direction: DependencyDirection,
+    maxDepth: number = Infinity
+): Map<string, number> => {
+  const distances = new Map<string, number>([[node, 0]]);
+  let frontier = [node];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    frontier.forEach((current) => {
+      forEachVisibleNeighbor(graph, current, direction, (neighbor) => {
+        if (!distances.has(neighbor)) {
+          distances.set(neighbor, depth);
+          next.push(neighbor);
+        }
+      });
+    });
+    frontier = next;
+  }
+
+  distances.delete(node);
+  return distances;
+};
+
+/**
+ * Get the nodes within a number of hops from the given nodes, including them, whether they are visible or not.
+ * The aggregated namespace nodes are skipped, and edges can be excluded, e.g. by type.
+ */
+export const getNeighborhood = (
+    graph: DirectedGraph,
+    nodes: string[],
+    direction: DependencyDirection,
+    maxDepth: number,
+    followEdge: (edgeAttributes: Attributes) => boolean = () => true
+): Set<string> => {
+  const neighborhood = new Set<string>(nodes);
+  let frontier = nodes;
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    const visit = (neighbor: string, edgeAttributes: Attributes, neighborAttributes: Attributes) => {
+      if (neighborhood.has(neighbor) || isNamespaceNode(neighborAttributes) || !followEdge(edgeAttributes)) return;
+      neighborhood.add(neighbor);
+      next.push(neighbor);
+    };
+
+    frontier.forEach((current) => {
+      if (direction !== 'in') {
+        graph.forEachOutEdge(current, (edge, attributes, source, target, sourceAttributes, targetAttributes) => {
+          visit(target, attributes, targetAttributes);
+        });
+      }
+      if (direction !== 'out') {
+        graph.forEachInEdge(current, (edge, attributes, source, target, sourceAttributes) => {
+          visit(source, attributes, sourceAttributes);
+        });
+      }
+    });
+    frontier = next;
+  }
+
+  return neighborhood;
+};
@@ -0,0 +1,146 @@
+import { DirectedGraph } from 'graphology';
+import { FiltersState, TreemapItem, TreemapRect, TreemapSize } from '@/types';
+import { getHiddenNamespaces, getNodeNamespace, isInNamespace, isNamespaceNode, NAMESPACE_NODE_COLOR, NAMESPACE_SEPARATOR } from '@/utils/cluster-utils';
+import { NODE_TYPE_COLORS } from '@/utils/graph-utils';
+
+export const TREEMAP_SIZE_LABELS: Record<TreemapSize, string> = {
+  'count': 'Number of classes',
+  'degree': 'Degree',
+  'fanIn': 'Fan-in (Ca)',
+  'fanOut': 'Fan-out (Ce)'
+};
+
+/**
+ * Check whether a namespace is inside the namespace the treemap is zoomed on, the root containing every namespace
+ */
+const isInTreemapRoot = (namespace: string, root: string): boolean => root === '' || isInNamespace(namespace, root);
+
+/**
+ * List the tiles of the treemap of a namespace: one per child namespace, sized by the sum of its classes,
+ * and one per class of the namespace itself.
+ *
+ * The classes hidden by the node type or namespace filters are left out, and so are the tiles whose size is 0.
+ */
+export const getTreemapItems = (graph: DirectedGraph, root: string, size: TreemapSize, filters: FiltersState): TreemapItem[] => {
+  const hiddenNamespaces = getHiddenNamespaces(filters.namespaces);
+  const items = new Map<string, TreemapItem>();
+
+  graph.forEachNode((node, attributes) => {
+    if (isNamespaceNode(attributes)) return;
+    if (filters.nodeTypes && filters.nodeTypes[attributes.entityType] === false) return;
+
+    const namespace = getNodeNamespace(node, attributes);
+    if (!isInTreemapRoot(namespace, root)) return;
+    if (hiddenNamespaces.some((hidden) => isInNamespace(namespace, hidden))) return;
+
+    const value = size === 'count' ? 1 : attributes[size] || 0;
+
+    if (namespace === root) {
+      items.set(node, {
+        key: node,
+        label: attributes.label || node,
+        value,
+        color: NODE_TYPE_COLORS[attributes.entityType as keyof typeof NODE_TYPE_COLORS] || NAMESPACE_NODE_COLOR,
+        namespace: null,
+        typeCounts: { [attributes.entityType]: 1 }
+      });
+      return;
+    }
+
+    // The tile of the child namespace the class belongs to
+    const segment = namespace.substring(root === '' ? 0 : root.length + 1).split(NAMESPACE_SEPARATOR)[0];
+    const childNamespace = root === '' ? segment : root + NAMESPACE_SEPARATOR + segment;
+    const key = `namespace:${childNamespace}`;
+    let item = items.get(key);
+    if (!item) {
+      item = {
+        key,
+        label: segment,
+        value: 0,
+        color: attributes.clusterColor || NAMESPACE_NODE_COLOR,
+        namespace: childNamespace,
+        typeCounts: {}
+      };
+      items.set(key, item);
+    }
+    item.value += value;
+    item.typeCounts[attributes.entityType] = (item.typeCounts[attributes.entityType] || 0) + 1;
+  });
+
+  return Array.from(items.values()).filter((item) => item.value > 0);
+};
+
+/**
+ * Get the worst aspect ratio of the tiles of a row laid out along a side of the given length
+ */
+const getWorstRatio = (areas: number[], side: number): number => {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max(side * side * max / (sum * sum), sum * sum / (side * side * min));
+};
+
+/**
+ * Lay out items as a squarified treemap, the area of every tile being proportional to its value.
+ *
+ * The largest items are laid out first, in rows along the shortest side of the remaining space,
+ * a row being closed as soon as adding an item would make its tiles less square.
+ */
+export const squarify = <T extends { value: number }>(items: T[], rect: TreemapRect): (T & TreemapRect)[] => {
+  const sorted = items.filter((item) => item.value > 0).sort((a, b) => b.value - a.value);
+  const total = sorted.reduce((sum, item) => sum + item.value, 0);
+  if (total === 0 || rect.width <= 0 || rect.height <= 0) return [];
+
+  const scale = rect.width * rect.height / total;
+  const remaining = { ...rect };
+  const tiles: (T & TreemapRect)[] = [];
+
+  const layoutRow = (row: T[]) => {
+    const areas = row.map((item) => item.value * scale);
+    const rowArea = areas.reduce((sum, area) => sum + area, 0);
+    const vertical = remaining.width >= remaining.height;
+    const side = vertical ? remaining.height : remaining.width;
+    const thickness = rowArea / side;
+
+    let offset = 0;
+    row.forEach((item, index) => {
+      const length = areas[index] / thickness;
+      tiles.push(vertical
+          ? { ...item, x: remaining.x, y: remaining.y + offset, width: thickness, height: length }
+          : { ...item, x: remaining.x + offset, y: remaining.y, width: length, height: thickness });
+      offset += length;
+    });
+
+    if (vertical) {
+      remaining.x += thickness;
+      remaining.width -= thickness;
+    } else {
+      remaining.y += thickness;
+      remaining.height -= thickness;
+    }
+  };
+
+  let row: T[] = [];
+  sorted.forEach((item) => {
+    const side = Math.min(remaining.width, remaining.height);
+    const areas = row.map((rowItem) => rowItem.value * scale);
+    if (row.length === 0 || getWorstRatio([...areas, item.value * scale], side) <= getWorstRatio(areas, side)) {
+      row.push(item);
+    } else {
+      layoutRow(row);
+      row = [item];
+    }
+  });
+  if (row.length > 0) layoutRow(row);
+
+  return tiles;
+};
+
+/**
+ * Get the namespaces from the root to a namespace, to navigate back up the treemap
+ */
+export const getNamespaceAncestors = (namespace: string): string[] => {
+  if (namespace === '') return [];
+  const segments = namespace.split(NAMESPACE_SEPARATOR);
+  return segments.map((_, index) => segments.slice(0, index + 1).join(NAMESPACE_SEPARATOR));
+};
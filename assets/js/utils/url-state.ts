@@ -0,0 +1,144 @@
+import { CameraState } from 'sigma/types';
+import { DependencyDirection, FiltersState, LayoutName, MetricKey, NodeColorMode, ViewState } from '@/types';
+import { LAYOUT_LABELS } from '@/utils/layout-utils';
+import { METRIC_LABELS } from '@/utils/metrics-utils';
+import { DEFAULT_FOCUS_DEPTH, MAX_FOCUS_DEPTH } from '@/utils/traversal-utils';
+
+// Names of the URL hash parameters
+const PARAM_SELECTED_NODE = 'node';
+const PARAM_FOCUSED_NAMESPACE = 'ns';
+const PARAM_COLLAPSED_NAMESPACES = 'collapse';
+const PARAM_HIDDEN_NODE_TYPES = 'hideTypes';
+const PARAM_HIDDEN_EDGE_TYPES = 'hideEdges';
+const PARAM_HIDDEN_CLUSTERS = 'hideClusters';
+const PARAM_HIDDEN_NAMESPACES = 'hideNs';
+const PARAM_QUERY = 'q';
+const PARAM_QUERY_NEIGHBORS = 'qn';
+const PARAM_COLOR_MODE = 'color';
+const PARAM_SIZE_METRIC = 'size';
+const PARAM_LAYOUT = 'layout';
+const PARAM_LAYOUT_SEED = 'seed';
+const PARAM_NOVERLAP = 'noverlap';
+const PARAM_FOCUS = 'focus';
+const PARAM_FOCUS_DEPTH = 'focusDepth';
+const PARAM_FOCUS_DIRECTION = 'focusDir';
+const PARAM_CAMERA = 'camera';
+
+const LIST_SEPARATOR = ',';
+
+const COLOR_MODES: string[] = ['type', 'cluster', 'diff', ...Object.keys(METRIC_LABELS)];
+const FOCUS_DIRECTIONS: string[] = ['out', 'in', 'both'];
+// Custom positions are not part of the URL, so they cannot be restored from it
+const LAYOUTS: string[] = Object.keys(LAYOUT_LABELS).filter((layout) => layout !== 'custom');
+
+const getDisabledKeys = (values: { [key: string]: boolean } | undefined): string[] => {
+  return Object.entries(values || {}).filter(([, enabled]) => !enabled).map(([key]) => key);
+};
+
+const enableAllBut = (defaults: { [key: string]: boolean } | undefined, disabled: string[]): { [key: string]: boolean } => {
+  const values: { [key: string]: boolean } = {};
+  Object.keys(defaults || {}).forEach((key) => {
+    values[key] = !disabled.includes(key);
+  });
+  return values;
+};
+
+const parseList = (value: string | null): string[] => {
+  return value ? value.split(LIST_SEPARATOR).filter((item) => item !== '') : [];
+};
+
+/**
+ * Serialize the view state to a URL hash, omitting the values equal to the defaults
+ */
+export const serializeViewState = (state: ViewState, defaults: ViewState, camera: CameraState | null = null): string => {
+  const params = new URLSearchParams();
+
+  if (state.selectedNode) params.set(PARAM_SELECTED_NODE, state.selectedNode);
+  if (state.focusedNamespace !== null) params.set(PARAM_FOCUSED_NAMESPACE, state.focusedNamespace);
+  if (state.collapsedNamespaces.length) params.set(PARAM_COLLAPSED_NAMESPACES, state.collapsedNamespaces.join(LIST_SEPARATOR));
+
+  const hiddenNodeTypes = getDisabledKeys(state.filters.nodeTypes);
+  const hiddenEdgeTypes = getDisabledKeys(state.filters.edgeTypes);
+  const hiddenClusters = getDisabledKeys(state.filters.clusters);
+  const hiddenNamespaces = getDisabledKeys(state.filters.namespaces);
+  if (hiddenNodeTypes.length) params.set(PARAM_HIDDEN_NODE_TYPES, hiddenNodeTypes.join(LIST_SEPARATOR));
+  if (hiddenEdgeTypes.length) params.set(PARAM_HIDDEN_EDGE_TYPES, hiddenEdgeTypes.join(LIST_SEPARATOR));
+  if (hiddenClusters.length) params.set(PARAM_HIDDEN_CLUSTERS, hiddenClusters.join(LIST_SEPARATOR));
+  if (hiddenNamespaces.length) params.set(PARAM_HIDDEN_NAMESPACES, hiddenNamespaces.join(LIST_SEPARATOR));
+  if (state.filters.query) params.set(PARAM_QUERY, state.filters.query);
+  if (state.filters.queryNeighbors) params.set(PARAM_QUERY_NEIGHBORS, '1');
+
+  if (state.colorMode !== defaults.colorMode) params.set(PARAM_COLOR_MODE, state.colorMode);
+  if (state.sizeMetric !== defaults.sizeMetric) params.set(PARAM_SIZE_METRIC, state.sizeMetric);
+  if (state.layout !== defaults.layout) params.set(PARAM_LAYOUT, state.layout);
+  if (state.layoutOptions.seed !== defaults.layoutOptions.seed) params.set(PARAM_LAYOUT_SEED, String(state.layoutOptions.seed));
+  if (state.layoutOptions.noverlap !== defaults.layoutOptions.noverlap) params.set(PARAM_NOVERLAP, state.layoutOptions.noverlap ? '1' : '0');
+
+  if (state.focus) {
+    params.set(PARAM_FOCUS, state.focus.node);
+    if (state.focus.depth !== DEFAULT_FOCUS_DEPTH) params.set(PARAM_FOCUS_DEPTH, String(state.focus.depth));
+    if (state.focus.direction !== 'both') params.set(PARAM_FOCUS_DIRECTION, state.focus.direction);
+  }
+
+  if (camera) {
+    params.set(PARAM_CAMERA, [camera.x, camera.y, camera.ratio, camera.angle].map((value) => +value.toFixed(4)).join(LIST_SEPARATOR));
+  }
+
+  const hash = params.toString();
+  return hash ? '#' + hash : '';
+};
+
+/**
+ * Parse a URL hash, falling back to the defaults for missing or invalid values
+ */
+export const parseViewState = (hash: string, defaults: ViewState): { state: ViewState; camera: CameraState | null } => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+
+  const filters: FiltersState = {
+    ...defaults.filters,
+    nodeTypes: enableAllBut(defaults.filters.nodeTypes, parseList(params.get(PARAM_HIDDEN_NODE_TYPES))),
+    edgeTypes: enableAllBut(defaults.filters.edgeTypes, parseList(params.get(PARAM_HIDDEN_EDGE_TYPES))),
+    clusters: enableAllBut(defaults.filters.clusters, parseList(params.get(PARAM_HIDDEN_CLUSTERS))),
+    // Any namespace can be hidden, as the default filters do not list them
+    namespaces: Object.fromEntries(parseList(params.get(PARAM_HIDDEN_NAMESPACES)).map((namespace) => [namespace, false])),
+    query: params.get(PARAM_QUERY) || defaults.filters.query,
+    queryNeighbors: params.has(PARAM_QUERY_NEIGHBORS) ? params.get(PARAM_QUERY_NEIGHBORS) === '1' : defaults.filters.queryNeighbors
+  };
+
+  const colorMode = params.get(PARAM_COLOR_MODE);
+  const sizeMetric = params.get(PARAM_SIZE_METRIC);
+  const layout = params.get(PARAM_LAYOUT);
+  const seed = Number(params.get(PARAM_LAYOUT_SEED) ?? NaN);
+  const noverlap = params.get(PARAM_NOVERLAP);
+  const focusNode = params.get(PARAM_FOCUS);
+  const focusDepth = Number(params.get(PARAM_FOCUS_DEPTH) ?? NaN);
+  const focusDirection = params.get(PARAM_FOCUS_DIRECTION);
+
+  const state: ViewState = {
+    filters,
+    selectedNode: params.get(PARAM_SELECTED_NODE) || null,
+    focusedNamespace: params.get(PARAM_FOCUSED_NAMESPACE),
+    collapsedNamespaces: parseList(params.get(PARAM_COLLAPSED_NAMESPACES)),
+    colorMode: colorMode && COLOR_MODES.includes(colorMode) ? colorMode as NodeColorMode : defaults.colorMode,
+    sizeMetric: sizeMetric && sizeMetric in METRIC_LABELS ? sizeMetric as MetricKey : defaults.sizeMetric,
+    layout: layout && LAYOUTS.includes(layout) ? layout as LayoutName : defaults.layout,
+    layoutOptions: {
+      seed: Number.isInteger(seed) && seed >= 0 ? seed : defaults.layoutOptions.seed,
+      noverlap: noverlap === null ? defaults.layoutOptions.noverlap : noverlap === '1'
+    },
+    focus: focusNode ? {
+      node: focusNode,
+      depth: Number.isInteger(focusDepth) && focusDepth >= 1 ? Math.min(focusDepth, MAX_FOCUS_DEPTH) : DEFAULT_FOCUS_DEPTH,
+      direction: focusDirection && FOCUS_DIRECTIONS.includes(focusDirection) ? focusDirection as DependencyDirection : 'both'
+    } : defaults.focus
+  };
+
+  let camera: CameraState | null = null;
+  const cameraValues = parseList(params.get(PARAM_CAMERA)).map(Number);
+  if (cameraValues.length === 4 && cameraValues.every((value) => Number.isFinite(value)) && cameraValues[2] > 0) {
+    const [x, y, ratio, angle] = cameraValues;
+    camera = { x, y, ratio, angle };
+  }
+
+  return { state, camera };
+};
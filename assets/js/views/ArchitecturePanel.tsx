@@ -0,0 +1,310 @@
+import { FC, useEffect, useMemo, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronRight, BiChevronUp, BiDownload, BiPlus, BiTrash } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { ArchitectureLayer, ArchitectureRule, ArchitectureRules, RuleViolation, Subgraph } from '@/types';
+import { describeRule, getNodeLayers, parseArchitectureRules, RULE_TYPE_LABELS } from '@/utils/architecture-utils';
+import { downloadFile } from '@/utils/export-utils';
+import { animateToNodes } from '@/utils/sigma-utils';
+
+interface ArchitecturePanelProps {
+  graphRevision: number;
+  architecture: ArchitectureRules;
+  setArchitecture: (architecture: ArchitectureRules) => void;
+  violations: RuleViolation[];
+  setHighlightedViolation: (subgraph: Subgraph | null) => void;
+  setSelectedNode: (node: string | null) => void;
+}
+
+// Number of violations displayed for every rule
+const MAX_DISPLAYED_VIOLATIONS = 20;
+
+const splitPatterns = (value: string): string[] => value.split(',').map((pattern) => pattern.trim()).filter((pattern) => pattern !== '');
+
+const ArchitecturePanel: FC<ArchitecturePanelProps> = ({
+  graphRevision,
+  architecture,
+  setArchitecture,
+  violations,
+  setHighlightedViolation,
+  setSelectedNode
+}) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [openRules, setOpenRules] = useState<number[]>([]);
+  const [activeViolation, setActiveViolation] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { layers, rules } = architecture;
+  const layerNames = layers.map((layer) => layer.name);
+
+  // Number of nodes in every layer
+  const layerSizes = useMemo(() => {
+    const sizes = new Map<string, number>();
+    getNodeLayers(graph, layers).forEach((layer) => sizes.set(layer, (sizes.get(layer) || 0) + 1));
+    return sizes;
+  }, [graph, graphRevision, layers]);
+
+  // Violations grouped by rule
+  const violationsByRule = useMemo(() => {
+    const groups = new Map<number, RuleViolation[]>();
+    violations.forEach((violation) => groups.set(violation.rule, [...(groups.get(violation.rule) || []), violation]));
+    return groups;
+  }, [violations]);
+
+  // An edge can break several rules, but is counted once
+  const violatingCount = useMemo(() => new Set(violations.map((violation) => violation.edge)).size, [violations]);
+
+  // The highlighted violation may not exist anymore when the rules or the graph change
+  useEffect(() => {
+    setActiveViolation(null);
+    setHighlightedViolation(null);
+  }, [violations, setHighlightedViolation]);
+
+  const updateLayer = (index: number, layer: ArchitectureLayer) => {
+    const previousName = layers[index].name;
+    setArchitecture({
+      layers: layers.map((item, i) => i === index ? layer : item),
+      // Renaming a layer renames it in the rules
+      rules: rules.map((rule) => ({
+        ...rule,
+        from: rule.from === previousName ? layer.name : rule.from,
+        to: rule.to.map((name) => name === previousName ? layer.name : name)
+      }))
+    });
+  };
+
+  const addLayer = () => {
+    let name = `Layer ${layers.length + 1}`;
+    for (let i = layers.length + 2; layerNames.includes(name); i++) name = `Layer ${i}`;
+    setArchitecture({ layers: [...layers, { name, patterns: [] }], rules });
+  };
+
+  const removeLayer = (index: number) => {
+    const name = layers[index].name;
+    setArchitecture({
+      layers: layers.filter((item, i) => i !== index),
+      rules: rules
+          .filter((rule) => rule.from !== name)
+          .map((rule) => ({ ...rule, to: rule.to.filter((item) => item !== name) }))
+    });
+  };
+
+  const updateRule = (index: number, rule: ArchitectureRule) => {
+    setArchitecture({ layers, rules: rules.map((item, i) => i === index ? rule : item) });
+  };
+
+  const toggleRuleTarget = (index: number, layer: string) => {
+    const rule = rules[index];
+    updateRule(index, { ...rule, to: rule.to.includes(layer) ? rule.to.filter((item) => item !== layer) : [...rule.to, layer] });
+  };
+
+  const importRules = async (file: File) => {
+    try {
+      setArchitecture(parseArchitectureRules(JSON.parse(await file.text())));
+      setError(null);
+      setOpenRules([]);
+    } catch (e) {
+      setError(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const toggleRule = (rule: number) => {
+    setOpenRules(openRules.includes(rule) ? openRules.filter((item) => item !== rule) : [...openRules, rule]);
+  };
+
+  const showViolation = (violation: RuleViolation) => {
+    if (activeViolation === violation.edge) {
+      setActiveViolation(null);
+      setHighlightedViolation(null);
+      return;
+    }
+
+    setActiveViolation(violation.edge);
+    setHighlightedViolation({ nodes: [violation.source, violation.target], edges: [violation.edge] });
+    setSelectedNode(null);
+    animateToNodes(sigma, [violation.source, violation.target]);
+  };
+
+  const getLabel = (node: string): string => graph.getNodeAttribute(node, 'label') || node;
+
+  return (
+      <div className="panel architecture">
+        <h2>
+          Architecture Rules
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          {rules.length === 0 ? (
+              <p className="text-muted">
+                Define layers as namespace patterns, then the dependencies allowed or forbidden between them.
+              </p>
+          ) : (
+              <p className="text-muted">
+                {violatingCount === 0
+                    ? 'All the dependencies follow the rules.'
+                    : `${violatingCount} dependenc${violatingCount > 1 ? 'ies break' : 'y breaks'} the rules:`}
+              </p>
+          )}
+
+          {violations.length > 0 && (
+              <ul className="rule-violations">
+                {rules.map((rule, index) => {
+                  const items = violationsByRule.get(index);
+                  if (!items) return null;
+                  return (
+                      <li key={index}>
+                        <div className="mouse-pointer" onClick={() => toggleRule(index)}>
+                          {openRules.includes(index) ? <BiChevronDown /> : <BiChevronRight />}{" "}
+                          {describeRule(rule)} <span className="text-muted text-small">({items.length})</span>
+                        </div>
+                        {openRules.includes(index) && (
+                            <ul>
+                              {items.slice(0, MAX_DISPLAYED_VIOLATIONS).map((violation) => (
+                                  <li
+                                      key={violation.edge}
+                                      className={`text-small mouse-pointer ${activeViolation === violation.edge ? 'active' : ''}`}
+                                      title={`${violation.source} → ${violation.target}`}
+                                      onClick={() => showViolation(violation)}
+                                  >
+                                    {getLabel(violation.source)} → {getLabel(violation.target)}
+                                  </li>
+                              ))}
+                              {items.length > MAX_DISPLAYED_VIOLATIONS && (
+                                  <li className="text-muted text-small">and {items.length - MAX_DISPLAYED_VIOLATIONS} more</li>
+                              )}
+                            </ul>
+                        )}
+                      </li>
+                  );
+                })}
+              </ul>
+          )}
+
+          <div className="buttons">
+            <button type="button" className="btn" onClick={() => setEditing(!editing)}>
+              {editing ? 'Done' : 'Edit rules'}
+            </button>
+            <button
+                type="button"
+                className="btn"
+                onClick={() => downloadFile(JSON.stringify(architecture, null, 2), 'dephpviz-architecture.json', 'application/json')}
+                disabled={layers.length === 0}
+            >
+              <BiDownload /> Download
+            </button>
+          </div>
+          <p>
+            <label htmlFor="architecture-file" className="text-muted">Load rules from a file:</label>{" "}
+            <input
+                type="file"
+                id="architecture-file"
+                accept=".json,application/json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importRules(file);
+                  e.target.value = '';
+                }}
+            />
+          </p>
+          {error && <p className="source-error">{error}</p>}
+
+          {editing && (
+              <>
+                <h3>Layers</h3>
+                <ul className="architecture-layers">
+                  {layers.map((layer, index) => (
+                      // Inputs are committed on blur, and reset when the layer is changed elsewhere
+                      <li key={`${index}:${JSON.stringify(layer)}`}>
+                        <input
+                            type="text"
+                            defaultValue={layer.name}
+                            placeholder="Name"
+                            onBlur={(e) => {
+                              const name = e.target.value.trim();
+                              if (name && name !== layer.name && !layerNames.includes(name)) {
+                                updateLayer(index, { ...layer, name });
+                              } else {
+                                e.target.value = layer.name;
+                              }
+                            }}
+                        />
+                        <input
+                            type="text"
+                            defaultValue={layer.patterns.join(', ')}
+                            placeholder="App\Domain\*, App\Model\*"
+                            onBlur={(e) => updateLayer(index, { ...layer, patterns: splitPatterns(e.target.value) })}
+                        />
+                        <span className="text-muted text-small">{layerSizes.get(layer.name) || 0} nodes</span>
+                        <button type="button" onClick={() => removeLayer(index)} title="Remove this layer">
+                          <BiTrash />
+                        </button>
+                      </li>
+                  ))}
+                </ul>
+                <div className="buttons">
+                  <button type="button" className="btn" onClick={addLayer}><BiPlus /> Add layer</button>
+                </div>
+
+                <h3>Rules</h3>
+                <ul className="architecture-rules">
+                  {rules.map((rule, index) => (
+                      <li key={index}>
+                        <div>
+                          <select
+                              value={rule.from}
+                              onChange={(e) => updateRule(index, {
+                                ...rule,
+                                from: e.target.value,
+                                to: rule.to.filter((layer) => layer !== e.target.value)
+                              })}
+                          >
+                            {layerNames.map((name) => <option key={name} value={name}>{name}</option>)}
+                          </select>{" "}
+                          <select
+                              value={rule.type}
+                              onChange={(e) => updateRule(index, { ...rule, type: e.target.value as ArchitectureRule['type'] })}
+                          >
+                            {Object.entries(RULE_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                          </select>
+                          <button
+                              type="button"
+                              onClick={() => setArchitecture({ layers, rules: rules.filter((item, i) => i !== index) })}
+                              title="Remove this rule"
+                          >
+                            <BiTrash />
+                          </button>
+                        </div>
+                        <div className="rule-targets">
+                          {layerNames.filter((name) => name !== rule.from).map((name) => (
+                              <label key={name}>
+                                <input type="checkbox" checked={rule.to.includes(name)} onChange={() => toggleRuleTarget(index, name)} />{" "}
+                                {name}
+                              </label>
+                          ))}
+                        </div>
+                      </li>
+                  ))}
+                </ul>
+                <div className="buttons">
+                  <button
+                      type="button"
+                      className="btn"
+                      onClick={() => setArchitecture({ layers, rules: [...rules, { from: layerNames[0], type: 'deny', to: [] }] })}
+                      disabled={layers.length < 2}
+                  >
+                    <BiPlus /> Add rule
+                  </button>
+                </div>
+              </>
+          )}
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default ArchitecturePanel;
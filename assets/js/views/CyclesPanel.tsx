@@ -0,0 +1,112 @@
+import { FC, useEffect, useMemo, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronUp } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { Subgraph } from '@/types';
+import { EDGE_TYPE_COLORS } from '@/utils/graph-utils';
+import { findDependencyCycles } from '@/utils/cycle-utils';
+import { animateToNodes } from '@/utils/sigma-utils';
+
+interface CyclesPanelProps {
+  graphRevision: number;
+  setHighlightedCycle: (cycle: Subgraph | null) => void;
+}
+
+// Number of member labels displayed for every cycle
+const MAX_DISPLAYED_MEMBERS = 5;
+
+const CyclesPanel: FC<CyclesPanelProps> = ({ graphRevision, setHighlightedCycle }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(true);
+  const [activeCycle, setActiveCycle] = useState<number | null>(null);
+  const [edgeTypes, setEdgeTypes] = useState<{ [key: string]: boolean }>({
+    'extends': true,
+    'implements': true,
+    'usesTrait': true,
+    'use': true
+  });
+
+  const cycles = useMemo(() => findDependencyCycles(graph, edgeTypes), [graph, graphRevision, edgeTypes]);
+
+  // Reset the active cycle when the cycles are recomputed
+  useEffect(() => setActiveCycle(null), [cycles]);
+
+  // Isolate the active cycle on the graph
+  useEffect(() => {
+    const cycle = activeCycle !== null ? cycles[activeCycle] : null;
+    setHighlightedCycle(cycle || null);
+
+    if (cycle) {
+      animateToNodes(sigma, cycle.nodes);
+    }
+  }, [sigma, cycles, activeCycle, setHighlightedCycle]);
+
+  // Clear the highlight when the panel is unmounted
+  useEffect(() => () => setHighlightedCycle(null), [setHighlightedCycle]);
+
+  const toggleEdgeType = (type: string) => {
+    setEdgeTypes({ ...edgeTypes, [type]: !edgeTypes[type] });
+  };
+
+  const getLabel = (node: string): string => graph.getNodeAttribute(node, 'label') || node;
+
+  return (
+      <div className="panel cycles">
+        <h2>
+          Circular Dependencies
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <p className="text-muted">Follow edge types:</p>
+          <ul>
+            {Object.entries(edgeTypes).map(([type, enabled]) => (
+                <li key={`cycle-edge-${type}`} className="caption-row">
+                  <input
+                      type="checkbox"
+                      id={`cycle-edge-${type}`}
+                      checked={enabled}
+                      onChange={() => toggleEdgeType(type)}
+                  />
+                  <label htmlFor={`cycle-edge-${type}`}>
+                    <span
+                        className="circle"
+                        style={{ backgroundColor: EDGE_TYPE_COLORS[type as keyof typeof EDGE_TYPE_COLORS] || '#666' }}
+                    ></span>
+                    <span className="node-label">{type.charAt(0).toUpperCase() + type.slice(1)}</span>
+                  </label>
+                </li>
+            ))}
+          </ul>
+
+          {cycles.length === 0 ? (
+              <p className="text-muted">No circular dependencies found</p>
+          ) : (
+              <p className="text-muted">
+                {cycles.length} strongly connected component{cycles.length > 1 ? 's' : ''}, click one to isolate it:
+              </p>
+          )}
+          <ul>
+            {cycles.map((cycle, index) => (
+                <li
+                    key={cycle.nodes.join('|')}
+                    className={`cycle mouse-pointer ${activeCycle === index ? 'active' : ''}`}
+                    onClick={() => setActiveCycle(activeCycle === index ? null : index)}
+                >
+                  <strong>{cycle.nodes.length} class{cycle.nodes.length > 1 ? 'es' : ''}</strong>{" "}
+                  <span className="text-muted text-small">({cycle.edges.length} edges)</span>
+                  <div className="text-small">
+                    {cycle.nodes.slice(0, MAX_DISPLAYED_MEMBERS).map(getLabel).join(', ')}
+                    {cycle.nodes.length > MAX_DISPLAYED_MEMBERS && ` and ${cycle.nodes.length - MAX_DISPLAYED_MEMBERS} more`}
+                  </div>
+                </li>
+            ))}
+          </ul>
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default CyclesPanel;
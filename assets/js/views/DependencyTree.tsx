@@ -0,0 +1,90 @@
+import { FC, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronRight } from "react-icons/bi";
+import { DependencyDirection } from '@/types';
+import { NODE_TYPE_COLORS } from '@/utils/graph-utils';
+import { getVisibleNeighbors, getVisibleNeighborsByEdgeType } from '@/utils/traversal-utils';
+
+interface DependencyTreeProps {
+  node: string;
+  direction: DependencyDirection;
+  maxDepth: number;
+  onSelectNode: (node: string) => void;
+  // Only the direct neighbors linked by this type of edge are listed, if set
+  edgeType?: string;
+}
+
+interface DependencyTreeItemProps extends DependencyTreeProps {
+  depth: number;
+  path: string[];
+}
+
+const DependencyTreeItem: FC<DependencyTreeItemProps> = ({ node, direction, maxDepth, onSelectNode, depth, path }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [open, setOpen] = useState(false);
+
+  const attributes = graph.getNodeAttributes(node);
+  const cyclic = path.includes(node);
+  const expandable = !cyclic && depth < maxDepth && getVisibleNeighbors(graph, node, direction).length > 0;
+
+  return (
+      <li>
+        <div className="dep-item">
+          <button type="button" className="tree-toggle" onClick={() => setOpen(!open)} disabled={!expandable}>
+            {expandable && (open ? <BiChevronDown /> : <BiChevronRight />)}
+          </button>
+          <span className="circle" style={{
+            backgroundColor: NODE_TYPE_COLORS[attributes.entityType as keyof typeof NODE_TYPE_COLORS] || '#666'
+          }}></span>
+          <span className="dep-label mouse-pointer" title={node} onClick={() => onSelectNode(node)}>
+            {attributes.label || node}
+          </span>
+          {cyclic && <span className="text-muted text-small" title="Circular dependency">&#8634;</span>}
+        </div>
+        {open && expandable && (
+            <DependencyTreeList
+                node={node}
+                direction={direction}
+                maxDepth={maxDepth}
+                onSelectNode={onSelectNode}
+                depth={depth + 1}
+                path={[...path, node]}
+            />
+        )}
+      </li>
+  );
+};
+
+const DependencyTreeList: FC<DependencyTreeItemProps> = ({ node, direction, maxDepth, onSelectNode, edgeType, depth, path }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const neighbors = edgeType
+      ? getVisibleNeighborsByEdgeType(graph, node, direction).get(edgeType) || []
+      : getVisibleNeighbors(graph, node, direction);
+
+  return (
+      <ul className="dependency-tree">
+        {neighbors.map((neighbor) => (
+            <DependencyTreeItem
+                key={neighbor}
+                node={neighbor}
+                direction={direction}
+                maxDepth={maxDepth}
+                onSelectNode={onSelectNode}
+                depth={depth}
+                path={path}
+            />
+        ))}
+      </ul>
+  );
+};
+
+/**
+ * Expandable tree of the dependencies (or dependents) of a node
+ */
+const DependencyTree: FC<DependencyTreeProps> = (props) => {
+  return <DependencyTreeList {...props} depth={1} path={[props.node]} />;
+};
+
+export default DependencyTree;
@@ -26,7 +26,7 @@ const DescriptionPanel: FC = () => {
               <strong>Hover</strong> over nodes to highlight connections.
             </li>
             <li>
-              <strong>Click</strong> on a node to focus on it and its dependencies.
+              <strong>Click</strong> on a node to focus on it and its dependencies, click on the background to clear the selection.
             </li>
             <li>
               <strong>Search</strong> for classes, traits, or interfaces by name.
@@ -34,6 +34,9 @@ const DescriptionPanel: FC = () => {
             <li>
               <strong>Filter</strong> by node types to focus on specific elements.
             </li>
+            <li>
+              <strong>Collapse</strong> namespaces into a single node, and <strong>double-click</strong> it to expand it again.
+            </li>
             <li>
               <strong>Zoom in/out</strong> using the controls or mouse wheel.
             </li>
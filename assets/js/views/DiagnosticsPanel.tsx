@@ -0,0 +1,109 @@
+import { FC, useMemo, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronRight, BiChevronUp } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { DiagnosticCode, GraphDiagnostic } from '@/types';
+import { animateToNode } from '@/utils/sigma-utils';
+
+interface DiagnosticsPanelProps {
+  diagnostics: GraphDiagnostic[];
+  setSelectedNode: (node: string | null) => void;
+}
+
+const DIAGNOSTIC_LABELS: Record<DiagnosticCode, string> = {
+  'unsupported-version': 'Unsupported schema version',
+  'invalid-node': 'Nodes without id',
+  'duplicate-node': 'Duplicate nodes',
+  'unknown-node-type': 'Unknown node types',
+  'invalid-edge': 'Edges without source or target',
+  'duplicate-edge': 'Duplicate edges',
+  'unknown-edge-type': 'Unknown edge types',
+  'dangling-edge': 'Edges to missing nodes',
+  'invalid-metadata': 'Invalid metadata',
+  'invalid-record': 'Invalid NDJSON lines',
+  'base-failed': 'Unavailable base snapshots',
+  'reload-failed': 'Failed live reloads',
+  'storage-failed': 'Local storage failures'
+};
+
+// Number of messages displayed for every kind of problem
+const MAX_DISPLAYED_DIAGNOSTICS = 20;
+
+const DiagnosticsPanel: FC<DiagnosticsPanelProps> = ({ diagnostics, setSelectedNode }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(false);
+  const [openCodes, setOpenCodes] = useState<DiagnosticCode[]>([]);
+
+  // Group the diagnostics by kind of problem
+  const groups = useMemo(() => {
+    const byCode = new Map<DiagnosticCode, GraphDiagnostic[]>();
+    diagnostics.forEach((diagnostic) => {
+      byCode.set(diagnostic.code, [...(byCode.get(diagnostic.code) || []), diagnostic]);
+    });
+    return Array.from(byCode.entries());
+  }, [diagnostics]);
+
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  const toggleCode = (code: DiagnosticCode) => {
+    setOpenCodes(openCodes.includes(code) ? openCodes.filter((item) => item !== code) : [...openCodes, code]);
+  };
+
+  const selectNode = (node: string) => {
+    setSelectedNode(node);
+    animateToNode(sigma, node);
+  };
+
+  return (
+      <div className="panel diagnostics">
+        <h2>
+          Data Diagnostics
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <p className="text-muted">
+            {errorCount > 0 && <span className="diagnostic-error">{errorCount} element{errorCount > 1 ? 's' : ''} dropped</span>}
+            {errorCount > 0 && warningCount > 0 && ', '}
+            {warningCount > 0 && <span className="diagnostic-warning">{warningCount} warning{warningCount > 1 ? 's' : ''}</span>}
+            {" "}while reading the data:
+          </p>
+          <ul>
+            {groups.map(([code, items]) => (
+                <li key={code}>
+                  <div className="mouse-pointer" onClick={() => toggleCode(code)}>
+                    {openCodes.includes(code) ? <BiChevronDown /> : <BiChevronRight />}{" "}
+                    <span className={`diagnostic-${items[0].severity}`}>{DIAGNOSTIC_LABELS[code]}</span>{" "}
+                    <span className="text-muted text-small">({items.length})</span>
+                  </div>
+                  {openCodes.includes(code) && (
+                      <ul className="diagnostic-messages">
+                        {items.slice(0, MAX_DISPLAYED_DIAGNOSTICS).map((diagnostic, index) => {
+                          const node = diagnostic.nodeId && graph.hasNode(diagnostic.nodeId) ? diagnostic.nodeId : null;
+                          return (
+                              <li
+                                  key={index}
+                                  className={`text-small ${node ? 'mouse-pointer' : ''}`}
+                                  onClick={node ? () => selectNode(node) : undefined}
+                              >
+                                {diagnostic.message}
+                              </li>
+                          );
+                        })}
+                        {items.length > MAX_DISPLAYED_DIAGNOSTICS && (
+                            <li className="text-muted text-small">and {items.length - MAX_DISPLAYED_DIAGNOSTICS} more</li>
+                        )}
+                      </ul>
+                  )}
+                </li>
+            ))}
+          </ul>
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default DiagnosticsPanel;
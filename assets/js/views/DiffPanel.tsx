@@ -0,0 +1,217 @@
+import { FC, useEffect, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronUp } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { DiffStatus, GraphDiff, NodeColorMode, Subgraph } from '@/types';
+import { DIFF_STATUS_COLORS } from '@/utils/graph-utils';
+import { animateToNode, animateToNodes } from '@/utils/sigma-utils';
+
+interface DiffPanelProps {
+  graphDiff: GraphDiff | null;
+  compareGraphFiles: (baseFile: File, headFile: File) => Promise<void>;
+  colorMode: NodeColorMode;
+  setColorMode: (mode: NodeColorMode) => void;
+  setHighlightedChange: (change: Subgraph | null) => void;
+  setSelectedNode: (node: string | null) => void;
+}
+
+// Number of items displayed in every list of changes
+const MAX_DISPLAYED_CHANGES = 20;
+
+const DIFF_STATUSES: DiffStatus[] = ['added', 'removed', 'unchanged'];
+
+const DiffPanel: FC<DiffPanelProps> = ({
+  graphDiff,
+  compareGraphFiles,
+  colorMode,
+  setColorMode,
+  setHighlightedChange,
+  setSelectedNode
+}) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(!graphDiff);
+  const [baseFile, setBaseFile] = useState<File | null>(null);
+  const [headFile, setHeadFile] = useState<File | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeChange, setActiveChange] = useState<string | null>(null);
+
+  // Isolate the active change on the graph
+  useEffect(() => {
+    if (!graphDiff || activeChange === null) {
+      setHighlightedChange(null);
+      return;
+    }
+
+    const [kind, index] = activeChange.split(':');
+    const edge = kind === 'edge' ? graphDiff.edges.added[Number(index)] : undefined;
+    const change: Subgraph | undefined = kind === 'cycle'
+        ? graphDiff.newCycles[Number(index)]
+        : edge && graph.hasEdge(edge) ? { nodes: graph.extremities(edge), edges: [edge] } : undefined;
+
+    // The change may belong to the previous diff until the active change is reset
+    if (!change) return;
+
+    setHighlightedChange(change);
+    animateToNodes(sigma, change.nodes);
+  }, [sigma, graph, graphDiff, activeChange, setHighlightedChange]);
+
+  // Reset the active change when another graph is loaded
+  useEffect(() => setActiveChange(null), [graphDiff]);
+
+  // Clear the highlight when the panel is unmounted
+  useEffect(() => () => setHighlightedChange(null), [setHighlightedChange]);
+
+  const toggleChange = (change: string) => {
+    setActiveChange(activeChange === change ? null : change);
+  };
+
+  const selectNode = (node: string) => {
+    setSelectedNode(node);
+    animateToNode(sigma, node);
+  };
+
+  const compare = async () => {
+    if (!baseFile || !headFile) return;
+
+    setComparing(true);
+    setError(null);
+    try {
+      await compareGraphFiles(baseFile, headFile);
+    } catch (err) {
+      setError('Failed to compare the snapshots. Please check that both files are valid graph.json files.');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const getLabel = (node: string): string => graph.getNodeAttribute(node, 'label') || node;
+
+  const renderMore = (count: number) => count > MAX_DISPLAYED_CHANGES && (
+      <li className="text-muted text-small">and {count - MAX_DISPLAYED_CHANGES} more</li>
+  );
+
+  return (
+      <div className="panel diff">
+        <h2>
+          Snapshot Diff
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          {graphDiff && (
+              <>
+                <ul>
+                  <li className="caption-row">
+                    <input
+                        type="checkbox"
+                        id="color-by-diff"
+                        checked={colorMode === 'diff'}
+                        onChange={() => setColorMode(colorMode === 'diff' ? 'type' : 'diff')}
+                    />
+                    <label htmlFor="color-by-diff">
+                      <span className="circle"></span>
+                      <span className="node-label">Color nodes by diff status</span>
+                    </label>
+                  </li>
+                </ul>
+
+                <table className="diff-table">
+                  <thead>
+                  <tr>
+                    <th></th>
+                    {DIFF_STATUSES.map((status) => (
+                        <th key={status} style={{ color: DIFF_STATUS_COLORS[status] }}>
+                          {status.charAt(0).toUpperCase() + status.slice(1)}
+                        </th>
+                    ))}
+                  </tr>
+                  </thead>
+                  <tbody>
+                  <tr>
+                    <td>Nodes</td>
+                    {DIFF_STATUSES.map((status) => <td key={status}>{graphDiff.nodes[status].length}</td>)}
+                  </tr>
+                  <tr>
+                    <td>Edges</td>
+                    {DIFF_STATUSES.map((status) => <td key={status}>{graphDiff.edges[status].length}</td>)}
+                  </tr>
+                  </tbody>
+                </table>
+
+                <h3>New dependencies <span className="text-muted text-small">({graphDiff.edges.added.length})</span></h3>
+                <ul className="diff-changes">
+                  {graphDiff.edges.added.slice(0, MAX_DISPLAYED_CHANGES).map((edge, index) => (
+                      <li
+                          key={edge}
+                          className={`mouse-pointer ${activeChange === `edge:${index}` ? 'active' : ''}`}
+                          onClick={() => toggleChange(`edge:${index}`)}
+                      >
+                        {getLabel(graph.source(edge))}{" "}
+                        <span className="text-muted">&rarr; {graph.getEdgeAttribute(edge, 'entityType')} &rarr;</span>{" "}
+                        {getLabel(graph.target(edge))}
+                      </li>
+                  ))}
+                  {renderMore(graphDiff.edges.added.length)}
+                </ul>
+
+                <h3>Removed classes <span className="text-muted text-small">({graphDiff.nodes.removed.length})</span></h3>
+                <ul className="diff-changes">
+                  {graphDiff.nodes.removed.slice(0, MAX_DISPLAYED_CHANGES).map((node) => (
+                      <li key={node} className="mouse-pointer" title={node} onClick={() => selectNode(node)}>
+                        {getLabel(node)}
+                      </li>
+                  ))}
+                  {renderMore(graphDiff.nodes.removed.length)}
+                </ul>
+
+                <h3>New cycles <span className="text-muted text-small">({graphDiff.newCycles.length})</span></h3>
+                <ul className="diff-changes">
+                  {graphDiff.newCycles.slice(0, MAX_DISPLAYED_CHANGES).map((cycle, index) => (
+                      <li
+                          key={cycle.nodes.join('|')}
+                          className={`mouse-pointer ${activeChange === `cycle:${index}` ? 'active' : ''}`}
+                          onClick={() => toggleChange(`cycle:${index}`)}
+                      >
+                        <strong>{cycle.nodes.length} class{cycle.nodes.length > 1 ? 'es' : ''}:</strong>{" "}
+                        <span className="text-small">{cycle.nodes.map(getLabel).join(', ')}</span>
+                      </li>
+                  ))}
+                  {renderMore(graphDiff.newCycles.length)}
+                </ul>
+              </>
+          )}
+
+          <p className="text-muted">Compare two graph.json snapshots, e.g. of two releases:</p>
+          <p>
+            <label htmlFor="diff-base-file"><strong>Base:</strong></label>{" "}
+            <input
+                type="file"
+                id="diff-base-file"
+                accept=".json,.ndjson,.jsonl,application/json,application/x-ndjson"
+                onChange={(e) => setBaseFile(e.target.files?.[0] || null)}
+            />
+          </p>
+          <p>
+            <label htmlFor="diff-head-file"><strong>New:</strong></label>{" "}
+            <input
+                type="file"
+                id="diff-head-file"
+                accept=".json,.ndjson,.jsonl,application/json,application/x-ndjson"
+                onChange={(e) => setHeadFile(e.target.files?.[0] || null)}
+            />
+          </p>
+          <div className="buttons">
+            <button type="button" className="btn" onClick={compare} disabled={!baseFile || !headFile || comparing}>
+              {comparing ? 'Comparing...' : 'Compare'}
+            </button>
+          </div>
+          {error && <p className="diff-error">{error}</p>}
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default DiffPanel;
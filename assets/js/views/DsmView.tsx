@@ -0,0 +1,337 @@
+import { FC, MouseEvent, useEffect, useMemo, useRef, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { GrClose } from "react-icons/gr";
+import { DirectedGraph } from "graphology";
+import { AttributeUpdatePayload, Attributes } from "graphology-types";
+import { DsmCell, DsmLevel, GraphView } from '@/types';
+import { getNodeNamespace } from '@/utils/cluster-utils';
+import { buildDsm, getMainEdgeType } from '@/utils/dsm-utils';
+import { EDGE_TYPE_COLORS, EDGE_TYPE_LABELS } from '@/utils/graph-utils';
+import { animateToNode } from '@/utils/sigma-utils';
+
+interface DsmViewProps {
+  graphRevision: number;
+  selectedNode: string | null;
+  setSelectedNode: (node: string | null) => void;
+  setView: (view: GraphView) => void;
+}
+
+// Attributes of the nodes and edges that change what the matrix displays
+const WATCHED_ATTRIBUTES = ['hidden', 'collapsedInto'];
+
+// Size of the cells, in pixels, the matrix being scrolled when the smallest cells do not fit
+const MIN_CELL_SIZE = 1;
+const MAX_CELL_SIZE = 24;
+// Browsers do not draw larger canvases, the entries of larger matrices having to be grouped by namespace
+const MAX_CANVAS_SIZE = 16384;
+// The rows are labeled and the dependency counts written when the cells are large enough
+const MIN_LABELED_CELL_SIZE = 12;
+const MIN_COUNTED_CELL_SIZE = 16;
+const LABEL_WIDTH = 220;
+const HEADER_HEIGHT = 20;
+
+// Number of edges listed for the clicked cell
+const MAX_LISTED_EDGES = 100;
+
+const DIAGONAL_COLOR = '#e9ecef';
+const GROUP_LINE_COLOR = '#ced4da';
+const SELECTION_COLOR = 'rgba(226, 38, 83, 0.12)';
+const CYCLE_COLOR = '#e22653';
+
+const describeCounts = (cell: DsmCell): string => Object.entries(cell.counts)
+    .map(([type, count]) => `${count} ${(EDGE_TYPE_LABELS[type] || type).toLowerCase()}`)
+    .join(', ');
+
+/**
+ * Dependency structure matrix of the displayed graph: the entry of a row depends on the entries
+ * of the columns whose cell is colored, by the most frequent type of their dependencies.
+ *
+ * The matrix follows the filters and collapsed namespaces of the graph, and the cells can be clicked
+ * to list the dependencies between the classes they stand for.
+ */
+const DsmView: FC<DsmViewProps> = ({ graphRevision, selectedNode, setSelectedNode, setView }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [level, setLevel] = useState<DsmLevel>('class');
+  const [partition, setPartition] = useState(false);
+  const [revision, setRevision] = useState(0);
+  const [area, setArea] = useState({ width: 0, height: 0 });
+  const [hoveredCell, setHoveredCell] = useState<{ row: number; column: number } | null>(null);
+  // Clicked cell, by the keys of its entries, along with the graph it was clicked on
+  const [selectedCell, setSelectedCell] = useState<{ graph: DirectedGraph; row: string; column: string } | null>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Build the matrix again when the graph is filtered or its namespaces collapsed, once per frame at most
+  useEffect(() => {
+    let frame = 0;
+    const refresh = () => {
+      if (!frame) frame = requestAnimationFrame(() => {
+        frame = 0;
+        setRevision((value) => value + 1);
+      });
+    };
+    const onAttributesUpdated = (payload: AttributeUpdatePayload<Attributes>) => {
+      if (payload.type === 'set' && !WATCHED_ATTRIBUTES.includes(String(payload.name))) return;
+      if (payload.type === 'merge' && !WATCHED_ATTRIBUTES.some((name) => name in payload.data)) return;
+      refresh();
+    };
+
+    graph.on('nodeAttributesUpdated', onAttributesUpdated);
+    graph.on('edgeAttributesUpdated', onAttributesUpdated);
+    graph.on('nodeAdded', refresh);
+    graph.on('nodeDropped', refresh);
+    return () => {
+      cancelAnimationFrame(frame);
+      graph.off('nodeAttributesUpdated', onAttributesUpdated);
+      graph.off('edgeAttributesUpdated', onAttributesUpdated);
+      graph.off('nodeAdded', refresh);
+      graph.off('nodeDropped', refresh);
+    };
+  }, [graph]);
+
+  // Size the cells again when the view is resized
+  useEffect(() => {
+    const element = areaRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(() => setArea({ width: element.clientWidth, height: element.clientHeight }));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // The revisions tell when the displayed nodes or the graph data changed
+  const dsm = useMemo(() => buildDsm(graph, level, partition), [graph, graphRevision, level, partition, revision]);
+
+  const size = dsm.entries.length;
+  const labeledCellSize = Math.floor(Math.min((area.width - LABEL_WIDTH) / size, (area.height - HEADER_HEIGHT) / size));
+  const labeled = labeledCellSize >= MIN_LABELED_CELL_SIZE;
+  const cellSize = labeled
+      ? Math.min(labeledCellSize, MAX_CELL_SIZE)
+      : Math.max(MIN_CELL_SIZE, Math.floor(Math.min(area.width / size, area.height / size)));
+  const offsetX = labeled ? LABEL_WIDTH : 0;
+  const offsetY = labeled ? HEADER_HEIGHT : 0;
+  const tooLarge = size * cellSize > MAX_CANVAS_SIZE;
+  const width = tooLarge ? 0 : offsetX + size * cellSize;
+  const height = tooLarge ? 0 : offsetY + size * cellSize;
+
+  const cellsByKey = useMemo(
+      () => new Map(dsm.cells.map((cell) => [`${dsm.entries[cell.row].key}>${dsm.entries[cell.column].key}`, cell])),
+      [dsm]
+  );
+  const getCell = (row: number, column: number): DsmCell | undefined =>
+      cellsByKey.get(`${dsm.entries[row].key}>${dsm.entries[column].key}`);
+
+  // Entry of the node selected on the graph, whose row and column are highlighted
+  const selectedIndex = useMemo(() => {
+    if (!selectedNode || !graph.hasNode(selectedNode)) return -1;
+    const key = level === 'namespace' ? getNodeNamespace(selectedNode, graph.getNodeAttributes(selectedNode)) : selectedNode;
+    return dsm.entries.findIndex((entry) => entry.key === key);
+  }, [graph, dsm, level, selectedNode]);
+
+  // The clicked cell is left out when another graph is displayed, and its dependencies when they were removed
+  const clickedCell = selectedCell && selectedCell.graph === graph
+      ? cellsByKey.get(`${selectedCell.row}>${selectedCell.column}`) ?? null
+      : null;
+  const clickedEdges = clickedCell ? clickedCell.edges.filter((edge) => graph.hasEdge(edge)) : [];
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    if (tooLarge) return;
+
+    const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    const matrixSize = size * cellSize;
+    const gap = cellSize >= 4 ? 1 : 0;
+
+    // Diagonal, and row and column of the selected node
+    context.fillStyle = DIAGONAL_COLOR;
+    for (let index = 0; index < size; index++) {
+      context.fillRect(offsetX + index * cellSize, offsetY + index * cellSize, cellSize, cellSize);
+    }
+    if (selectedIndex !== -1) {
+      context.fillStyle = SELECTION_COLOR;
+      context.fillRect(0, offsetY + selectedIndex * cellSize, offsetX + matrixSize, cellSize);
+      context.fillRect(offsetX + selectedIndex * cellSize, 0, cellSize, offsetY + matrixSize);
+    }
+
+    // Lines between the namespaces
+    context.strokeStyle = GROUP_LINE_COLOR;
+    context.lineWidth = 1;
+    context.beginPath();
+    for (let index = 1; index < size; index++) {
+      if (dsm.entries[index].namespace === dsm.entries[index - 1].namespace) continue;
+      const position = index * cellSize + 0.5;
+      context.moveTo(offsetX, offsetY + position);
+      context.lineTo(offsetX + matrixSize, offsetY + position);
+      context.moveTo(offsetX + position, offsetY);
+      context.lineTo(offsetX + position, offsetY + matrixSize);
+    }
+    context.stroke();
+
+    // Dependencies, with their number when the cells are large enough
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.font = `${Math.min(11, cellSize - 5)}px "Public Sans", sans-serif`;
+    dsm.cells.forEach((cell) => {
+      const x = offsetX + cell.column * cellSize;
+      const y = offsetY + cell.row * cellSize;
+      context.fillStyle = EDGE_TYPE_COLORS[getMainEdgeType(cell) as keyof typeof EDGE_TYPE_COLORS] || '#adb5bd';
+      context.fillRect(x + gap, y + gap, cellSize - 2 * gap, cellSize - 2 * gap);
+
+      if (cellSize >= MIN_COUNTED_CELL_SIZE && (level === 'namespace' || cell.total > 1)) {
+        context.fillStyle = 'white';
+        context.fillText(String(cell.total), x + cellSize / 2, y + cellSize / 2);
+      }
+    });
+
+    // Entries that depend on each other
+    context.strokeStyle = CYCLE_COLOR;
+    context.lineWidth = 2;
+    dsm.cycles.forEach(({ start, size: cycleSize }) => {
+      context.strokeRect(offsetX + start * cellSize, offsetY + start * cellSize, cycleSize * cellSize, cycleSize * cellSize);
+    });
+
+    // Hovered and clicked cells
+    context.strokeStyle = 'black';
+    if (hoveredCell) {
+      context.lineWidth = 1;
+      context.strokeRect(offsetX + hoveredCell.column * cellSize + 0.5, offsetY + hoveredCell.row * cellSize + 0.5, cellSize - 1, cellSize - 1);
+    }
+    if (clickedCell) {
+      context.lineWidth = 2;
+      context.strokeRect(offsetX + clickedCell.column * cellSize, offsetY + clickedCell.row * cellSize, cellSize, cellSize);
+    }
+
+    // Labels of the rows, and numbers of the columns
+    if (labeled) {
+      context.fillStyle = 'black';
+      context.font = `${Math.min(12, cellSize - 2)}px "Public Sans", sans-serif`;
+      context.save();
+      context.beginPath();
+      context.rect(0, offsetY, LABEL_WIDTH - 4, matrixSize);
+      context.clip();
+      context.textAlign = 'left';
+      dsm.entries.forEach((entry, index) => {
+        context.fillText(`${index + 1}. ${entry.label}`, 2, offsetY + index * cellSize + cellSize / 2);
+      });
+      context.restore();
+
+      context.font = `${Math.min(9, cellSize - 4)}px "Public Sans", sans-serif`;
+      dsm.entries.forEach((entry, index) => {
+        context.fillText(String(index + 1), offsetX + index * cellSize + cellSize / 2, HEADER_HEIGHT / 2);
+      });
+    }
+  }, [dsm, level, size, cellSize, tooLarge, labeled, offsetX, offsetY, width, height, selectedIndex, hoveredCell, clickedCell]);
+
+  const getPosition = (e: MouseEvent<HTMLCanvasElement>): { row: number; column: number } => ({
+    row: Math.floor((e.nativeEvent.offsetY - offsetY) / cellSize),
+    column: Math.floor((e.nativeEvent.offsetX - offsetX) / cellSize)
+  });
+
+  const onMouseMove = (e: MouseEvent<HTMLCanvasElement>) => {
+    const { row, column } = getPosition(e);
+    const inside = row >= 0 && row < size && column >= 0 && column < size;
+    if (!inside) {
+      if (hoveredCell) setHoveredCell(null);
+    } else if (hoveredCell?.row !== row || hoveredCell?.column !== column) {
+      setHoveredCell({ row, column });
+    }
+  };
+
+  const onClick = (e: MouseEvent<HTMLCanvasElement>) => {
+    const { row, column } = getPosition(e);
+    if (row < 0 || row >= size) return;
+
+    const cell = column >= 0 && column < size ? getCell(row, column) : undefined;
+    if (cell) {
+      setSelectedCell({ graph, row: dsm.entries[row].key, column: dsm.entries[column].key });
+    } else if (level === 'class' && (column < 0 || column === row)) {
+      // Clicking the label or the diagonal selects the node of the row
+      selectNode(dsm.entries[row].key);
+    }
+  };
+
+  const selectNode = (node: string) => {
+    setSelectedNode(node);
+    animateToNode(sigma, node);
+  };
+
+  const getLabel = (node: string): string => graph.getNodeAttribute(node, 'label') || node;
+
+  const hovered = hoveredCell && {
+    row: dsm.entries[hoveredCell.row],
+    column: dsm.entries[hoveredCell.column],
+    cell: getCell(hoveredCell.row, hoveredCell.column)
+  };
+
+  return (
+      <div className="dsm-view">
+        <div className="dsm-header">
+          <label>
+            <input type="checkbox" checked={level === 'namespace'} onChange={(e) => setLevel(e.target.checked ? 'namespace' : 'class')} />{" "}
+            Group by namespace
+          </label>
+          <label>
+            <input type="checkbox" checked={partition} onChange={(e) => setPartition(e.target.checked)} />{" "}
+            Partition to bring cycles together
+          </label>
+          <span className="dsm-status text-muted">
+            {hovered
+                ? <>{hovered.row.label} &rarr; {hovered.column.label}{hovered.cell ? `: ${describeCounts(hovered.cell)}` : ''}</>
+                : `${size} ${level === 'namespace' ? 'namespaces' : 'nodes'}, ${dsm.cells.length} dependencies`}
+          </span>
+          <button type="button" className="dsm-close" onClick={() => setView('graph')} title="Back to the graph">
+            <GrClose />
+          </button>
+        </div>
+
+        <div className="dsm-area" ref={areaRef}>
+          {tooLarge && <p className="text-muted">There are too many nodes to display them all, group them by namespace instead.</p>}
+          <canvas
+              ref={canvasRef}
+              className={hovered?.cell ? 'mouse-pointer' : ''}
+              onMouseMove={onMouseMove}
+              onMouseLeave={() => setHoveredCell(null)}
+              onClick={onClick}
+          />
+        </div>
+
+        {clickedCell && (
+            <div className="dsm-edges">
+              <h3>
+                {dsm.entries[clickedCell.row].label} &rarr; {dsm.entries[clickedCell.column].label}{" "}
+                <span className="text-muted text-small">({describeCounts(clickedCell)})</span>
+                <button type="button" onClick={() => setSelectedCell(null)} title="Close">
+                  <GrClose />
+                </button>
+              </h3>
+              <ul>
+                {clickedEdges.slice(0, MAX_LISTED_EDGES).map((edge) => (
+                    <li key={edge}>
+                      <span className="mouse-pointer" onClick={() => selectNode(graph.source(edge))}>{getLabel(graph.source(edge))}</span>
+                      {" "}&rarr;{" "}
+                      <span className="mouse-pointer" onClick={() => selectNode(graph.target(edge))}>{getLabel(graph.target(edge))}</span>{" "}
+                      <span className="text-muted text-small">({EDGE_TYPE_LABELS[graph.getEdgeAttribute(edge, 'entityType')]})</span>
+                    </li>
+                ))}
+              </ul>
+              {clickedEdges.length > MAX_LISTED_EDGES && (
+                  <p className="text-muted text-small">and {clickedEdges.length - MAX_LISTED_EDGES} more dependencies</p>
+              )}
+            </div>
+        )}
+      </div>
+  );
+};
+
+export default DsmView;
@@ -0,0 +1,87 @@
+import { useSigma } from "@react-sigma/core";
+import { FC, useState } from "react";
+import { BiExport } from "react-icons/bi";
+import { GrClose } from "react-icons/gr";
+import { ExportFormat } from '@/types';
+import { downloadFile, exportToDot, exportToGexf, exportToPng, exportToSvg } from '@/utils/export-utils';
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'png', label: 'PNG image' },
+  { format: 'svg', label: 'SVG image' },
+  { format: 'dot', label: 'Graphviz DOT' },
+  { format: 'gexf', label: 'GEXF' },
+];
+
+const EXPORT_FILENAME = 'dephpviz-graph';
+
+const ExportControl: FC = () => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportGraph = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    setError(null);
+
+    try {
+      switch (format) {
+        case 'png':
+          downloadFile(await exportToPng(graph), `${EXPORT_FILENAME}.png`, 'image/png');
+          break;
+        case 'svg':
+          downloadFile(exportToSvg(graph), `${EXPORT_FILENAME}.svg`, 'image/svg+xml');
+          break;
+        case 'dot':
+          downloadFile(exportToDot(graph), `${EXPORT_FILENAME}.dot`, 'text/vnd.graphviz');
+          break;
+        case 'gexf':
+          downloadFile(exportToGexf(graph), `${EXPORT_FILENAME}.gexf`, 'application/xml');
+          break;
+      }
+    } catch (error) {
+      setError(`Failed to export the graph: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+      <div className="ico export-control">
+        <button
+            type="button"
+            onClick={() => {
+              setOpen(!open);
+              setError(null);
+            }}
+            title="Export the visible graph"
+            disabled={exporting}
+        >
+          <BiExport />
+        </button>
+        {open && (
+            <ul className="export-menu">
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                  <li key={format}>
+                    <button type="button" className="btn" onClick={() => exportGraph(format)}>
+                      {label}
+                    </button>
+                  </li>
+              ))}
+            </ul>
+        )}
+        {error && (
+            <p className="export-error" role="alert">
+              {error}
+              <button type="button" onClick={() => setError(null)} title="Close">
+                <GrClose />
+              </button>
+            </p>
+        )}
+      </div>
+  );
+};
+
+export default ExportControl;
@@ -0,0 +1,67 @@
+import { FC, useEffect, useRef, useState } from "react";
+
+interface FileDropZoneProps {
+  onDropFile: (file: File) => void;
+}
+
+const hasFiles = (event: DragEvent): boolean => !!event.dataTransfer?.types.includes('Files');
+
+/**
+ * Accept a file dropped anywhere on the page, and show an overlay while a file is dragged over it
+ */
+const FileDropZone: FC<FileDropZoneProps> = ({ onDropFile }) => {
+  const [dragging, setDragging] = useState(false);
+
+  // Drag events fire for every child element that is entered or left
+  const dragDepth = useRef(0);
+
+  useEffect(() => {
+    const onDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepth.current++;
+      setDragging(true);
+    };
+
+    const onDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepth.current = Math.max(0, dragDepth.current - 1);
+      if (dragDepth.current === 0) setDragging(false);
+    };
+
+    const onDragOver = (event: DragEvent) => {
+      if (hasFiles(event)) event.preventDefault();
+    };
+
+    const onDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepth.current = 0;
+      setDragging(false);
+
+      const file = event.dataTransfer?.files[0];
+      if (file) onDropFile(file);
+    };
+
+    window.addEventListener("dragenter", onDragEnter);
+    window.addEventListener("dragleave", onDragLeave);
+    window.addEventListener("dragover", onDragOver);
+    window.addEventListener("drop", onDrop);
+
+    return () => {
+      window.removeEventListener("dragenter", onDragEnter);
+      window.removeEventListener("dragleave", onDragLeave);
+      window.removeEventListener("dragover", onDragOver);
+      window.removeEventListener("drop", onDrop);
+    };
+  }, [onDropFile]);
+
+  if (!dragging) return null;
+
+  return (
+      <div className="file-drop-zone">
+        <p>Drop a graph.json file to load it</p>
+      </div>
+  );
+};
+
+export default FileDropZone;
@@ -0,0 +1,83 @@
+import { FC, Fragment, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronRight, BiChevronUp } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { DependencyDirection, FocusState } from '@/types';
+import { MAX_FOCUS_DEPTH } from '@/utils/traversal-utils';
+
+interface FocusPanelProps {
+  focus: FocusState;
+  focusTrail: string[];
+  focusNodeCount: number;
+  setFocus: (focus: FocusState) => void;
+  focusOnNode: (node: string) => void;
+  leaveFocus: () => void;
+}
+
+const DIRECTION_LABELS: Record<DependencyDirection, string> = {
+  'out': 'Dependencies',
+  'in': 'Dependents',
+  'both': 'Both'
+};
+
+const FocusPanel: FC<FocusPanelProps> = ({ focus, focusTrail, focusNodeCount, setFocus, focusOnNode, leaveFocus }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(false);
+
+  const getLabel = (node: string): string => graph.hasNode(node) ? graph.getNodeAttribute(node, 'label') || node : node;
+
+  return (
+      <div className="panel focus">
+        <h2>
+          Focus
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <nav className="focus-trail" aria-label="Focus history">
+            {focusTrail.map((node, index) => (
+                <Fragment key={node}>
+                  {index > 0 && <BiChevronRight className="text-muted" />}
+                  {node === focus.node ? (
+                      <strong title={node}>{getLabel(node)}</strong>
+                  ) : (
+                      <span className="mouse-pointer" title={node} onClick={() => focusOnNode(node)}>{getLabel(node)}</span>
+                  )}
+                </Fragment>
+            ))}
+          </nav>
+          <p className="text-muted">
+            {focusNodeCount} node{focusNodeCount > 1 ? 's' : ''} displayed. Select a neighbor and focus on it to move along the graph.
+          </p>
+          <p>
+            <label htmlFor="focus-depth"><strong>Depth:</strong></label>{" "}
+            <input
+                type="number"
+                id="focus-depth"
+                min={1}
+                max={MAX_FOCUS_DEPTH}
+                value={focus.depth}
+                onChange={(e) => setFocus({ ...focus, depth: Math.min(MAX_FOCUS_DEPTH, Math.max(1, Math.floor(Number(e.target.value) || 1))) })}
+            />{" "}
+            <label htmlFor="focus-direction"><strong>Direction:</strong></label>{" "}
+            <select
+                id="focus-direction"
+                value={focus.direction}
+                onChange={(e) => setFocus({ ...focus, direction: e.target.value as DependencyDirection })}
+            >
+              {Object.entries(DIRECTION_LABELS).map(([direction, label]) => (
+                  <option key={direction} value={direction}>{label}</option>
+              ))}
+            </select>
+          </p>
+          <div className="buttons">
+            <button type="button" className="btn" onClick={leaveFocus}>Leave focus</button>
+          </div>
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default FocusPanel;
@@ -2,29 +2,28 @@ import { useSigma } from "@react-sigma/core";
 import { FC, useEffect, useState } from "react";
 import { FaPlay, FaStop } from "react-icons/fa";
 import FA2Layout from "graphology-layout-forceatlas2/worker";
+import { LayoutName } from '@/types';
+import { FA2_SETTINGS } from '@/utils/layout-utils';
 
-const ForceAtlasControl: FC = () => {
+type ForceAtlasControlProps = {
+  layout: LayoutName;
+  startLiveLayout: () => void;
+};
+
+const ForceAtlasControl: FC<ForceAtlasControlProps> = ({ layout, startLiveLayout }) => {
   const sigma = useSigma();
   const graph = sigma.getGraph();
   const [isRunning, setIsRunning] = useState(false);
-  const [layout, setLayout] = useState<any>(null);
+  const [fa2Worker, setFa2Worker] = useState<any>(null);
 
   // Initialize the layout
   useEffect(() => {
     // Create the FA2 layout with the worker
     const fa2Layout = new FA2Layout(graph, {
-      settings: {
-        gravity: 1,
-        scalingRatio: 1.2,
-        strongGravityMode: true,
-        slowDown: 10,
-        edgeWeightInfluence: 0,
-        barnesHutOptimize: true,
-        barnesHutTheta: 0.5,
-      }
+      settings: FA2_SETTINGS
     });
 
-    setLayout(fa2Layout);
+    setFa2Worker(fa2Layout);
 
     // Clean up on unmount
     return () => {
@@ -34,17 +33,27 @@ const ForceAtlasControl: FC = () => {
       if (fa2Layout) {
         fa2Layout.kill();
       }
+      setIsRunning(false);
     };
   }, [sigma, graph]);
 
+  // Stop the live layout when another layout is chosen
+  useEffect(() => {
+    if (layout !== 'forceAtlas2' && fa2Worker && fa2Worker.isRunning()) {
+      fa2Worker.stop();
+      setIsRunning(false);
+    }
+  }, [layout, fa2Worker]);
+
   const toggleLayout = () => {
-    if (!layout) return;
+    if (!fa2Worker) return;
 
     if (isRunning) {
-      layout.stop();
+      fa2Worker.stop();
       setIsRunning(false);
     } else {
-      layout.start();
+      startLiveLayout();
+      fa2Worker.start();
       setIsRunning(true);
     }
   };
@@ -55,7 +64,7 @@ const ForceAtlasControl: FC = () => {
             type="button"
             onClick={toggleLayout}
             title={isRunning ? "Stop layout" : "Start layout"}
-            disabled={!layout}
+            disabled={!fa2Worker}
         >
           {isRunning ? <FaStop /> : <FaPlay />}
         </button>
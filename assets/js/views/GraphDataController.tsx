@@ -1,36 +1,85 @@
 import { useSigma } from "@react-sigma/core";
+import { DirectedGraph } from "graphology";
+import { Attributes } from "graphology-types";
 import { FC, useEffect } from "react";
-import { FiltersState } from '@/types';
+import { FiltersState, MetricKey, NodeColorMode } from '@/types';
+import { applyCollapsedNamespaces, applyNodeColors, getHiddenNamespaces, getNodeNamespace, isInNamespace, isNamespaceNode } from '@/utils/cluster-utils';
+import { sizeNodesByAttribute } from '@/utils/graph-utils';
+import { getQueryFilterNodes } from '@/utils/query-utils';
 
 type GraphDataControllerProps = {
+  // Incremented when nodes and edges are merged into the graph, which must be collapsed, sized, colored and filtered again
+  graphRevision: number;
   filters: FiltersState;
+  collapsedNamespaces: string[];
+  colorMode: NodeColorMode;
+  sizeMetric: MetricKey;
+  // Nodes of the focused neighborhood, the others being hidden
+  focusNodes: Set<string> | null;
 };
 
-const GraphDataController: FC<GraphDataControllerProps> = ({ filters }) => {
+/**
+ * Check whether a node is hidden by a set of kept nodes, a collapsed namespace being kept when one of its members is
+ */
+const createNodeSetFilter = (graph: DirectedGraph, nodes: Set<string> | null): ((node: string, attributes: Attributes) => boolean) => {
+  if (!nodes) return () => false;
+
+  const namespaces = new Set<string>();
+  nodes.forEach((node) => {
+    const collapsedInto = graph.getNodeAttribute(node, 'collapsedInto');
+    if (collapsedInto !== null && collapsedInto !== undefined) namespaces.add(collapsedInto);
+  });
+
+  return (node, attributes) => isNamespaceNode(attributes) ? !namespaces.has(attributes.namespace) : !nodes.has(node);
+};
+
+const GraphDataController: FC<GraphDataControllerProps> = ({ graphRevision, filters, collapsedNamespaces, colorMode, sizeMetric, focusNodes }) => {
   const sigma = useSigma();
   const graph = sigma.getGraph();
 
+  // Replace the collapsed namespaces by aggregated nodes
+  useEffect(() => {
+    applyCollapsedNamespaces(graph, collapsedNamespaces);
+  }, [graph, graphRevision, collapsedNamespaces]);
+
+  // Size the nodes by the chosen metric
+  useEffect(() => {
+    sizeNodesByAttribute(graph, sizeMetric);
+  }, [graph, graphRevision, sizeMetric]);
+
+  // Color the nodes by type, by cluster or by metric
+  useEffect(() => {
+    applyNodeColors(graph, colorMode);
+  }, [graph, graphRevision, colorMode, collapsedNamespaces]);
+
   // Apply the filters to the graph
   useEffect(() => {
-    // Apply node type filtering
-    if (filters.nodeTypes) {
-      graph.forEachNode((node, attributes) => {
-        const nodeType = attributes.entityType;
-        const hidden = nodeType && filters.nodeTypes && !filters.nodeTypes[nodeType];
-        graph.setNodeAttribute(node, "hidden", hidden);
-      });
-    }
+    const isHiddenByQuery = createNodeSetFilter(graph, getQueryFilterNodes(graph, filters));
+    const isHiddenByFocus = createNodeSetFilter(graph, focusNodes);
+    const hiddenNamespaces = getHiddenNamespaces(filters.namespaces);
+
+    // Apply node type, cluster, namespace, query, focus and collapsed namespace filtering
+    graph.forEachNode((node, attributes) => {
+      const nodeType = attributes.entityType;
+      const typeHidden = !isNamespaceNode(attributes) && !!filters.nodeTypes && filters.nodeTypes[nodeType] === false;
+      const clusterHidden = attributes.cluster !== undefined && filters.clusters[attributes.cluster] === false;
+      const namespace = getNodeNamespace(node, attributes);
+      const namespaceHidden = hiddenNamespaces.some((hidden) => isInNamespace(namespace, hidden));
+      const collapsed = attributes.collapsedInto !== null && attributes.collapsedInto !== undefined;
+      const hidden = typeHidden || clusterHidden || namespaceHidden || isHiddenByQuery(node, attributes) || isHiddenByFocus(node, attributes) || collapsed;
+      graph.setNodeAttribute(node, "hidden", hidden);
+    });
 
     // Apply edge type filtering
     if (filters.edgeTypes) {
       graph.forEachEdge((edge, attributes) => {
-        const edgeType = attributes.entityType;
-        const hidden = edgeType && filters.edgeTypes && !filters.edgeTypes[edgeType];
+        const edgeTypes = attributes.entityType === 'aggregate' ? Object.keys(attributes.counts) : [attributes.entityType];
+        const hidden = edgeTypes.every((edgeType: string) => filters.edgeTypes && filters.edgeTypes[edgeType] === false);
         graph.setEdgeAttribute(edge, "hidden", hidden);
       });
     }
 
-  }, [graph, filters]);
+  }, [graph, graphRevision, filters, collapsedNamespaces, focusNodes]);
 
   return null;
 };
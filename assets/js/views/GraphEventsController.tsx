@@ -1,11 +1,14 @@
 import { useSigma } from "@react-sigma/core";
 import { FC, useEffect } from "react";
+import { isNamespaceNode } from '@/utils/cluster-utils';
 
 type GraphEventsControllerProps = {
   setHoveredNode: (node: string | null) => void;
+  setSelectedNode: (node: string | null) => void;
+  expandNamespace: (namespace: string) => void;
 };
 
-const GraphEventsController: FC<GraphEventsControllerProps> = ({ setHoveredNode }) => {
+const GraphEventsController: FC<GraphEventsControllerProps> = ({ setHoveredNode, setSelectedNode, expandNamespace }) => {
   const sigma = useSigma();
 
   /**
@@ -22,11 +25,70 @@ const GraphEventsController: FC<GraphEventsControllerProps> = ({ setHoveredNode
       setHoveredNode(null);
     });
 
+    // On click on a node, pin it as the selected node
+    sigma.on("clickNode", ({ node }) => {
+      setSelectedNode(node);
+    });
+
+    // On click on the stage, clear the selection
+    sigma.on("clickStage", () => {
+      setSelectedNode(null);
+    });
+
+    // On mouse down on a node, start dragging it
+    let draggedNode: string | null = null;
+    let frozenBBox = false;
+    sigma.on("downNode", ({ node }) => {
+      draggedNode = node;
+      // Freeze the bounding box, so that the camera does not follow the dragged node out of the graph
+      if (!sigma.getCustomBBox()) {
+        sigma.setCustomBBox(sigma.getBBox());
+        frozenBBox = true;
+      }
+    });
+
+    // While dragging, move the node under the mouse instead of moving the camera, and pin it there
+    sigma.on("moveBody", ({ event }) => {
+      if (!draggedNode) return;
+
+      const graph = sigma.getGraph();
+      const { x, y } = sigma.viewportToGraph(event);
+      graph.mergeNodeAttributes(draggedNode, { x, y });
+      if (!graph.getNodeAttribute(draggedNode, 'fixed') && !isNamespaceNode(graph.getNodeAttributes(draggedNode))) {
+        graph.setNodeAttribute(draggedNode, 'fixed', true);
+      }
+
+      event.preventSigmaDefault();
+      event.original.preventDefault();
+      event.original.stopPropagation();
+    });
+
+    // On mouse up, drop the dragged node, and let the bounding box follow the nodes added or filtered afterwards
+    const stopDragging = () => {
+      draggedNode = null;
+      if (frozenBBox) {
+        sigma.setCustomBBox(null);
+        frozenBBox = false;
+      }
+    };
+    sigma.on("upNode", stopDragging);
+    sigma.on("upStage", stopDragging);
+
+    // On double click on a collapsed namespace, expand it instead of zooming
+    sigma.on("doubleClickNode", ({ node, preventSigmaDefault }) => {
+      const attributes = sigma.getGraph().getNodeAttributes(node);
+      if (isNamespaceNode(attributes)) {
+        preventSigmaDefault();
+        setHoveredNode(null);
+        expandNamespace(attributes.namespace);
+      }
+    });
+
     // Cleanup event listeners on component unmount
     return () => {
       sigma.removeAllListeners();
     };
-  }, [sigma, setHoveredNode]);
+  }, [sigma, setHoveredNode, setSelectedNode, expandNamespace]);
 
   return null;
 };
@@ -1,14 +1,40 @@
 import { useSetSettings, useSigma } from "@react-sigma/core";
 import { Attributes } from "graphology-types";
-import { FC, PropsWithChildren, useEffect } from "react";
+import { FC, PropsWithChildren, useEffect, useMemo } from "react";
 
-import { drawHover, drawLabel } from '@/utils/canvas-utils';
+import { ImpactAnalysis, Subgraph } from '@/types';
+import { drawHover } from '@/utils/canvas-utils';
+import { VIOLATION_EDGE_COLOR } from '@/utils/architecture-utils';
+import { isInNamespace } from '@/utils/cluster-utils';
+import { getImpactColor } from '@/utils/impact-utils';
+import { getRenderSettings } from '@/utils/performance-utils';
 import useDebounce from "@/utils/use-debounce";
 
 const NODE_FADE_COLOR = "#bbb";
 const EDGE_FADE_COLOR = "#eee";
 
-const GraphSettingsController: FC<PropsWithChildren<{ hoveredNode: string | null }>> = ({ children, hoveredNode }) => {
+type GraphSettingsControllerProps = PropsWithChildren<{
+  hoveredNode: string | null;
+  selectedNode: string | null;
+  highlightedSubgraphs: Subgraph[];
+  focusedNamespace: string | null;
+  // Edges breaking the architecture rules, drawn in red
+  violatingEdges: Set<string>;
+  // Classes affected by a change, colored by their distance to the changed classes
+  impact: ImpactAnalysis | null;
+  performanceMode: boolean;
+}>;
+
+const GraphSettingsController: FC<GraphSettingsControllerProps> = ({
+  children,
+  hoveredNode,
+  selectedNode,
+  highlightedSubgraphs,
+  focusedNamespace,
+  violatingEdges,
+  impact,
+  performanceMode
+}) => {
   const sigma = useSigma();
   const setSettings = useSetSettings();
   const graph = sigma.getGraph();
@@ -16,65 +42,91 @@ const GraphSettingsController: FC<PropsWithChildren<{ hoveredNode: string | null
   // Debounce the hovered node value to improve performance
   const debouncedHoveredNode = useDebounce(hoveredNode, 40);
 
+  // Nodes and edges of the highlighted paths or cycles
+  const subgraphNodes = useMemo(() => new Set(highlightedSubgraphs.flatMap((subgraph) => subgraph.nodes)), [highlightedSubgraphs]);
+  const subgraphEdges = useMemo(() => new Set(highlightedSubgraphs.flatMap((subgraph) => subgraph.edges)), [highlightedSubgraphs]);
+
+  // The hovered node takes precedence over the impact of a change and the highlighted paths or cycles,
+  // which take precedence over the selected node: it is then only accented
+  const selection = selectedNode && graph.hasNode(selectedNode) ? selectedNode : null;
+  const hovered = debouncedHoveredNode && graph.hasNode(debouncedHoveredNode) ? debouncedHoveredNode : null;
+  const focusedNode = hovered || (impact || subgraphNodes.size > 0 ? null : selection);
+
   /**
-   * Initialize settings that require the graph and sigma instance
+   * Update node and edge reducers when a node is hovered or selected, when paths or cycles are highlighted,
+   * when a namespace is focused, when edges break the architecture rules, when the impact of a change is analyzed,
+   * or when the performance mode is toggled
    */
   useEffect(() => {
-    const hoveredColor: string = (debouncedHoveredNode && sigma.getNodeDisplayData(debouncedHoveredNode)?.color) || "";
+    const focusedColor: string = (focusedNode && graph.getNodeAttribute(focusedNode, "color")) || "";
+
+    // The reducers run for every node and edge of every frame, so the highlighted nodes are looked up once
+    const focusedNeighbors = focusedNode ? new Set([focusedNode, ...graph.neighbors(focusedNode)]) : null;
+    const namespaceNodes = focusedNamespace !== null
+        ? new Set(graph.filterNodes((node, attributes) => isInNamespace(attributes.namespace ?? "", focusedNamespace)))
+        : null;
 
     setSettings({
-      defaultDrawNodeLabel: drawLabel,
+      ...getRenderSettings(performanceMode),
       defaultDrawNodeHover: drawHover,
       // Node reducer to highlight connections and fade others
       nodeReducer: (node: string, data: Attributes) => {
-        if (debouncedHoveredNode) {
-          return node === debouncedHoveredNode ||
-          graph.hasEdge(node, debouncedHoveredNode) ||
-          graph.hasEdge(debouncedHoveredNode, node)
-              ? { ...data, zIndex: 1 }
+        const highlighted = data.highlighted || node === selection;
+        if (focusedNeighbors) {
+          return focusedNeighbors.has(node)
+              ? { ...data, zIndex: 1, highlighted }
               : { ...data, zIndex: 0, label: "", color: NODE_FADE_COLOR, highlighted: false };
         }
-        return data;
+        if (impact) {
+          // The selected node stays visible when it is not affected
+          const distance = impact.distances.get(node);
+          if (distance !== undefined) {
+            return { ...data, zIndex: 1, color: getImpactColor(distance, impact.maxDistance), highlighted };
+          }
+          return node === selection
+              ? { ...data, zIndex: 1, highlighted }
+              : { ...data, zIndex: 0, label: "", color: NODE_FADE_COLOR, highlighted: false };
+        }
+        if (subgraphNodes.size > 0) {
+          return subgraphNodes.has(node) || node === selection
+              ? { ...data, zIndex: 1, highlighted }
+              : { ...data, zIndex: 0, label: "", color: NODE_FADE_COLOR, highlighted: false };
+        }
+        if (namespaceNodes) {
+          return namespaceNodes.has(node)
+              ? { ...data, zIndex: 1, highlighted }
+              : { ...data, zIndex: 0, label: "", color: NODE_FADE_COLOR, highlighted: false };
+        }
+        return highlighted ? { ...data, highlighted } : data;
       },
       // Edge reducer to highlight connections and hide others
-      edgeReducer: (edge: string, data: Attributes) => {
-        if (debouncedHoveredNode) {
-          return graph.hasExtremity(edge, debouncedHoveredNode)
-              ? { ...data, color: hoveredColor, size: 4 }
+      edgeReducer: (edge: string, attributes: Attributes) => {
+        const violating = violatingEdges.has(edge);
+        const data = violating ? { ...attributes, color: VIOLATION_EDGE_COLOR } : attributes;
+        if (focusedNode) {
+          return graph.hasExtremity(edge, focusedNode)
+              ? { ...data, color: violating ? VIOLATION_EDGE_COLOR : focusedColor, size: 4 }
+              : { ...data, color: EDGE_FADE_COLOR, hidden: true };
+        }
+        if (impact) {
+          return impact.distances.has(graph.source(edge)) && impact.distances.has(graph.target(edge))
+              ? data
+              : { ...data, color: EDGE_FADE_COLOR, hidden: true };
+        }
+        if (subgraphEdges.size > 0) {
+          return subgraphEdges.has(edge)
+              ? { ...data, size: 4, zIndex: 1 }
+              : { ...data, color: EDGE_FADE_COLOR, hidden: true };
+        }
+        if (namespaceNodes) {
+          return namespaceNodes.has(graph.source(edge)) && namespaceNodes.has(graph.target(edge))
+              ? data
               : { ...data, color: EDGE_FADE_COLOR, hidden: true };
         }
         return data;
       },
     });
-  }, [sigma, graph, debouncedHoveredNode]);
-
-  /**
-   * Update node and edge reducers when a node is hovered
-   */
-  useEffect(() => {
-    const hoveredColor: string = (debouncedHoveredNode && sigma.getNodeDisplayData(debouncedHoveredNode)?.color) || "";
-
-    sigma.setSetting(
-        "nodeReducer",
-        debouncedHoveredNode
-            ? (node, data) =>
-                node === debouncedHoveredNode ||
-                graph.hasEdge(node, debouncedHoveredNode) ||
-                graph.hasEdge(debouncedHoveredNode, node)
-                    ? { ...data, zIndex: 1 }
-                    : { ...data, zIndex: 0, label: "", color: NODE_FADE_COLOR, highlighted: false }
-            : null,
-    );
-    sigma.setSetting(
-        "edgeReducer",
-        debouncedHoveredNode
-            ? (edge, data) =>
-                graph.hasExtremity(edge, debouncedHoveredNode)
-                    ? { ...data, color: hoveredColor, size: 4 }
-                    : { ...data, color: EDGE_FADE_COLOR, hidden: true }
-            : null,
-    );
-  }, [debouncedHoveredNode]);
+  }, [sigma, graph, focusedNode, selection, subgraphNodes, subgraphEdges, focusedNamespace, violatingEdges, impact, performanceMode]);
 
   return <>{children}</>;
 };
@@ -0,0 +1,114 @@
+import { FC, FormEvent, useState } from "react";
+import { BiChevronDown, BiChevronUp, BiTrash } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { RecentGraph } from '@/types';
+
+interface GraphSourcePanelProps {
+  recentGraphs: RecentGraph[];
+  sourceError: string | null;
+  loadDefaultGraph: () => void;
+  liveReload: boolean;
+  setLiveReload: (liveReload: boolean) => void;
+  loadGraphFromUrl: (url: string) => void;
+  loadGraphFromFile: (file: File) => void;
+  loadRecentGraph: (id: string) => void;
+  forgetRecentGraph: (id: string) => void;
+}
+
+const GraphSourcePanel: FC<GraphSourcePanelProps> = ({
+  recentGraphs,
+  sourceError,
+  loadDefaultGraph,
+  liveReload,
+  setLiveReload,
+  loadGraphFromUrl,
+  loadGraphFromFile,
+  loadRecentGraph,
+  forgetRecentGraph
+}) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const [url, setUrl] = useState('');
+
+  const submitUrl = (e: FormEvent) => {
+    e.preventDefault();
+    if (url.trim()) {
+      loadGraphFromUrl(url.trim());
+    }
+  };
+
+  return (
+      <div className="panel graph-source">
+        <h2>
+          Graph Source
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <p className="text-muted">Drop a graph.json or NDJSON file anywhere on the page, or choose one:</p>
+          <p>
+            <input
+                type="file"
+                id="graph-source-file"
+                accept=".json,.ndjson,.jsonl,application/json,application/x-ndjson"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadGraphFromFile(file);
+                  e.target.value = '';
+                }}
+            />
+          </p>
+          <form onSubmit={submitUrl}>
+            <input
+                type="url"
+                placeholder="https://example.com/graph.json"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+            />
+            <div className="buttons">
+              <button type="submit" className="btn" disabled={!url.trim()}>Load URL</button>
+              <button type="button" className="btn" onClick={loadDefaultGraph}>Server graph</button>
+            </div>
+          </form>
+          <p>
+            <label>
+              <input type="checkbox" checked={liveReload} onChange={(e) => setLiveReload(e.target.checked)} />{" "}
+              Reload the server graph when it changes
+            </label>
+          </p>
+          {sourceError && <p className="source-error">{sourceError}</p>}
+
+          {recentGraphs.length > 0 && (
+              <>
+                <p className="text-muted">Recently loaded graphs:</p>
+                <ul>
+                  {recentGraphs.map((recentGraph) => (
+                      <li key={recentGraph.id} className="recent-graph">
+                        <span
+                            className="mouse-pointer"
+                            title={`Loaded on ${new Date(recentGraph.loadedAt).toLocaleString()}`}
+                            onClick={() => loadRecentGraph(recentGraph.id)}
+                        >
+                          {recentGraph.name}{" "}
+                          <span className="text-muted text-small">
+                            ({recentGraph.nodeCount} nodes, {recentGraph.edgeCount} edges)
+                          </span>
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() => forgetRecentGraph(recentGraph.id)}
+                            title="Forget this graph"
+                        >
+                          <BiTrash />
+                        </button>
+                      </li>
+                  ))}
+                </ul>
+              </>
+          )}
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default GraphSourcePanel;
@@ -0,0 +1,232 @@
+import { FC, useMemo, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronRight } from "react-icons/bi";
+import { GrClose } from "react-icons/gr";
+import { FiltersState, GraphView, HierarchyTreeNode, InheritedNode } from '@/types';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+import { EDGE_TYPE_COLORS, EDGE_TYPE_LABELS, NODE_TYPE_COLORS } from '@/utils/graph-utils';
+import { buildInheritanceHierarchy, layoutHierarchyDiagram } from '@/utils/hierarchy-utils';
+import { animateToNode } from '@/utils/sigma-utils';
+import NodeAutocomplete from "./NodeAutocomplete";
+
+interface HierarchyViewProps {
+  graphRevision: number;
+  filters: FiltersState;
+  selectedNode: string | null;
+  setSelectedNode: (node: string | null) => void;
+  setView: (view: GraphView) => void;
+}
+
+// Size of the boxes of the diagram, and of the space around them, in pixels
+const BOX_WIDTH = 150;
+const BOX_HEIGHT = 28;
+const COLUMN_WIDTH = 170;
+const ROW_HEIGHT = 70;
+const MAX_BOX_LABEL_LENGTH = 20;
+
+// Dash patterns of the edges, matching the edge programs of the graph
+const EDGE_DASHES: { [type: string]: string | undefined } = {
+  'implements': '6 4',
+  'usesTrait': '2 3'
+};
+
+// Labels of the children of a node, by its type
+const CHILDREN_LABELS: { [type: string]: string } = {
+  'class': 'Subclasses',
+  'interface': 'Sub-interfaces and implementors',
+  'trait': 'Classes and traits using it'
+};
+
+const getTypeColor = (type: string): string => NODE_TYPE_COLORS[type as keyof typeof NODE_TYPE_COLORS] || '#666';
+
+interface HierarchyTreeItemProps {
+  treeNode: HierarchyTreeNode;
+  getLabel: (node: string) => string;
+  getType: (node: string) => string;
+  onSelectNode: (node: string) => void;
+}
+
+const HierarchyTreeItem: FC<HierarchyTreeItemProps> = ({ treeNode, getLabel, getType, onSelectNode }) => {
+  const [open, setOpen] = useState(true);
+  const expandable = treeNode.children.length > 0;
+
+  return (
+      <li>
+        <div className="dep-item">
+          <button type="button" className="tree-toggle" onClick={() => setOpen(!open)} disabled={!expandable}>
+            {expandable && (open ? <BiChevronDown /> : <BiChevronRight />)}
+          </button>
+          <span className="circle" style={{ backgroundColor: getTypeColor(getType(treeNode.node)) }}></span>
+          <span className="dep-label mouse-pointer" title={treeNode.node} onClick={() => onSelectNode(treeNode.node)}>
+            {getLabel(treeNode.node)}
+          </span>
+          {treeNode.edgeType && <span className="text-muted text-small">{EDGE_TYPE_LABELS[treeNode.edgeType]}</span>}
+        </div>
+        {open && expandable && (
+            <ul className="dependency-tree">
+              {treeNode.children.map((child) => (
+                  <HierarchyTreeItem key={child.node} treeNode={child} getLabel={getLabel} getType={getType} onSelectNode={onSelectNode} />
+              ))}
+            </ul>
+        )}
+      </li>
+  );
+};
+
+/**
+ * Inheritance hierarchy of the selected class, interface or trait: the classes or interfaces it extends,
+ * the interfaces it implements and the traits it uses, directly or through its ancestors, and all the
+ * classes inheriting from it, as an indented tree and as a top-down diagram.
+ */
+const HierarchyView: FC<HierarchyViewProps> = ({ graphRevision, filters, selectedNode, setSelectedNode, setView }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+
+  const node = selectedNode && graph.hasNode(selectedNode) && !isNamespaceNode(graph.getNodeAttributes(selectedNode))
+      ? selectedNode
+      : null;
+
+  const hierarchy = useMemo(() => node ? buildInheritanceHierarchy(graph, node) : null, [graph, graphRevision, node]);
+  const diagram = useMemo(() => hierarchy ? layoutHierarchyDiagram(graph, hierarchy) : null, [graph, hierarchy]);
+
+  const getLabel = (item: string): string => graph.getNodeAttribute(item, 'label') || item;
+  const getType = (item: string): string => graph.getNodeAttribute(item, 'entityType');
+
+  const selectNode = (item: string) => {
+    setSelectedNode(item);
+    animateToNode(sigma, item);
+  };
+
+  const renderNode = (item: string) => (
+      <span className="dep-item">
+        <span className="circle" style={{ backgroundColor: getTypeColor(getType(item)) }}></span>
+        <span className="dep-label mouse-pointer" title={item} onClick={() => selectNode(item)}>{getLabel(item)}</span>
+      </span>
+  );
+
+  const renderInherited = (items: InheritedNode[]) => (
+      <ul className="hierarchy-list">
+        {items.map(({ node: item, via }) => (
+            <li key={item}>
+              {renderNode(item)}
+              {via && <span className="text-muted text-small">via {getLabel(via)}</span>}
+            </li>
+        ))}
+      </ul>
+  );
+
+  const positions = useMemo(
+      () => new Map(diagram?.nodes.map(({ node: item, x, y }) => [item, { x: x * COLUMN_WIDTH + COLUMN_WIDTH / 2, y: y * ROW_HEIGHT + ROW_HEIGHT / 2 }])),
+      [diagram]
+  );
+
+  return (
+      <div className="hierarchy-view">
+        <div className="hierarchy-header">
+          <NodeAutocomplete listId="hierarchy-node" placeholder="Explore the hierarchy of..." filters={filters} onSelect={(item) => item && selectNode(item)} />
+          {hierarchy && (
+              <dl className="hierarchy-metrics">
+                <dt title="Depth of inheritance tree">DIT</dt><dd>{hierarchy.depth}</dd>
+                <dt title="Number of children">NOC</dt><dd>{hierarchy.childCount}</dd>
+                <dt title="Number of classes, interfaces and traits inheriting from it">Descendants</dt><dd>{hierarchy.descendantCount}</dd>
+              </dl>
+          )}
+          <button type="button" className="hierarchy-close" onClick={() => setView('graph')} title="Back to the graph">
+            <GrClose />
+          </button>
+        </div>
+
+        {!hierarchy || !diagram ? (
+            <p className="text-muted">Select a class, an interface or a trait to explore its inheritance hierarchy.</p>
+        ) : (
+            <div className="hierarchy-body">
+              <div className="hierarchy-tree">
+                <h3>{getLabel(hierarchy.node)}</h3>
+
+                {getType(hierarchy.node) !== 'trait' && (
+                    <>
+                      <p className="text-muted">{getType(hierarchy.node) === 'interface' ? 'Extended interfaces' : 'Parent classes'}:</p>
+                      {hierarchy.ancestors.length > 0 ? (
+                          <ul className="hierarchy-list">
+                            {hierarchy.ancestors.map((ancestor) => <li key={ancestor}>{renderNode(ancestor)}</li>)}
+                          </ul>
+                      ) : <p className="text-small">None</p>}
+                    </>
+                )}
+
+                {getType(hierarchy.node) === 'class' && (
+                    <>
+                      <p className="text-muted">Implemented interfaces:</p>
+                      {hierarchy.interfaces.length > 0 ? renderInherited(hierarchy.interfaces) : <p className="text-small">None</p>}
+                    </>
+                )}
+
+                {getType(hierarchy.node) !== 'interface' && (
+                    <>
+                      <p className="text-muted">Used traits:</p>
+                      {hierarchy.traits.length > 0 ? renderInherited(hierarchy.traits) : <p className="text-small">None</p>}
+                    </>
+                )}
+
+                <p className="text-muted">{CHILDREN_LABELS[getType(hierarchy.node)] || 'Children'}:</p>
+                {hierarchy.descendants.children.length > 0 ? (
+                    <ul className="dependency-tree">
+                      {hierarchy.descendants.children.map((child) => (
+                          <HierarchyTreeItem key={child.node} treeNode={child} getLabel={getLabel} getType={getType} onSelectNode={selectNode} />
+                      ))}
+                    </ul>
+                ) : <p className="text-small">None</p>}
+              </div>
+
+              <div className="hierarchy-diagram">
+                <svg width={diagram.width * COLUMN_WIDTH} height={diagram.height * ROW_HEIGHT}>
+                  <defs>
+                    <marker id="hierarchy-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+                      <path d="M 0 0 L 10 5 L 0 10 z" fill="context-stroke" />
+                    </marker>
+                  </defs>
+                  {diagram.edges.map(({ source, target, edgeType }) => {
+                    const from = positions.get(source)!;
+                    const to = positions.get(target)!;
+                    const upward = to.y < from.y;
+                    return (
+                        <line
+                            key={`${source}->${target}`}
+                            x1={from.x}
+                            y1={from.y + (upward ? -BOX_HEIGHT / 2 : BOX_HEIGHT / 2)}
+                            x2={to.x}
+                            y2={to.y + (upward ? BOX_HEIGHT / 2 : -BOX_HEIGHT / 2)}
+                            stroke={EDGE_TYPE_COLORS[edgeType as keyof typeof EDGE_TYPE_COLORS] || '#adb5bd'}
+                            strokeWidth={1.5}
+                            strokeDasharray={EDGE_DASHES[edgeType]}
+                            markerEnd="url(#hierarchy-arrow)"
+                        />
+                    );
+                  })}
+                  {diagram.nodes.map(({ node: item }) => {
+                    const { x, y } = positions.get(item)!;
+                    const label = getLabel(item);
+                    return (
+                        <g
+                            key={item}
+                            className={`hierarchy-box mouse-pointer ${item === hierarchy.node ? 'root' : ''}`}
+                            transform={`translate(${x - BOX_WIDTH / 2}, ${y - BOX_HEIGHT / 2})`}
+                            onClick={() => selectNode(item)}
+                        >
+                          <title>{item}</title>
+                          <rect width={BOX_WIDTH} height={BOX_HEIGHT} rx={3} stroke={getTypeColor(getType(item))} />
+                          <text x={BOX_WIDTH / 2} y={BOX_HEIGHT / 2} textAnchor="middle" dominantBaseline="central">
+                            {label.length > MAX_BOX_LABEL_LENGTH ? `${label.substring(0, MAX_BOX_LABEL_LENGTH - 1)}…` : label}
+                          </text>
+                        </g>
+                    );
+                  })}
+                </svg>
+              </div>
+            </div>
+        )}
+      </div>
+  );
+};
+
+export default HierarchyView;
@@ -0,0 +1,202 @@
+import { FC, useEffect, useMemo, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronUp, BiDownload, BiTrash } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { FiltersState, ImpactAnalysis } from '@/types';
+import { downloadFile } from '@/utils/export-utils';
+import { EDGE_TYPE_COLORS, EDGE_TYPE_LABELS } from '@/utils/graph-utils';
+import { computeImpact, exportImpactToCsv, exportImpactToText, getImpactColor } from '@/utils/impact-utils';
+import { animateToNode, animateToNodes } from '@/utils/sigma-utils';
+import NodeAutocomplete from "./NodeAutocomplete";
+
+interface ImpactPanelProps {
+  graphRevision: number;
+  filters: FiltersState;
+  selectedNode: string | null;
+  setImpact: (impact: ImpactAnalysis | null) => void;
+  setSelectedNode: (node: string | null) => void;
+}
+
+// Number of namespaces listed with their number of affected classes
+const MAX_DISPLAYED_NAMESPACES = 10;
+
+const ImpactPanel: FC<ImpactPanelProps> = ({ graphRevision, filters, selectedNode, setImpact, setSelectedNode }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(true);
+  const [chosenNodes, setChosenNodes] = useState<string[]>([]);
+  const [edgeTypes, setEdgeTypes] = useState<{ [key: string]: boolean }>({
+    'extends': true,
+    'implements': true,
+    'usesTrait': true,
+    'use': true
+  });
+
+  // The chosen classes that were removed from the graph, or belong to another one, are left out
+  const changedNodes = useMemo(
+      () => chosenNodes.filter((node) => graph.hasNode(node)),
+      [graph, graphRevision, chosenNodes]
+  );
+
+  const impact = useMemo(
+      () => changedNodes.length > 0 ? computeImpact(graph, changedNodes, edgeTypes) : null,
+      [graph, graphRevision, changedNodes, edgeTypes]
+  );
+
+  // Number of affected classes at every distance, the changed classes being at 0
+  const distanceCounts = useMemo(() => {
+    const counts = new Array<number>(impact ? impact.maxDistance + 1 : 0).fill(0);
+    impact?.distances.forEach((distance) => counts[distance]++);
+    return counts;
+  }, [impact]);
+
+  const affectedCount = impact ? impact.distances.size - changedNodes.length : 0;
+
+  // Color the affected classes on the graph
+  useEffect(() => setImpact(impact), [impact, setImpact]);
+
+  // Clear the highlight when the panel is unmounted
+  useEffect(() => () => setImpact(null), [setImpact]);
+
+  const addNode = (node: string | null) => {
+    if (node && graph.hasNode(node) && !changedNodes.includes(node)) {
+      setChosenNodes([...changedNodes, node]);
+    }
+  };
+
+  const toggleEdgeType = (type: string) => {
+    setEdgeTypes({ ...edgeTypes, [type]: !edgeTypes[type] });
+  };
+
+  const showNode = (node: string) => {
+    setSelectedNode(node);
+    animateToNode(sigma, node);
+  };
+
+  const getLabel = (node: string): string => graph.getNodeAttribute(node, 'label') || node;
+
+  return (
+      <div className="panel impact">
+        <h2>
+          Impact Analysis
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <p className="text-muted">Find every class depending, directly or not, on the classes you are about to change:</p>
+          <NodeAutocomplete listId="impact-node" placeholder="Add a class..." filters={filters} onSelect={addNode} />
+          <div className="buttons">
+            <button
+                type="button"
+                className="btn"
+                onClick={() => addNode(selectedNode)}
+                disabled={!selectedNode || changedNodes.includes(selectedNode)}
+            >
+              Add the selected class
+            </button>
+          </div>
+
+          {changedNodes.length > 0 && (
+              <ul className="impact-nodes">
+                {changedNodes.map((node) => (
+                    <li key={node}>
+                      <span className="mouse-pointer" title={node} onClick={() => showNode(node)}>{getLabel(node)}</span>
+                      <button
+                          type="button"
+                          onClick={() => setChosenNodes(changedNodes.filter((item) => item !== node))}
+                          title="Remove this class"
+                      >
+                        <BiTrash />
+                      </button>
+                    </li>
+                ))}
+              </ul>
+          )}
+
+          <p className="text-muted">Follow edge types:</p>
+          <ul>
+            {Object.entries(edgeTypes).map(([type, enabled]) => (
+                <li key={`impact-edge-${type}`} className="caption-row">
+                  <input
+                      type="checkbox"
+                      id={`impact-edge-${type}`}
+                      checked={enabled}
+                      onChange={() => toggleEdgeType(type)}
+                  />
+                  <label htmlFor={`impact-edge-${type}`}>
+                    <span
+                        className="circle"
+                        style={{ backgroundColor: EDGE_TYPE_COLORS[type as keyof typeof EDGE_TYPE_COLORS] || '#666' }}
+                    ></span>
+                    <span className="node-label">{EDGE_TYPE_LABELS[type]}</span>
+                  </label>
+                </li>
+            ))}
+          </ul>
+
+          {impact && (
+              <>
+                <p>
+                  <strong>{affectedCount} class{affectedCount === 1 ? '' : 'es'}</strong> affected
+                  {impact.maxDistance > 0 && `, up to ${impact.maxDistance} hop${impact.maxDistance > 1 ? 's' : ''} away`}
+                </p>
+                <ul className="impact-distances">
+                  {distanceCounts.map((count, distance) => (
+                      <li key={distance}>
+                        <span className="circle" style={{ backgroundColor: getImpactColor(distance, impact.maxDistance) }}></span>{" "}
+                        {distance === 0 ? 'Changed' : `${distance} hop${distance > 1 ? 's' : ''}`}{" "}
+                        <span className="text-muted text-small">({count})</span>
+                      </li>
+                  ))}
+                </ul>
+
+                {impact.namespaces.length > 0 && (
+                    <table className="impact-namespaces">
+                      <thead>
+                        <tr><th>Namespace</th><th>Affected</th></tr>
+                      </thead>
+                      <tbody>
+                        {impact.namespaces.slice(0, MAX_DISPLAYED_NAMESPACES).map(({ namespace, count }) => (
+                            <tr
+                                key={namespace}
+                                className="mouse-pointer"
+                                onClick={() => animateToNodes(sigma, Array.from(impact.distances.keys())
+                                    .filter((node) => (graph.getNodeAttribute(node, 'namespace') ?? '') === namespace))}
+                            >
+                              <td>{namespace || <span className="text-muted">(global)</span>}</td>
+                              <td>{count}</td>
+                            </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                )}
+                {impact.namespaces.length > MAX_DISPLAYED_NAMESPACES && (
+                    <p className="text-muted text-small">and {impact.namespaces.length - MAX_DISPLAYED_NAMESPACES} more namespaces</p>
+                )}
+
+                <div className="buttons">
+                  <button
+                      type="button"
+                      className="btn"
+                      onClick={() => downloadFile(exportImpactToCsv(graph, impact), 'dephpviz-impact.csv', 'text/csv')}
+                  >
+                    <BiDownload /> CSV
+                  </button>
+                  <button
+                      type="button"
+                      className="btn"
+                      onClick={() => downloadFile(exportImpactToText(graph, impact), 'dephpviz-impact.txt', 'text/plain')}
+                  >
+                    <BiDownload /> Text
+                  </button>
+                  <button type="button" className="btn" onClick={() => setChosenNodes([])}>Clear</button>
+                </div>
+              </>
+          )}
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default ImpactPanel;
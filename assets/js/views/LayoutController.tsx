@@ -0,0 +1,137 @@
+import { useSigma } from "@react-sigma/core";
+import { FC, MutableRefObject, useEffect, useRef } from "react";
+import { animateNodes } from "sigma/utils";
+import { LayoutName, LayoutOptions, NodePositions } from '@/types';
+import { computeLayoutInWorker } from '@/services/layout-worker-client';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+import { computeLayout, DEFAULT_LAYOUT_OPTIONS, getLayoutKey, WORKER_LAYOUTS } from '@/utils/layout-utils';
+import { animateToNodes } from '@/utils/sigma-utils';
+
+type LayoutControllerProps = {
+  layout: LayoutName;
+  layoutOptions: LayoutOptions;
+  // Positions applied by the custom layout, e.g. from a saved layout
+  customPositions: NodePositions | null;
+  // Nodes of the focused neighborhood, which are laid out alone
+  focusNodes: Set<string> | null;
+  // Key of the layout the current positions come from, shared with the live ForceAtlas2 control
+  appliedLayoutKey: MutableRefObject<string>;
+  // Force layouts are computed in a worker in performance mode, reporting their progress
+  performanceMode: boolean;
+  setLayoutProgress: (progress: number | null) => void;
+};
+
+// Duration of the transition between two layouts, in milliseconds
+const LAYOUT_TRANSITION_DURATION = 600;
+
+/**
+ * Apply the chosen layout, animating the nodes from their current positions
+ */
+const LayoutController: FC<LayoutControllerProps> = ({
+  layout,
+  layoutOptions,
+  customPositions,
+  focusNodes,
+  appliedLayoutKey,
+  performanceMode,
+  setLayoutProgress
+}) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+
+  // Stops the running transition
+  const cancelTransition = useRef<(() => void) | null>(null);
+
+  // Stops the layout running in the worker
+  const cancelWorker = useRef<(() => void) | null>(null);
+
+  // Custom positions that were last applied, so that new ones are applied even if the layout key is the same
+  const appliedCustomPositions = useRef<NodePositions | null>(null);
+
+  // Focused neighborhood the positions were computed for
+  const appliedFocusNodes = useRef<Set<string> | null>(null);
+
+  // The positions of a new graph come from the circular layout of initializeGraph
+  useEffect(() => {
+    appliedLayoutKey.current = getLayoutKey('circular', DEFAULT_LAYOUT_OPTIONS);
+    appliedFocusNodes.current = null;
+  }, [graph, appliedLayoutKey]);
+
+  useEffect(() => {
+    const key = getLayoutKey(layout, layoutOptions);
+    const newCustomPositions = layout === 'custom' && customPositions !== appliedCustomPositions.current;
+    const newFocus = focusNodes !== appliedFocusNodes.current;
+    if (key === appliedLayoutKey.current && !newCustomPositions && !newFocus) return;
+    appliedLayoutKey.current = key;
+    appliedCustomPositions.current = customPositions;
+    appliedFocusNodes.current = focusNodes;
+
+    const applyPositions = (positions: NodePositions) => {
+      // The members of a namespace node are moved by as much as it was moved when it is expanded,
+      // so its origin follows the layout
+      Object.entries(positions).forEach(([node, { x, y }]) => {
+        if (isNamespaceNode(graph.getNodeAttributes(node))) {
+          graph.mergeNodeAttributes(node, { originX: x, originY: y });
+        }
+      });
+
+      // The bounding box frozen while dragging nodes does not fit the new positions
+      sigma.setCustomBBox(null);
+
+      if (cancelTransition.current) cancelTransition.current();
+      cancelTransition.current = animateNodes(graph, positions, {
+        duration: LAYOUT_TRANSITION_DURATION,
+        easing: "quadraticInOut"
+      }, () => {
+        cancelTransition.current = null;
+
+        // Frame the focused neighborhood, or the whole graph when the focus is left
+        if (newFocus) {
+          sigma.refresh();
+          if (focusNodes) {
+            animateToNodes(sigma, Array.from(focusNodes));
+          } else {
+            sigma.getCamera().animatedReset({ duration: LAYOUT_TRANSITION_DURATION });
+          }
+        }
+      });
+    };
+
+    // A layout still running in the worker is replaced by the new one
+    if (cancelWorker.current) {
+      cancelWorker.current();
+      cancelWorker.current = null;
+      setLayoutProgress(null);
+    }
+
+    if (performanceMode && WORKER_LAYOUTS.includes(layout)) {
+      setLayoutProgress(0);
+      const task = computeLayoutInWorker(graph, layout, layoutOptions, focusNodes, setLayoutProgress);
+      cancelWorker.current = task.cancel;
+      task.promise
+          .then(applyPositions)
+          .catch((error) => console.error('Failed to compute the layout:', error))
+          .finally(() => {
+            if (cancelWorker.current === task.cancel) {
+              cancelWorker.current = null;
+              setLayoutProgress(null);
+            }
+          });
+    } else {
+      applyPositions(computeLayout(graph, layout, layoutOptions, customPositions, focusNodes));
+    }
+  }, [sigma, graph, layout, layoutOptions, customPositions, focusNodes, appliedLayoutKey, performanceMode, setLayoutProgress]);
+
+  // Stop the transition and the worker when the graph is replaced or the controller is unmounted
+  useEffect(() => () => {
+    if (cancelTransition.current) cancelTransition.current();
+    cancelTransition.current = null;
+    if (cancelWorker.current) cancelWorker.current();
+    cancelWorker.current = null;
+    setLayoutProgress(null);
+  }, [graph, setLayoutProgress]);
+
+  return null;
+};
+
+export default LayoutController;
@@ -0,0 +1,253 @@
+import { FC, FormEvent, useEffect, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronUp, BiDownload, BiSave, BiTrash } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { AttributeUpdatePayload, Attributes } from "graphology-types";
+import { GraphDiagnostic, LayoutName, LayoutOptions, NodePositions, SavedLayout } from '@/types';
+import { deleteSavedLayout, listSavedLayouts, saveLayout } from '@/services/layout-store';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+import { downloadFile } from '@/utils/export-utils';
+import { createSavedLayout, LAYOUT_LABELS, parseSavedLayout } from '@/utils/layout-utils';
+
+interface LayoutPanelProps {
+  layout: LayoutName;
+  setLayout: (layout: LayoutName) => void;
+  layoutOptions: LayoutOptions;
+  setLayoutOptions: (options: LayoutOptions) => void;
+  applyCustomPositions: (positions: NodePositions) => void;
+  reportDiagnostic: (diagnostic: GraphDiagnostic) => void;
+}
+
+// Layouts whose result depends on the seed
+const SEEDED_LAYOUTS: LayoutName[] = ['namespaces', 'force'];
+
+const DEFAULT_LAYOUT_NAME = 'dephpviz-layout';
+
+const getFileName = (name: string): string => `${name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || DEFAULT_LAYOUT_NAME}.json`;
+
+const LayoutPanel: FC<LayoutPanelProps> = ({ layout, setLayout, layoutOptions, setLayoutOptions, applyCustomPositions, reportDiagnostic }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(true);
+  const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>([]);
+  const [layoutName, setLayoutName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pinnedCount, setPinnedCount] = useState(0);
+
+  // List the layouts saved on the previous visits
+  useEffect(() => {
+    try {
+      setSavedLayouts(listSavedLayouts());
+    } catch (e) {
+      reportDiagnostic({
+        severity: 'warning',
+        code: 'storage-failed',
+        message: `Could not read the saved layouts: ${e instanceof Error ? e.message : String(e)}`
+      });
+    }
+  }, [reportDiagnostic]);
+
+  // Count the pinned nodes whenever a node is pinned or unpinned, e.g. by dragging it
+  useEffect(() => {
+    const countPinnedNodes = () => {
+      setPinnedCount(graph.filterNodes((node, attributes) => !!attributes.fixed).length);
+    };
+    const onNodeAttributesUpdated = (payload: AttributeUpdatePayload<Attributes>) => {
+      if (payload.type === 'set' && payload.name === 'fixed') countPinnedNodes();
+    };
+
+    countPinnedNodes();
+    graph.on('nodeAttributesUpdated', onNodeAttributesUpdated);
+    return () => {
+      graph.off('nodeAttributesUpdated', onNodeAttributesUpdated);
+    };
+  }, [graph]);
+
+  const updateSavedLayouts = (update: () => SavedLayout[]) => {
+    try {
+      setSavedLayouts(update());
+      setError(null);
+    } catch (e) {
+      setError(`Could not save the layout: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const saveCurrentLayout = (e: FormEvent) => {
+    e.preventDefault();
+    if (!layoutName.trim()) return;
+
+    updateSavedLayouts(() => saveLayout(createSavedLayout(graph, layoutName.trim())));
+    setMessage(`Layout "${layoutName.trim()}" saved`);
+    setLayoutName('');
+  };
+
+  // Only the nodes whose id is in the saved layout are moved and pinned
+  const applySavedLayout = (savedLayout: SavedLayout) => {
+    const pinnedNodes = new Set(savedLayout.pinnedNodes);
+    let matched = 0;
+    let total = 0;
+    graph.forEachNode((node, attributes) => {
+      if (isNamespaceNode(attributes)) return;
+      total++;
+      if (node in savedLayout.positions) matched++;
+      graph.setNodeAttribute(node, 'fixed', pinnedNodes.has(node));
+    });
+
+    applyCustomPositions(savedLayout.positions);
+    setMessage(`Layout "${savedLayout.name}" applied to ${matched} of ${total} nodes`);
+    setError(null);
+  };
+
+  const importLayout = async (file: File) => {
+    try {
+      const savedLayout = parseSavedLayout(JSON.parse(await file.text()), file.name.replace(/\.json$/i, ''));
+      updateSavedLayouts(() => saveLayout(savedLayout));
+      applySavedLayout(savedLayout);
+    } catch (e) {
+      setMessage(null);
+      setError(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const downloadLayout = (savedLayout: SavedLayout) => {
+    downloadFile(JSON.stringify(savedLayout, null, 2), getFileName(savedLayout.name), 'application/json');
+  };
+
+  const unpinAll = () => {
+    graph.forEachNode((node, attributes) => {
+      if (attributes.fixed) graph.setNodeAttribute(node, 'fixed', false);
+    });
+  };
+
+  return (
+      <div className="panel layout">
+        <h2>
+          Layout
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <p>
+            <label htmlFor="layout-name"><strong>Arrange nodes:</strong></label>{" "}
+            <select id="layout-name" value={layout} onChange={(e) => setLayout(e.target.value as LayoutName)}>
+              {Object.entries(LAYOUT_LABELS)
+                  .filter(([key]) => key !== 'custom' || layout === 'custom')
+                  .map(([key, label]) => (
+                      <option key={key} value={key}>{label}</option>
+                  ))}
+            </select>
+          </p>
+          {layout === 'hierarchical' && (
+              <p className="text-muted">Parents are placed above the classes that extend or implement them.</p>
+          )}
+          {SEEDED_LAYOUTS.includes(layout) && (
+              <p>
+                <label htmlFor="layout-seed"><strong>Seed:</strong></label>{" "}
+                <input
+                    type="number"
+                    id="layout-seed"
+                    min={0}
+                    value={layoutOptions.seed}
+                    onChange={(e) => setLayoutOptions({ ...layoutOptions, seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                />
+              </p>
+          )}
+          <ul>
+            <li className="caption-row">
+              <input
+                  type="checkbox"
+                  id="layout-noverlap"
+                  checked={layoutOptions.noverlap}
+                  onChange={() => setLayoutOptions({ ...layoutOptions, noverlap: !layoutOptions.noverlap })}
+              />
+              <label htmlFor="layout-noverlap">
+                <span className="circle"></span>
+                <span className="node-label">Prevent overlapping nodes</span>
+              </label>
+            </li>
+          </ul>
+          <p className="text-muted">
+            Drag nodes to move them, moved nodes are pinned and keep their position when another layout is applied.
+          </p>
+          {pinnedCount > 0 && (
+              <p>
+                {pinnedCount} pinned node{pinnedCount > 1 ? 's' : ''}{" "}
+                <button type="button" className="btn" onClick={unpinAll}>Unpin all</button>
+              </p>
+          )}
+
+          <form onSubmit={saveCurrentLayout}>
+            <input
+                type="text"
+                placeholder="Layout name"
+                value={layoutName}
+                onChange={(e) => setLayoutName(e.target.value)}
+            />
+            <div className="buttons">
+              <button type="submit" className="btn" disabled={!layoutName.trim()}>
+                <BiSave /> Save layout
+              </button>
+              <button
+                  type="button"
+                  className="btn"
+                  onClick={() => downloadLayout(createSavedLayout(graph, layoutName.trim() || DEFAULT_LAYOUT_NAME))}
+              >
+                <BiDownload /> Download
+              </button>
+            </div>
+          </form>
+          <p>
+            <label htmlFor="layout-file" className="text-muted">Apply a layout file:</label>{" "}
+            <input
+                type="file"
+                id="layout-file"
+                accept=".json,application/json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importLayout(file);
+                  e.target.value = '';
+                }}
+            />
+          </p>
+          {error && <p className="source-error">{error}</p>}
+          {message && <p className="text-muted">{message}</p>}
+
+          {savedLayouts.length > 0 && (
+              <>
+                <p className="text-muted">Saved layouts:</p>
+                <ul>
+                  {savedLayouts.map((savedLayout) => (
+                      <li key={savedLayout.name} className="saved-layout">
+                        <span
+                            className="mouse-pointer"
+                            title={`Saved on ${new Date(savedLayout.savedAt).toLocaleString()}`}
+                            onClick={() => applySavedLayout(savedLayout)}
+                        >
+                          {savedLayout.name}{" "}
+                          <span className="text-muted text-small">({Object.keys(savedLayout.positions).length} nodes)</span>
+                        </span>
+                        <span>
+                          <button type="button" onClick={() => downloadLayout(savedLayout)} title="Download this layout">
+                            <BiDownload />
+                          </button>
+                          <button
+                              type="button"
+                              onClick={() => updateSavedLayouts(() => deleteSavedLayout(savedLayout.name))}
+                              title="Delete this layout"
+                          >
+                            <BiTrash />
+                          </button>
+                        </span>
+                      </li>
+                  ))}
+                </ul>
+              </>
+          )}
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default LayoutPanel;
@@ -0,0 +1,108 @@
+import { useSigma } from "@react-sigma/core";
+import { FC, useEffect, useRef } from "react";
+import { DecodedGraphData, GraphDiagnostic, GraphReloadChanges } from '@/types';
+import { fetchGraphData, fetchGraphVersion, getApiUrl } from '@/services/api';
+import { DIFF_STATUS_COLORS } from '@/utils/graph-utils';
+
+type LiveReloadControllerProps = {
+  // Whether the graph data of the server is watched
+  enabled: boolean;
+  reloadGraphData: (decoded: DecodedGraphData) => void;
+  reportDiagnostic: (diagnostic: GraphDiagnostic) => void;
+  // Changes of the last reload, flashed on the graph
+  changes: GraphReloadChanges | null;
+};
+
+// Interval between two checks of the graph data, in milliseconds
+const LIVE_RELOAD_INTERVAL = 3000;
+
+// Duration of the flash of the added and removed nodes, in milliseconds
+const FLASH_DURATION = 1500;
+const FLASH_LAYER = 'flashes';
+
+/**
+ * Reload the graph data of the server when it changes, e.g. when the analyze command is run again,
+ * and flash the nodes that were added or removed
+ */
+const LiveReloadController: FC<LiveReloadControllerProps> = ({ enabled, reloadGraphData, reportDiagnostic, changes }) => {
+  const sigma = useSigma();
+
+  // Version of the graph data that is displayed, unknown until it is first checked
+  const version = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let checking = false;
+    const check = async () => {
+      if (checking) return;
+      checking = true;
+      try {
+        const newVersion = await fetchGraphVersion();
+        if (!cancelled && version.current !== undefined && newVersion !== null && newVersion !== version.current) {
+          const decoded = await fetchGraphData(getApiUrl());
+          if (!cancelled) reloadGraphData(decoded);
+        }
+        if (!cancelled) version.current = newVersion;
+      } catch (error) {
+        if (!cancelled) {
+          reportDiagnostic({
+            severity: 'warning',
+            code: 'reload-failed',
+            message: `Could not check whether the graph data changed: ${error instanceof Error ? error.message : String(error)}`
+          });
+        }
+      } finally {
+        checking = false;
+      }
+    };
+
+    check();
+    const interval = setInterval(check, LIVE_RELOAD_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled, reloadGraphData, reportDiagnostic]);
+
+  // Draw growing and fading rings where nodes were added or removed
+  useEffect(() => {
+    if (!changes || changes.flashes.length === 0) return;
+
+    sigma.createCanvasContext(FLASH_LAYER, { style: { pointerEvents: 'none' } });
+    sigma.resize(true);
+    const context = sigma.getCanvases()[FLASH_LAYER].getContext('2d') as CanvasRenderingContext2D;
+
+    const start = performance.now();
+    let frame = 0;
+    const draw = (now: number) => {
+      const progress = Math.min((now - start) / FLASH_DURATION, 1);
+      const { width, height } = sigma.getDimensions();
+      context.clearRect(0, 0, width, height);
+      context.lineWidth = 3;
+      context.globalAlpha = 1 - progress;
+
+      changes.flashes.forEach(({ x, y, status }) => {
+        const position = sigma.graphToViewport({ x, y });
+        context.strokeStyle = DIFF_STATUS_COLORS[status];
+        context.beginPath();
+        context.arc(position.x, position.y, 8 + progress * 24, 0, Math.PI * 2);
+        context.stroke();
+      });
+
+      if (progress < 1) frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      // The layer is gone when the Sigma instance was replaced
+      if (sigma.getCanvases()[FLASH_LAYER]) sigma.killLayer(FLASH_LAYER);
+    };
+  }, [sigma, changes]);
+
+  return null;
+};
+
+export default LiveReloadController;
@@ -0,0 +1,43 @@
+import { FC } from "react";
+import { GraphLoadProgress } from '@/types';
+
+interface LoadProgressProps {
+  progress: GraphLoadProgress;
+  // Number of nodes already displayed, when the graph is displayed while it is received
+  nodeCount?: number;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} kB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const describeProgress = ({ phase, loaded, total }: GraphLoadProgress): string => {
+  switch (phase) {
+    case 'download':
+      return `Downloading the graph data... ${formatBytes(loaded)}${total ? ` of ${formatBytes(total)}` : ''}`;
+    case 'parse':
+      return 'Parsing the graph data...';
+    case 'build':
+      return `Building the graph... ${total ? Math.round(loaded / total * 100) : 0}%`;
+  }
+};
+
+/**
+ * Progress of the download, parsing and building of a graph, the bar being indeterminate while parsing
+ * or when the size of the data is not known
+ */
+const LoadProgress: FC<LoadProgressProps> = ({ progress, nodeCount }) => {
+  return (
+      <div className="load-progress" role="status">
+        <span>
+          {describeProgress(progress)}
+          {!!nodeCount && <span className="text-muted"> ({nodeCount} nodes displayed)</span>}
+        </span>
+        {progress.total ? <progress max={progress.total} value={progress.loaded} /> : <progress />}
+      </div>
+  );
+};
+
+export default LoadProgress;
@@ -0,0 +1,187 @@
+import { FC, useMemo, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronUp, BiDownArrowAlt, BiUpArrowAlt } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { MetricKey, NodeColorMode } from '@/types';
+import { computeNamespaceMetrics, METRIC_LABELS } from '@/utils/metrics-utils';
+import { isNamespaceNode } from '@/utils/cluster-utils';
+
+interface MetricsPanelProps {
+  graphRevision: number;
+  sizeMetric: MetricKey;
+  setSizeMetric: (metric: MetricKey) => void;
+  colorMode: NodeColorMode;
+  setColorMode: (mode: NodeColorMode) => void;
+  setSelectedNode: (node: string | null) => void;
+}
+
+type MetricsRow = {
+  key: string;
+  label: string;
+  fanIn: number;
+  fanOut: number;
+  instability: number;
+  abstractness: number;
+  distance: number;
+};
+
+type SortColumn = Exclude<MetricKey, 'degree'> | 'label';
+
+const TABLE_COLUMNS: { key: SortColumn; label: string; title: string }[] = [
+  { key: 'label', label: 'Name', title: 'Name' },
+  { key: 'fanIn', label: 'Ca', title: METRIC_LABELS.fanIn },
+  { key: 'fanOut', label: 'Ce', title: METRIC_LABELS.fanOut },
+  { key: 'instability', label: 'I', title: METRIC_LABELS.instability },
+  { key: 'abstractness', label: 'A', title: METRIC_LABELS.abstractness },
+  { key: 'distance', label: 'D', title: METRIC_LABELS.distance },
+];
+
+// Number of rows displayed before "show more" is needed
+const PAGE_SIZE = 25;
+
+const formatMetric = (value: number): string => {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+};
+
+const MetricsPanel: FC<MetricsPanelProps> = ({ graphRevision, sizeMetric, setSizeMetric, colorMode, setColorMode, setSelectedNode }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(true);
+  const [scope, setScope] = useState<'nodes' | 'namespaces'>('nodes');
+  const [sortColumn, setSortColumn] = useState<SortColumn>('distance');
+  const [sortAscending, setSortAscending] = useState(false);
+  const [rowCount, setRowCount] = useState(PAGE_SIZE);
+
+  const rows: MetricsRow[] = useMemo(() => {
+    if (scope === 'namespaces') {
+      return computeNamespaceMetrics(graph).map((metrics) => ({
+        ...metrics,
+        key: metrics.namespace,
+        label: metrics.namespace || '(global)'
+      }));
+    }
+
+    const nodeRows: MetricsRow[] = [];
+    graph.forEachNode((node, attributes) => {
+      if (isNamespaceNode(attributes)) return;
+      nodeRows.push({
+        key: node,
+        label: attributes.label || node,
+        fanIn: attributes.fanIn,
+        fanOut: attributes.fanOut,
+        instability: attributes.instability,
+        abstractness: attributes.abstractness,
+        distance: attributes.distance
+      });
+    });
+    return nodeRows;
+  }, [graph, graphRevision, scope]);
+
+  const sortedRows = useMemo(() => {
+    const direction = sortAscending ? 1 : -1;
+    return [...rows].sort((a, b) => {
+      const comparison = sortColumn === 'label'
+          ? a.label.localeCompare(b.label)
+          : a[sortColumn] - b[sortColumn];
+      return comparison * direction || a.label.localeCompare(b.label);
+    });
+  }, [rows, sortColumn, sortAscending]);
+
+  const sortBy = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortColumn(column);
+      setSortAscending(column === 'label');
+    }
+  };
+
+  const metricColorMode = colorMode in METRIC_LABELS ? colorMode : '';
+
+  return (
+      <div className="panel metrics">
+        <h2>
+          Coupling Metrics
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <p>
+            <label htmlFor="size-metric"><strong>Size nodes by:</strong></label>{" "}
+            <select id="size-metric" value={sizeMetric} onChange={(e) => setSizeMetric(e.target.value as MetricKey)}>
+              {Object.entries(METRIC_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </p>
+          <p>
+            <label htmlFor="color-metric"><strong>Color nodes by:</strong></label>{" "}
+            <select
+                id="color-metric"
+                value={metricColorMode}
+                onChange={(e) => setColorMode((e.target.value || 'type') as NodeColorMode)}
+            >
+              <option value="">Type or namespace</option>
+              {Object.entries(METRIC_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </p>
+
+          <div className="buttons">
+            <button
+                type="button"
+                className={`btn ${scope === 'nodes' ? 'active' : ''}`}
+                onClick={() => { setScope('nodes'); setRowCount(PAGE_SIZE); }}
+            >
+              Classes
+            </button>
+            <button
+                type="button"
+                className={`btn ${scope === 'namespaces' ? 'active' : ''}`}
+                onClick={() => { setScope('namespaces'); setRowCount(PAGE_SIZE); }}
+            >
+              Namespaces
+            </button>
+          </div>
+
+          <table className="metrics-table">
+            <thead>
+              <tr>
+                {TABLE_COLUMNS.map((column) => (
+                    <th key={column.key} title={column.title} className="mouse-pointer" onClick={() => sortBy(column.key)}>
+                      {column.label}
+                      {sortColumn === column.key && (sortAscending ? <BiUpArrowAlt /> : <BiDownArrowAlt />)}
+                    </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.slice(0, rowCount).map((row) => (
+                  <tr
+                      key={row.key}
+                      className={scope === 'nodes' ? 'mouse-pointer' : ''}
+                      onClick={() => scope === 'nodes' && setSelectedNode(row.key)}
+                  >
+                    <td title={row.key}>{row.label}</td>
+                    <td>{formatMetric(row.fanIn)}</td>
+                    <td>{formatMetric(row.fanOut)}</td>
+                    <td>{formatMetric(row.instability)}</td>
+                    <td>{formatMetric(row.abstractness)}</td>
+                    <td>{formatMetric(row.distance)}</td>
+                  </tr>
+              ))}
+            </tbody>
+          </table>
+          {sortedRows.length > rowCount && (
+              <button type="button" className="btn" onClick={() => setRowCount(rowCount + PAGE_SIZE)}>
+                Show more ({sortedRows.length - rowCount} remaining)
+              </button>
+          )}
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default MetricsPanel;
@@ -0,0 +1,255 @@
+import { FC, useMemo, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronRight, BiChevronUp, BiCollapseAlt, BiExpandAlt } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { Cluster, FiltersState, NamespaceTreeNode, NodeColorMode } from '@/types';
+import { buildNamespaceTree, getHiddenNamespaces, isInNamespace } from '@/utils/cluster-utils';
+import { NODE_TYPE_COLORS } from '@/utils/graph-utils';
+import { animateToNodes } from '@/utils/sigma-utils';
+
+interface NamespacesPanelProps {
+  graphRevision: number;
+  clusters: Cluster[];
+  filters: FiltersState;
+  setClusters: (clusters: { [key: string]: boolean }) => void;
+  setNamespaces: (namespaces: { [namespace: string]: boolean }) => void;
+  colorMode: NodeColorMode;
+  setColorMode: (mode: NodeColorMode) => void;
+  collapsedNamespaces: string[];
+  setCollapsedNamespaces: (namespaces: string[]) => void;
+  focusedNamespace: string | null;
+  setFocusedNamespace: (namespace: string | null) => void;
+}
+
+interface NamespaceTreeItemProps {
+  treeNode: NamespaceTreeNode;
+  collapsedNamespaces: string[];
+  toggleCollapsed: (namespace: string) => void;
+  focusedNamespace: string | null;
+  toggleFocused: (namespace: string) => void;
+  hiddenNamespaces: string[];
+  toggleHidden: (namespace: string) => void;
+}
+
+const TYPE_COUNT_LABELS: { [type: string]: [string, string] } = {
+  'class': ['class', 'classes'],
+  'interface': ['interface', 'interfaces'],
+  'trait': ['trait', 'traits']
+};
+
+/**
+ * Number of classes, interfaces and traits of a namespace, as colored numbers
+ */
+const TypeCounts: FC<{ typeCounts: { [type: string]: number } }> = ({ typeCounts }) => {
+  const types = Object.keys(TYPE_COUNT_LABELS).filter((type) => typeCounts[type]);
+  const title = types.map((type) => `${typeCounts[type]} ${TYPE_COUNT_LABELS[type][typeCounts[type] === 1 ? 0 : 1]}`).join(', ');
+
+  return (
+      <span className="type-counts text-small" title={title}>
+        {types.map((type) => (
+            <span key={type} style={{ color: NODE_TYPE_COLORS[type as keyof typeof NODE_TYPE_COLORS] }}>{typeCounts[type]}</span>
+        ))}
+      </span>
+  );
+};
+
+const NamespaceTreeItem: FC<NamespaceTreeItemProps> = ({
+  treeNode,
+  collapsedNamespaces,
+  toggleCollapsed,
+  focusedNamespace,
+  toggleFocused,
+  hiddenNamespaces,
+  toggleHidden
+}) => {
+  const [open, setOpen] = useState(false);
+  const collapsed = collapsedNamespaces.includes(treeNode.namespace);
+  const insideCollapsed = collapsedNamespaces.some((namespace) =>
+      namespace !== treeNode.namespace && isInNamespace(treeNode.namespace, namespace)
+  );
+  const hidden = hiddenNamespaces.includes(treeNode.namespace);
+  const insideHidden = hiddenNamespaces.some((namespace) =>
+      namespace !== treeNode.namespace && isInNamespace(treeNode.namespace, namespace)
+  );
+
+  return (
+      <li>
+        <div className="namespace-row">
+          <button
+              type="button"
+              className="tree-toggle"
+              onClick={() => setOpen(!open)}
+              disabled={treeNode.children.length === 0}
+          >
+            {treeNode.children.length > 0 && (open ? <BiChevronDown /> : <BiChevronRight />)}
+          </button>
+          <input
+              type="checkbox"
+              checked={!hidden && !insideHidden}
+              disabled={insideHidden}
+              onChange={() => toggleHidden(treeNode.namespace)}
+              title={hidden ? "Show this namespace" : "Hide this namespace and its subtree"}
+          />
+          <span
+              className={`namespace-label mouse-pointer ${insideCollapsed || hidden || insideHidden ? 'text-muted' : ''} ${focusedNamespace === treeNode.namespace ? 'focused' : ''}`}
+              title={`Focus on ${treeNode.namespace}`}
+              onClick={() => toggleFocused(treeNode.namespace)}
+          >
+            {treeNode.name} <span className="text-muted text-small">({treeNode.totalCount})</span>
+          </span>
+          <TypeCounts typeCounts={treeNode.typeCounts} />
+          <button
+              type="button"
+              className="namespace-collapse"
+              onClick={() => toggleCollapsed(treeNode.namespace)}
+              disabled={insideCollapsed}
+              title={collapsed ? "Expand namespace" : "Collapse namespace into a single node"}
+          >
+            {collapsed ? <BiExpandAlt /> : <BiCollapseAlt />}
+          </button>
+        </div>
+        {open && treeNode.children.length > 0 && (
+            <ul className="namespace-tree">
+              {treeNode.children.map((child) => (
+                  <NamespaceTreeItem
+                      key={child.namespace}
+                      treeNode={child}
+                      collapsedNamespaces={collapsedNamespaces}
+                      toggleCollapsed={toggleCollapsed}
+                      focusedNamespace={focusedNamespace}
+                      toggleFocused={toggleFocused}
+                      hiddenNamespaces={hiddenNamespaces}
+                      toggleHidden={toggleHidden}
+                  />
+              ))}
+            </ul>
+        )}
+      </li>
+  );
+};
+
+const NamespacesPanel: FC<NamespacesPanelProps> = ({
+  graphRevision,
+  clusters,
+  filters,
+  setClusters,
+  setNamespaces,
+  colorMode,
+  setColorMode,
+  collapsedNamespaces,
+  setCollapsedNamespaces,
+  focusedNamespace,
+  setFocusedNamespace
+}) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(false);
+
+  // The namespace hierarchy only depends on the original nodes of the graph
+  const namespaceTree = useMemo(() => buildNamespaceTree(graph), [graph, graphRevision]);
+
+  // Toggle cluster filter
+  const toggleCluster = (key: string) => {
+    setClusters({ ...filters.clusters, [key]: filters.clusters[key] === false });
+  };
+
+  const hiddenNamespaces = useMemo(() => getHiddenNamespaces(filters.namespaces), [filters.namespaces]);
+
+  // Show or hide a namespace along with its subtree, the nested namespaces following it
+  const toggleHidden = (namespace: string) => {
+    const namespaces = Object.fromEntries(Object.entries(filters.namespaces || {}).filter(([item]) =>
+        !isInNamespace(item, namespace)
+    ));
+    if (!hiddenNamespaces.includes(namespace)) namespaces[namespace] = false;
+    setNamespaces(namespaces);
+  };
+
+  // Collapse or expand a namespace
+  const toggleCollapsed = (namespace: string) => {
+    if (collapsedNamespaces.includes(namespace)) {
+      setCollapsedNamespaces(collapsedNamespaces.filter((item) => item !== namespace));
+    } else {
+      // Nested namespaces are merged into the collapsed parent
+      setCollapsedNamespaces([
+        ...collapsedNamespaces.filter((item) => !isInNamespace(item, namespace)),
+        namespace
+      ]);
+    }
+  };
+
+  // Focus on a namespace, or clear the focus
+  const toggleFocused = (namespace: string) => {
+    if (focusedNamespace === namespace) {
+      setFocusedNamespace(null);
+      return;
+    }
+
+    setFocusedNamespace(namespace);
+    animateToNodes(sigma, graph.filterNodes((node, attributes) =>
+        !attributes.hidden && isInNamespace(attributes.namespace ?? '', namespace)
+    ));
+  };
+
+  return (
+      <div className="panel">
+        <h2>
+          Namespaces
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <ul>
+            <li className="caption-row">
+              <input
+                  type="checkbox"
+                  id="color-by-cluster"
+                  checked={colorMode === 'cluster'}
+                  onChange={() => setColorMode(colorMode === 'cluster' ? 'type' : 'cluster')}
+              />
+              <label htmlFor="color-by-cluster">
+                <span className="circle"></span>
+                <span className="node-label">Color nodes by namespace</span>
+              </label>
+            </li>
+          </ul>
+
+          <p className="text-muted">Filter by top-level namespace:</p>
+          <ul>
+            {clusters.map((cluster) => (
+                <li key={`cluster-${cluster.key}`} className="caption-row">
+                  <input
+                      type="checkbox"
+                      id={`cluster-${cluster.key}`}
+                      checked={filters.clusters[cluster.key] !== false}
+                      onChange={() => toggleCluster(cluster.key)}
+                  />
+                  <label htmlFor={`cluster-${cluster.key}`}>
+                    <span className="circle" style={{ backgroundColor: cluster.color }}></span>
+                    <span className="node-label">{cluster.clusterLabel}</span>
+                  </label>
+                </li>
+            ))}
+          </ul>
+
+          <p className="text-muted">Click a namespace to focus on it, uncheck it to hide it, or collapse it:</p>
+          <ul className="namespace-tree">
+            {namespaceTree.children.map((child) => (
+                <NamespaceTreeItem
+                    key={child.namespace}
+                    treeNode={child}
+                    collapsedNamespaces={collapsedNamespaces}
+                    toggleCollapsed={toggleCollapsed}
+                    focusedNamespace={focusedNamespace}
+                    toggleFocused={toggleFocused}
+                    hiddenNamespaces={hiddenNamespaces}
+                    toggleHidden={toggleHidden}
+                />
+            ))}
+          </ul>
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default NamespacesPanel;
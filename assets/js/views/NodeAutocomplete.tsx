@@ -0,0 +1,138 @@
+import { useSigma } from "@react-sigma/core";
+import { ChangeEvent, FC, KeyboardEvent, useEffect, useRef, useState } from "react";
+
+import { FiltersState } from '@/types';
+import { NODE_TYPE_COLORS } from '@/utils/graph-utils';
+import { searchNodes, SearchResult } from '@/utils/search-utils';
+import { LARGE_GRAPH_SEARCH_DELAY, PERFORMANCE_MODE_THRESHOLD } from '@/utils/performance-utils';
+import useDebounce from "@/utils/use-debounce";
+
+type NodeAutocompleteProps = {
+  listId: string;
+  placeholder: string;
+  filters: FiltersState;
+  onSelect: (node: string | null) => void;
+};
+
+/**
+ * Text input suggesting the visible nodes matching the typed text, ranked from the best match,
+ * in a dropdown that can be navigated with the arrow keys
+ */
+const NodeAutocomplete: FC<NodeAutocompleteProps> = ({ listId, placeholder, filters, onSelect }) => {
+  const sigma = useSigma();
+
+  const [search, setSearch] = useState<string>("");
+  const [values, setValues] = useState<SearchResult[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [open, setOpen] = useState(false);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Searching a large graph at every keystroke would make typing lag
+  const searchDelay = sigma.getGraph().order >= PERFORMANCE_MODE_THRESHOLD ? LARGE_GRAPH_SEARCH_DELAY : 0;
+  const debouncedSearch = useDebounce(search, searchDelay);
+
+  const refreshValues = () => {
+    setValues(!selected && debouncedSearch.trim().length > 0 ? searchNodes(sigma.getGraph(), debouncedSearch) : []);
+    setActiveIndex(0);
+  };
+
+  // Refresh values when search is updated:
+  useEffect(() => refreshValues(), [debouncedSearch]);
+
+  // Refresh values when filters are updated (but wait a frame first):
+  useEffect(() => {
+    requestAnimationFrame(refreshValues);
+  }, [filters]);
+
+  // Notify the parent when the selection changes:
+  useEffect(() => onSelect(selected), [selected]);
+
+  // Keep the active suggestion visible when navigating with the keyboard
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView?.({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const selectValue = (value: SearchResult) => {
+    setSearch(value.label);
+    setValues([]);
+    setOpen(false);
+    setSelected(value.id);
+  };
+
+  const onInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setSelected(null);
+    setSearch(e.target.value);
+    setOpen(true);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!values.length) return;
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((activeIndex + step + values.length) % values.length);
+    } else if (e.key === "Enter" && open && values.length) {
+      e.preventDefault();
+      selectValue(values[activeIndex] || values[0]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const expanded = open && values.length > 0;
+
+  return (
+      <div className="node-autocomplete">
+        <input
+            type="search"
+            placeholder={placeholder}
+            value={search}
+            onChange={onInputChange}
+            onKeyDown={onKeyDown}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={expanded}
+            aria-controls={listId}
+            aria-activedescendant={expanded ? `${listId}-${activeIndex}` : undefined}
+        />
+        {expanded && (
+            <ul id={listId} className="autocomplete-results" role="listbox" ref={listRef}>
+              {values.map((value, index) => (
+                  <li
+                      key={value.id}
+                      id={`${listId}-${index}`}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      className={index === activeIndex ? 'active' : ''}
+                      title={value.id}
+                      // Select on mouse down, before the input loses the focus and closes the list
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        selectValue(value);
+                      }}
+                      onMouseEnter={() => setActiveIndex(index)}
+                  >
+                    <span className="autocomplete-label">{value.label}</span>
+                    {value.entityType && (
+                        <span
+                            className="badge"
+                            style={{ backgroundColor: NODE_TYPE_COLORS[value.entityType as keyof typeof NODE_TYPE_COLORS] || '#666' }}
+                        >
+                          {value.entityType}
+                        </span>
+                    )}
+                    {value.namespace && <span className="autocomplete-namespace text-muted text-small">{value.namespace}</span>}
+                  </li>
+              ))}
+            </ul>
+        )}
+      </div>
+  );
+};
+
+export default NodeAutocomplete;
@@ -1,42 +1,90 @@
-import { FC, useEffect, useState } from "react";
+import { FC, useEffect, useMemo, useState } from "react";
 import { useSigma } from "@react-sigma/core";
-import { BiChevronDown, BiChevronUp } from "react-icons/bi";
+import { AttributeUpdatePayload, Attributes } from "graphology-types";
+import { BiChevronDown, BiChevronUp, BiCog, BiLinkExternal, BiLock, BiLockOpen, BiPin, BiTargetLock } from "react-icons/bi";
+import { GrClose } from "react-icons/gr";
 import AnimateHeight from "react-animate-height";
+import DependencyTree from "./DependencyTree";
+import { DependencyDirection } from '@/types';
+import { buildEditorUrl, EDITOR_URL_PRESETS, getEditorUrlTemplate, saveEditorUrlTemplate } from '@/services/editor-link-store';
+import { getNodeNamespace, GLOBAL_NAMESPACE_LABEL, isNamespaceNode } from '@/utils/cluster-utils';
+import { EDGE_TYPE_COLORS, EDGE_TYPE_LABELS, NODE_TYPE_COLORS } from '@/utils/graph-utils';
+import { animateToNode } from '@/utils/sigma-utils';
+import { getTransitiveNeighbors, getVisibleNeighborsByEdgeType } from '@/utils/traversal-utils';
 
 interface NodeDetailsPanelProps {
+  graphRevision: number;
   hoveredNode: string | null;
+  selectedNode: string | null;
+  setSelectedNode: (node: string | null) => void;
+  focusOnNode: (node: string) => void;
 }
 
-const NodeDetailsPanel: FC<NodeDetailsPanelProps> = ({ hoveredNode }) => {
+const MAX_TREE_DEPTH = 10;
+
+/**
+ * Remove the comment delimiters and the leading stars from the lines of a doc comment
+ */
+const cleanDocComment = (docComment: unknown): string => {
+  const lines = Array.isArray(docComment) ? docComment.map(String) : String(docComment ?? '').split('\n');
+  return lines
+      .map((line) => line.replace(/^\s*\/\*\*?/, '').replace(/\*\/\s*$/, '').replace(/^\s*\* ?/, '').trimEnd())
+      .join('\n')
+      .trim();
+};
+
+// Edge types in the order they are listed, the other ones come last
+const EDGE_TYPE_ORDER = Object.keys(EDGE_TYPE_LABELS);
+
+const sortEdgeTypes = (types: string[]): string[] => {
+  const rank = (type: string) => EDGE_TYPE_ORDER.includes(type) ? EDGE_TYPE_ORDER.indexOf(type) : EDGE_TYPE_ORDER.length;
+  return [...types].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+};
+
+const NodeDetailsPanel: FC<NodeDetailsPanelProps> = ({ graphRevision, hoveredNode, selectedNode, setSelectedNode, focusOnNode }) => {
   const sigma = useSigma();
   const graph = sigma.getGraph();
   const [collapsed, setCollapsed] = useState(false);
-  const [dependencies, setDependencies] = useState<string[]>([]);
-  const [dependents, setDependents] = useState<string[]>([]);
+  const [maxDepth, setMaxDepth] = useState(2);
+  // The pinned position is a node attribute, so the panel is refreshed when it is toggled
+  const [, setPositionVersion] = useState(0);
+  const [editorUrl, setEditorUrl] = useState(getEditorUrlTemplate);
+  const [editingEditorUrl, setEditingEditorUrl] = useState(false);
+  // Incremented when nodes or edges are shown or hidden, which changes the transitive connections
+  const [visibilityRevision, setVisibilityRevision] = useState(0);
+
+  // A selected node stays pinned until the selection is cleared
+  const pinned = !!selectedNode && graph.hasNode(selectedNode);
+  const currentNode = pinned ? selectedNode : (hoveredNode && graph.hasNode(hoveredNode) ? hoveredNode : null);
 
+  // Count the transitive connections again when the graph is filtered or its namespaces collapsed, once per frame at most
   useEffect(() => {
-    if (!hoveredNode) {
-      setDependencies([]);
-      setDependents([]);
-      return;
-    }
-
-    // Get outgoing connections (dependencies)
-    const deps: string[] = [];
-    graph.forEachOutNeighbor(hoveredNode, (neighbor, attributes) => {
-      deps.push(neighbor);
-    });
-    setDependencies(deps);
-
-    // Get incoming connections (dependents)
-    const depts: string[] = [];
-    graph.forEachInNeighbor(hoveredNode, (neighbor, attributes) => {
-      depts.push(neighbor);
-    });
-    setDependents(depts);
-  }, [hoveredNode, graph]);
-
-  if (!hoveredNode) {
+    let frame = 0;
+    const onAttributesUpdated = (payload: AttributeUpdatePayload<Attributes>) => {
+      if (payload.type === 'set' && payload.name !== 'hidden') return;
+      if (payload.type === 'merge' && !('hidden' in payload.data)) return;
+      if (!frame) frame = requestAnimationFrame(() => {
+        frame = 0;
+        setVisibilityRevision((value) => value + 1);
+      });
+    };
+
+    graph.on('nodeAttributesUpdated', onAttributesUpdated);
+    graph.on('edgeAttributesUpdated', onAttributesUpdated);
+    return () => {
+      cancelAnimationFrame(frame);
+      graph.off('nodeAttributesUpdated', onAttributesUpdated);
+      graph.off('edgeAttributesUpdated', onAttributesUpdated);
+    };
+  }, [graph]);
+
+  // Transitive connections up to the chosen depth, which would take a traversal of a large graph at every hover
+  const transitiveCounts = useMemo(() => currentNode ? {
+    dependencies: getTransitiveNeighbors(graph, currentNode, 'out', maxDepth).size,
+    dependents: getTransitiveNeighbors(graph, currentNode, 'in', maxDepth).size
+  } : null, [graph, graphRevision, visibilityRevision, currentNode, maxDepth]);
+
+  if (!currentNode) {
     return (
         <div className="panel">
           <h2>
@@ -46,15 +94,67 @@ const NodeDetailsPanel: FC<NodeDetailsPanelProps> = ({ hoveredNode }) => {
             </button>
           </h2>
           <AnimateHeight height={collapsed ? 0 : "auto"}>
-            <p className="text-muted">Hover over a node to see details</p>
+            <p className="text-muted">Hover over a node to see details, click on it to pin them</p>
           </AnimateHeight>
         </div>
     );
   }
 
-  const nodeAttributes = graph.getNodeAttributes(hoveredNode);
+  const nodeAttributes = graph.getNodeAttributes(currentNode);
   const nodeType = nodeAttributes.entityType || nodeAttributes.type || 'class';
-  const nodeLabel = nodeAttributes.label || hoveredNode;
+  const nodeLabel = nodeAttributes.label || currentNode;
+
+  const namespaceNode = isNamespaceNode(nodeAttributes);
+  const metadata = nodeAttributes.metadata || {};
+  const namespace = getNodeNamespace(currentNode, nodeAttributes);
+  const filePath = typeof metadata.filePath === 'string' ? metadata.filePath : null;
+  const fileUrl = filePath ? buildEditorUrl(editorUrl, filePath) : null;
+  const docComment = metadata.docComment ? cleanDocComment(metadata.docComment) : '';
+
+  // Direct connections grouped by edge type, and transitive ones up to the chosen depth
+  const dependencies = getVisibleNeighborsByEdgeType(graph, currentNode, 'out');
+  const dependents = getVisibleNeighborsByEdgeType(graph, currentNode, 'in');
+  const dependencyCount = new Set(Array.from(dependencies.values()).flat()).size;
+  const dependentCount = new Set(Array.from(dependents.values()).flat()).size;
+  const transitiveDependencies = transitiveCounts?.dependencies ?? 0;
+  const transitiveDependents = transitiveCounts?.dependents ?? 0;
+
+  const togglePosition = () => {
+    graph.setNodeAttribute(currentNode, 'fixed', !nodeAttributes.fixed);
+    setPositionVersion((version) => version + 1);
+  };
+
+  const selectNode = (node: string) => {
+    setSelectedNode(node);
+    animateToNode(sigma, node, sigma.getCamera().ratio);
+  };
+
+  const updateEditorUrl = (template: string | null) => {
+    saveEditorUrlTemplate(template);
+    setEditorUrl(getEditorUrlTemplate());
+  };
+
+  const renderConnections = (groups: Map<string, string[]>, direction: DependencyDirection) => (
+      sortEdgeTypes(Array.from(groups.keys())).map((edgeType) => (
+          <div key={edgeType} className="edge-type-group">
+            <h5>
+              <span
+                  className="line"
+                  style={{ backgroundColor: EDGE_TYPE_COLORS[edgeType as keyof typeof EDGE_TYPE_COLORS] || '#666' }}
+              ></span>
+              {EDGE_TYPE_LABELS[edgeType] || edgeType} ({groups.get(edgeType)!.length})
+            </h5>
+            <DependencyTree
+                key={currentNode}
+                node={currentNode}
+                direction={direction}
+                maxDepth={maxDepth}
+                onSelectNode={selectNode}
+                edgeType={edgeType}
+            />
+          </div>
+      ))
+  );
 
   return (
       <div className="panel">
@@ -66,60 +166,124 @@ const NodeDetailsPanel: FC<NodeDetailsPanelProps> = ({ hoveredNode }) => {
         </h2>
         <AnimateHeight height={collapsed ? 0 : "auto"}>
           <div className="node-details">
-            <h3 style={{
-              color: nodeType === 'class' ? '#007bff' :
-                  nodeType === 'trait' ? '#28a745' :
-                      nodeType === 'interface' ? '#fd7e14' : '#666'
-            }}>
-              {nodeLabel}
+            <h3 style={{ color: NODE_TYPE_COLORS[nodeType as keyof typeof NODE_TYPE_COLORS] || '#666' }}>
+              {pinned && <BiPin title="Pinned" />} {nodeLabel}
+              {pinned && (
+                  <button
+                      type="button"
+                      className="clear-selection"
+                      onClick={() => setSelectedNode(null)}
+                      title="Clear selection"
+                  >
+                    <GrClose />
+                  </button>
+              )}
             </h3>
-            <p><strong>Type:</strong> {nodeType.charAt(0).toUpperCase() + nodeType.slice(1)}</p>
+            <p>
+              <strong>Type:</strong> {nodeType.charAt(0).toUpperCase() + nodeType.slice(1)}
+              {metadata.isAbstract && <span className="badge">abstract</span>}
+              {metadata.isFinal && <span className="badge">final</span>}
+            </p>
+            {!namespaceNode && (
+                <>
+                  <p className="node-fqn"><strong>Name:</strong> <code>{currentNode}</code></p>
+                  <p><strong>Namespace:</strong> {namespace || GLOBAL_NAMESPACE_LABEL}</p>
+                  <p className="node-file">
+                    <strong>File:</strong>{" "}
+                    {filePath ? (
+                        fileUrl ? (
+                            <a href={fileUrl} title="Open in editor">{filePath} <BiLinkExternal /></a>
+                        ) : (
+                            <code>{filePath}</code>
+                        )
+                    ) : (
+                        <span className="text-muted">unknown</span>
+                    )}{" "}
+                    <button
+                        type="button"
+                        className="editor-settings-toggle"
+                        onClick={() => setEditingEditorUrl(!editingEditorUrl)}
+                        title="Configure the editor links"
+                    >
+                      <BiCog />
+                    </button>
+                  </p>
+                  {editingEditorUrl && (
+                      <div className="editor-settings">
+                        <label htmlFor="editor-url" className="text-muted text-small">
+                          Editor link, where {"{path}"} is the file path and {"{line}"} the line:
+                        </label>
+                        {/* The template is committed on blur, and reset when it is changed elsewhere */}
+                        <input
+                            key={editorUrl}
+                            type="text"
+                            id="editor-url"
+                            defaultValue={editorUrl}
+                            placeholder="vscode://file/{path}"
+                            onBlur={(e) => {
+                              if (e.target.value.trim() !== editorUrl) updateEditorUrl(e.target.value.trim());
+                            }}
+                        />
+                        <div className="buttons">
+                          {Object.entries(EDITOR_URL_PRESETS).map(([editor, template]) => (
+                              <button key={editor} type="button" className="btn" onClick={() => updateEditorUrl(template)}>
+                                {editor}
+                              </button>
+                          ))}
+                          <button type="button" className="btn" onClick={() => updateEditorUrl(null)} title="Use the configured link">
+                            Reset
+                          </button>
+                        </div>
+                      </div>
+                  )}
+                  <p>
+                    <strong>Position:</strong> {nodeAttributes.fixed ? 'pinned' : 'free'}{" "}
+                    <button type="button" className="btn" onClick={togglePosition}>
+                      {nodeAttributes.fixed ? <><BiLockOpen /> Unpin</> : <><BiLock /> Pin</>}
+                    </button>{" "}
+                    <button
+                        type="button"
+                        className="btn"
+                        onClick={() => focusOnNode(currentNode)}
+                        title="Display only this node and its neighborhood"
+                    >
+                      <BiTargetLock /> Focus
+                    </button>
+                  </p>
+                  {docComment && <pre className="doc-comment">{docComment}</pre>}
+                </>
+            )}
+            <p>
+              <label htmlFor="dependency-depth"><strong>Depth:</strong></label>{" "}
+              <input
+                  type="number"
+                  id="dependency-depth"
+                  min={1}
+                  max={MAX_TREE_DEPTH}
+                  value={maxDepth}
+                  onChange={(e) => setMaxDepth(Math.min(MAX_TREE_DEPTH, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </p>
 
             <div className="node-connections">
               <div className="dependencies">
-                <h4>Dependencies ({dependencies.length})</h4>
-                {dependencies.length === 0 ? (
+                <h4>
+                  Dependencies ({dependencyCount})
+                  <span className="text-muted text-small"> {transitiveDependencies} transitive</span>
+                </h4>
+                {dependencyCount === 0 ? (
                     <p className="text-muted">No dependencies</p>
-                ) : (
-                    <ul>
-                      {dependencies.map((dep) => {
-                        const depAttr = graph.getNodeAttributes(dep);
-                        return (
-                            <li key={dep} className="dep-item">
-                        <span className="circle" style={{
-                          backgroundColor: depAttr.type === 'class' ? '#007bff' :
-                              depAttr.type === 'trait' ? '#28a745' :
-                                  depAttr.type === 'interface' ? '#fd7e14' : '#666'
-                        }}></span>
-                              {depAttr.label || dep}
-                            </li>
-                        );
-                      })}
-                    </ul>
-                )}
+                ) : renderConnections(dependencies, 'out')}
               </div>
 
               <div className="dependents">
-                <h4>Dependents ({dependents.length})</h4>
-                {dependents.length === 0 ? (
+                <h4>
+                  Dependents ({dependentCount})
+                  <span className="text-muted text-small"> {transitiveDependents} transitive</span>
+                </h4>
+                {dependentCount === 0 ? (
                     <p className="text-muted">No dependents</p>
-                ) : (
-                    <ul>
-                      {dependents.map((dep) => {
-                        const depAttr = graph.getNodeAttributes(dep);
-                        return (
-                            <li key={dep} className="dep-item">
-                        <span className="circle" style={{
-                          backgroundColor: depAttr.type === 'class' ? '#007bff' :
-                              depAttr.type === 'trait' ? '#28a745' :
-                                  depAttr.type === 'interface' ? '#fd7e14' : '#666'
-                        }}></span>
-                              {depAttr.label || dep}
-                            </li>
-                        );
-                      })}
-                    </ul>
-                )}
+                ) : renderConnections(dependents, 'in')}
               </div>
             </div>
           </div>
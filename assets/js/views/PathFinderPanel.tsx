@@ -0,0 +1,138 @@
+import { FC, useEffect, useMemo, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronUp } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { DependencyPath, FiltersState } from '@/types';
+import { EDGE_TYPE_COLORS } from '@/utils/graph-utils';
+import { findAllSimplePaths, findShortestPath, MAX_PATH_COUNT } from '@/utils/path-utils';
+import NodeAutocomplete from "./NodeAutocomplete";
+
+interface PathFinderPanelProps {
+  graphRevision: number;
+  filters: FiltersState;
+  collapsedNamespaces: string[];
+  setHighlightedPaths: (paths: DependencyPath[]) => void;
+  setSelectedNode: (node: string | null) => void;
+}
+
+const DEFAULT_MAX_PATH_LENGTH = 6;
+const MAX_PATH_LENGTH = 15;
+
+const PathFinderPanel: FC<PathFinderPanelProps> = ({ graphRevision, filters, collapsedNamespaces, setHighlightedPaths, setSelectedNode }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(true);
+  const [source, setSource] = useState<string | null>(null);
+  const [target, setTarget] = useState<string | null>(null);
+  const [allPaths, setAllPaths] = useState(false);
+  const [maxLength, setMaxLength] = useState(DEFAULT_MAX_PATH_LENGTH);
+  const [paths, setPaths] = useState<DependencyPath[]>([]);
+  const [activePath, setActivePath] = useState<number | null>(null);
+
+  // Compute the paths when the endpoints, the options, the filters, the collapsed namespaces or the graph data change
+  useEffect(() => {
+    if (!source || !target) {
+      setPaths([]);
+      return;
+    }
+
+    if (allPaths) {
+      setPaths(findAllSimplePaths(graph, source, target, maxLength));
+    } else {
+      const shortestPath = findShortestPath(graph, source, target);
+      setPaths(shortestPath ? [shortestPath] : []);
+    }
+    setActivePath(null);
+  }, [graph, graphRevision, source, target, allPaths, maxLength, filters, collapsedNamespaces]);
+
+  // Paths found before the graph changed may go through nodes and edges that are gone, until they are computed again
+  const displayedPaths = useMemo(
+      () => paths.filter((path) => path.nodes.every((node) => graph.hasNode(node)) && path.edges.every((edge) => graph.hasEdge(edge))),
+      [graph, graphRevision, paths]
+  );
+
+  // Highlight either the active path or all of them
+  useEffect(() => {
+    setHighlightedPaths(activePath !== null && displayedPaths[activePath] ? [displayedPaths[activePath]] : displayedPaths);
+  }, [displayedPaths, activePath, setHighlightedPaths]);
+
+  // Clear the highlight when the panel is unmounted
+  useEffect(() => () => setHighlightedPaths([]), [setHighlightedPaths]);
+
+  const getLabel = (node: string): string => graph.getNodeAttribute(node, 'label') || node;
+
+  return (
+      <div className="panel path-finder">
+        <h2>
+          Dependency Path
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <p className="text-muted">Find how a class ends up depending on another one:</p>
+          <NodeAutocomplete listId="path-source" placeholder="From..." filters={filters} onSelect={setSource} />
+          <NodeAutocomplete listId="path-target" placeholder="To..." filters={filters} onSelect={setTarget} />
+          <ul>
+            <li className="caption-row">
+              <input type="checkbox" id="all-paths" checked={allPaths} onChange={() => setAllPaths(!allPaths)} />
+              <label htmlFor="all-paths">
+                <span className="circle"></span>
+                <span className="node-label">All simple paths</span>
+              </label>
+            </li>
+          </ul>
+          {allPaths && (
+              <p>
+                <label htmlFor="max-path-length"><strong>Max hops:</strong></label>{" "}
+                <input
+                    type="number"
+                    id="max-path-length"
+                    min={1}
+                    max={MAX_PATH_LENGTH}
+                    value={maxLength}
+                    onChange={(e) => setMaxLength(Math.min(MAX_PATH_LENGTH, Math.max(1, Number(e.target.value) || 1)))}
+                />
+              </p>
+          )}
+
+          {source && target && displayedPaths.length === 0 && (
+              <p className="text-muted">No path found</p>
+          )}
+          {displayedPaths.length >= MAX_PATH_COUNT && (
+              <p className="text-muted">Only the first {MAX_PATH_COUNT} paths are shown</p>
+          )}
+          {displayedPaths.map((path, index) => (
+              <div key={path.edges.join('|')} className={`path ${activePath === index ? 'active' : ''}`}>
+                <h4 className="mouse-pointer" onClick={() => setActivePath(activePath === index ? null : index)}>
+                  Path {index + 1} <span className="text-muted text-small">({path.edges.length} hops)</span>
+                </h4>
+                <ol>
+                  {path.edges.map((edge, hop) => {
+                    const edgeType = graph.getEdgeAttribute(edge, 'entityType');
+                    return (
+                        <li key={edge}>
+                          <span className="mouse-pointer" onClick={() => setSelectedNode(path.nodes[hop])}>
+                            {getLabel(path.nodes[hop])}
+                          </span>{" "}
+                          <span
+                              className="edge-type"
+                              style={{ color: EDGE_TYPE_COLORS[edgeType as keyof typeof EDGE_TYPE_COLORS] || '#666' }}
+                          >
+                            &rarr; {edgeType} &rarr;
+                          </span>{" "}
+                          <span className="mouse-pointer" onClick={() => setSelectedNode(path.nodes[hop + 1])}>
+                            {getLabel(path.nodes[hop + 1])}
+                          </span>
+                        </li>
+                    );
+                  })}
+                </ol>
+              </div>
+          ))}
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default PathFinderPanel;
@@ -0,0 +1,95 @@
+import { FC, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronUp } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { BENCHMARK_GRAPH_SIZES, FrameTimeStats, measureFrameTimes } from '@/utils/benchmark-utils';
+import { PERFORMANCE_MODE_THRESHOLD } from '@/utils/performance-utils';
+
+interface PerformancePanelProps {
+  performanceMode: boolean;
+  setPerformanceMode: (performanceMode: boolean) => void;
+  loadSyntheticGraph: (nodeCount: number) => void;
+}
+
+const formatDuration = (duration: number): string => `${duration.toFixed(1)} ms`;
+
+const PerformancePanel: FC<PerformancePanelProps> = ({ performanceMode, setPerformanceMode, loadSyntheticGraph }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(true);
+  const [syntheticSize, setSyntheticSize] = useState(BENCHMARK_GRAPH_SIZES[0]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [stats, setStats] = useState<FrameTimeStats | null>(null);
+
+  const runBenchmark = async () => {
+    setStats(null);
+    setProgress(0);
+    try {
+      setStats(await measureFrameTimes(sigma, setProgress));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+      <div className="panel performance">
+        <h2>
+          Performance
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <p>
+            <label>
+              <input type="checkbox" checked={performanceMode} onChange={(e) => setPerformanceMode(e.target.checked)} />{" "}
+              Performance mode
+            </label>
+          </p>
+          <p className="text-muted text-small">
+            Hides the edges while moving the camera, draws fewer labels, and computes the force layouts in the
+            background. Enabled for graphs of {PERFORMANCE_MODE_THRESHOLD} nodes or more.
+          </p>
+
+          <h3>Benchmark</h3>
+          <p className="text-muted">
+            Measures the time spent drawing every frame while the camera moves across
+            the {graph.order} nodes and {graph.size} edges of the graph.
+          </p>
+          <div className="buttons">
+            <button type="button" className="btn" onClick={runBenchmark} disabled={progress !== null}>
+              {progress === null ? 'Measure frame times' : `Measuring... ${Math.round(progress * 100)}%`}
+            </button>
+          </div>
+          {stats && (
+              <table className="frame-times">
+                <tbody>
+                  <tr><th>Frames</th><td>{stats.frames}</td></tr>
+                  <tr><th>Frame rate</th><td>{stats.fps.toFixed(1)} fps</td></tr>
+                  <tr><th>Mean</th><td>{formatDuration(stats.mean)}</td></tr>
+                  <tr><th>Median</th><td>{formatDuration(stats.median)}</td></tr>
+                  <tr><th>95th percentile</th><td>{formatDuration(stats.p95)}</td></tr>
+                  <tr><th>Slowest</th><td>{formatDuration(stats.max)}</td></tr>
+                </tbody>
+              </table>
+          )}
+
+          <p>
+            <label htmlFor="synthetic-graph-size" className="text-muted">Load a synthetic graph:</label>{" "}
+            <select
+                id="synthetic-graph-size"
+                value={syntheticSize}
+                onChange={(e) => setSyntheticSize(Number(e.target.value))}
+            >
+              {BENCHMARK_GRAPH_SIZES.map((size) => <option key={size} value={size}>{size} nodes</option>)}
+            </select>{" "}
+            <button type="button" className="btn" onClick={() => loadSyntheticGraph(syntheticSize)}>
+              Load
+            </button>
+          </p>
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default PerformancePanel;
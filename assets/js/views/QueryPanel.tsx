@@ -0,0 +1,127 @@
+import { FC, FormEvent, useEffect, useMemo, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { BiChevronDown, BiChevronUp, BiHelpCircle } from "react-icons/bi";
+import AnimateHeight from "react-animate-height";
+import { FiltersState } from '@/types';
+import { getQueryMatches, parseQuery, QuerySyntaxError } from '@/utils/query-utils';
+
+interface QueryPanelProps {
+  graphRevision: number;
+  filters: FiltersState;
+  setQuery: (query: string, queryNeighbors: boolean) => void;
+}
+
+const QUERY_EXAMPLES: [string, string][] = [
+  ['namespace:App\\Domain\\* type:interface', 'Interfaces of App\\Domain and its sub-namespaces'],
+  ['depends-on:LoggerInterface depth:2', 'Nodes depending on LoggerInterface, directly or through another node'],
+  ['used-by:OrderService', 'Dependencies of OrderService'],
+  ['fanin>10 OR fanout>=20', 'Metric comparisons: degree, fanin, fanout, instability, abstractness, distance'],
+  ['file:src/Web/*', 'Nodes whose file path matches'],
+  ['abstract:true -final:true', 'Abstract classes, "-" or NOT negating a term'],
+  ['(type:class OR type:trait) AND name:*Controller', 'Parentheses, AND and OR, "*" and "?" wildcards']
+];
+
+const QueryPanel: FC<QueryPanelProps> = ({ graphRevision, filters, setQuery }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [collapsed, setCollapsed] = useState(false);
+  const [showHelp, setShowHelp] = useState(false);
+  const [input, setInput] = useState(filters.query || '');
+
+  // Follow the query restored from the URL
+  useEffect(() => {
+    setInput(filters.query || '');
+  }, [filters.query]);
+
+  const syntaxError = useMemo(() => {
+    try {
+      parseQuery(input);
+      return null;
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) return error;
+      throw error;
+    }
+  }, [input]);
+
+  const matchCount = useMemo(() => {
+    if (!filters.query) return null;
+    try {
+      return getQueryMatches(graph, parseQuery(filters.query)).size;
+    } catch (error) {
+      return null;
+    }
+  }, [graph, graphRevision, filters.query]);
+
+  const submitQuery = (e: FormEvent) => {
+    e.preventDefault();
+    if (!syntaxError) {
+      setQuery(input.trim(), !!filters.queryNeighbors);
+    }
+  };
+
+  const clearQuery = () => {
+    setInput('');
+    setQuery('', !!filters.queryNeighbors);
+  };
+
+  return (
+      <div className="panel query">
+        <h2>
+          Query
+          <button type="button" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? <BiChevronDown /> : <BiChevronUp />}
+          </button>
+        </h2>
+        <AnimateHeight height={collapsed ? 0 : "auto"}>
+          <form onSubmit={submitQuery}>
+            <input
+                type="search"
+                placeholder="namespace:App\Domain\* type:interface"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                spellCheck={false}
+            />
+            {syntaxError && (
+                <p className="query-error">{syntaxError.message} (at character {syntaxError.position + 1})</p>
+            )}
+            <div className="buttons">
+              <button type="submit" className="btn" disabled={!!syntaxError}>Apply</button>
+              <button type="button" className="btn" onClick={clearQuery} disabled={!input && !filters.query}>Clear</button>
+              <button type="button" className="btn" onClick={() => setShowHelp(!showHelp)} title="Query syntax">
+                <BiHelpCircle />
+              </button>
+            </div>
+          </form>
+          <ul>
+            <li className="caption-row">
+              <input
+                  type="checkbox"
+                  id="query-neighbors"
+                  checked={!!filters.queryNeighbors}
+                  onChange={() => setQuery(filters.query || '', !filters.queryNeighbors)}
+              />
+              <label htmlFor="query-neighbors">
+                <span className="circle"></span>
+                <span className="node-label">Include direct neighbors</span>
+              </label>
+            </li>
+          </ul>
+          {matchCount !== null && (
+              <p className="text-muted">{matchCount} node{matchCount !== 1 ? 's' : ''} matching "{filters.query}"</p>
+          )}
+          {showHelp && (
+              <dl className="query-help text-small">
+                {QUERY_EXAMPLES.map(([example, description]) => (
+                    <div key={example}>
+                      <dt className="mouse-pointer" onClick={() => setInput(example)}><code>{example}</code></dt>
+                      <dd className="text-muted">{description}</dd>
+                    </div>
+                ))}
+              </dl>
+          )}
+        </AnimateHeight>
+      </div>
+  );
+};
+
+export default QueryPanel;
@@ -0,0 +1,55 @@
+import { FC } from "react";
+import { GrClose } from "react-icons/gr";
+import { GraphReloadChanges } from '@/types';
+
+interface ReloadToastProps {
+  changes: GraphReloadChanges;
+  onClose: () => void;
+}
+
+// Number of added or removed classes listed by name
+const MAX_LISTED_NODES = 3;
+
+const pluralize = (count: number, singular: string, plural: string): string => `${count} ${count === 1 ? singular : plural}`;
+
+const listNodes = (nodes: string[]): string => {
+  const labels = nodes.slice(0, MAX_LISTED_NODES).map((node) => node.split('\\').pop() || node);
+  return labels.join(', ') + (nodes.length > MAX_LISTED_NODES ? ` and ${nodes.length - MAX_LISTED_NODES} more` : '');
+};
+
+/**
+ * Summary of the changes of the graph data, shown when it is reloaded
+ */
+const ReloadToast: FC<ReloadToastProps> = ({ changes, onClose }) => {
+  const { addedNodes, removedNodes, addedEdges, removedEdges } = changes;
+  const unchanged = addedNodes.length + removedNodes.length + addedEdges + removedEdges === 0;
+
+  return (
+      <div className="reload-toast" role="status">
+        <button type="button" className="close" onClick={onClose} title="Close">
+          <GrClose />
+        </button>
+        <strong>The graph was reloaded</strong>
+        {unchanged ? (
+            <p className="text-muted">No class or dependency changed.</p>
+        ) : (
+            <ul>
+              {addedNodes.length > 0 && (
+                  <li className="added">+ {pluralize(addedNodes.length, 'class', 'classes')}: {listNodes(addedNodes)}</li>
+              )}
+              {removedNodes.length > 0 && (
+                  <li className="removed">- {pluralize(removedNodes.length, 'class', 'classes')}: {listNodes(removedNodes)}</li>
+              )}
+              {(addedEdges > 0 || removedEdges > 0) && (
+                  <li>
+                    {pluralize(addedEdges, 'dependency', 'dependencies')} added,{" "}
+                    {pluralize(removedEdges, 'dependency', 'dependencies')} removed
+                  </li>
+              )}
+            </ul>
+        )}
+      </div>
+  );
+};
+
+export default ReloadToast;
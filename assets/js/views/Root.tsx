@@ -1,12 +1,13 @@
 import { FullScreenControl, SigmaContainer, ZoomControl } from "@react-sigma/core";
-import { FC, useEffect, useMemo, useState } from "react";
-import { BiBookContent, BiRadioCircleMarked } from "react-icons/bi";
+import { FC, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { BiBookContent, BiGridAlt, BiNetworkChart, BiRadioCircleMarked, BiSitemap, BiTable } from "react-icons/bi";
 import { BsArrowsFullscreen, BsFullscreenExit, BsZoomIn, BsZoomOut } from "react-icons/bs";
 import { GrClose } from "react-icons/gr";
 import { Settings } from "sigma/settings";
 
-import { drawHover, drawLabel } from "@/utils/canvas-utils";
-import { FiltersState, GraphData } from '@/types';
+import { drawHover } from "@/utils/canvas-utils";
+import { EDGE_PROGRAM_CLASSES, NODE_PROGRAM_CLASSES } from "@/utils/program-utils";
+import { ArchitectureRules, Cluster, DecodedGraphData, DependencyPath, FiltersState, FocusState, GraphDiagnostic, GraphDiff, GraphLoadProgress, GraphReloadChanges, GraphView, ImpactAnalysis, LayoutName, LayoutOptions, MetricKey, NodeColorMode, NodePositions, RecentGraph, Subgraph, ViewState } from '@/types';
 import DescriptionPanel from "./DescriptionPanel";
 import GraphDataController from "./GraphDataController";
 import GraphEventsController from "./GraphEventsController";
@@ -15,10 +16,84 @@ import GraphTitle from "./GraphTitle";
 import SearchField from "./SearchField";
 import TypesPanel from "./TypesPanel";
 import ForceAtlasControl from "./ForceAtlasControl";
+import ExportControl from "./ExportControl";
 import NodeDetailsPanel from "./NodeDetailsPanel";
-import { fetchGraphData } from '@/services/api';
+import NamespacesPanel from "./NamespacesPanel";
+import QueryPanel from "./QueryPanel";
+import FocusPanel from "./FocusPanel";
+import PathFinderPanel from "./PathFinderPanel";
+import CyclesPanel from "./CyclesPanel";
+import ImpactPanel from "./ImpactPanel";
+import MetricsPanel from "./MetricsPanel";
+import DiffPanel from "./DiffPanel";
+import DiagnosticsPanel from "./DiagnosticsPanel";
+import GraphSourcePanel from "./GraphSourcePanel";
+import FileDropZone from "./FileDropZone";
+import UrlStateController from "./UrlStateController";
+import LayoutController from "./LayoutController";
+import LayoutPanel from "./LayoutPanel";
+import ArchitecturePanel from "./ArchitecturePanel";
+import PerformancePanel from "./PerformancePanel";
+import LoadProgress from "./LoadProgress";
+import LiveReloadController from "./LiveReloadController";
+import ReloadToast from "./ReloadToast";
+import TreemapView from "./TreemapView";
+import DsmView from "./DsmView";
+import HierarchyView from "./HierarchyView";
+import { fetchGraphData, getApiUrl, getBaseUrl, readGraphFile } from '@/services/api';
+import { GraphLoadCallbacks } from '@/services/graph-loader';
+import { GraphDataError } from '@/services/graph-decoder';
+import { loadArchitectureRules, saveArchitectureRules } from '@/services/architecture-store';
+import { deleteRecentGraph, getRecentGraph, listRecentGraphs, saveRecentGraph } from '@/services/graph-store';
 import { DirectedGraph } from "graphology";
-import { buildGraph, initializeGraph } from '@/utils/graph-utils';
+import { appendGraphData, assignNodeDegrees, buildGraph, initializeGraph } from '@/utils/graph-utils';
+import { assignClusters } from '@/utils/cluster-utils';
+import { assignNodeMetrics } from '@/utils/metrics-utils';
+import { buildDiffGraph } from '@/utils/diff-utils';
+import { EMPTY_ARCHITECTURE_RULES, findRuleViolations } from '@/utils/architecture-utils';
+import { DEFAULT_LAYOUT_OPTIONS, getLayoutKey } from '@/utils/layout-utils';
+import { DEFAULT_FOCUS_DEPTH, getNeighborhood } from '@/utils/traversal-utils';
+import { getRenderSettings, PERFORMANCE_MODE_THRESHOLD } from '@/utils/performance-utils';
+import { generateSyntheticGraph } from '@/utils/benchmark-utils';
+import { mergeGraphData } from '@/utils/reload-utils';
+
+const DEFAULT_FILTERS: FiltersState = {
+  clusters: {},
+  tags: {},
+  nodeTypes: {
+    'class': true,
+    'trait': true,
+    'interface': true
+  },
+  edgeTypes: {
+    'extends': true,
+    'implements': true,
+    'usesTrait': true,
+    'use': true
+  },
+  query: '',
+  queryNeighbors: false,
+  namespaces: {}
+};
+
+// Duration of the summary of the changes of a reloaded graph, in milliseconds
+const RELOAD_TOAST_DURATION = 6000;
+
+/**
+ * Keep the problems of the saved settings when the diagnostics of new graph data replace the others
+ */
+const keepStorageDiagnostics = (diagnostics: GraphDiagnostic[]): GraphDiagnostic[] => {
+  return diagnostics.filter((diagnostic) => diagnostic.code === 'storage-failed');
+};
+
+/**
+ * Follow the focus to a node in the breadcrumb trail, going back to it if it was already focused
+ */
+const followFocusTrail = (trail: string[], node: string | null): string[] => {
+  if (node === null) return [];
+  const index = trail.indexOf(node);
+  return index === -1 ? [...trail, node] : trail.slice(0, index + 1);
+};
 
 const Root: FC = () => {
   const [graph, setGraph] = useState<DirectedGraph | null>(null);
@@ -27,62 +102,299 @@ const Root: FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
-
-  const [filtersState, setFiltersState] = useState<FiltersState>({
-    clusters: {},
-    tags: {},
-    nodeTypes: {
-      'class': true,
-      'trait': true,
-      'interface': true
-    },
-    edgeTypes: {
-      'extends': true,
-      'implements': true,
-      'usesTrait': true,
-      'use': true
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const [highlightedPaths, setHighlightedPaths] = useState<DependencyPath[]>([]);
+  const [highlightedCycle, setHighlightedCycle] = useState<Subgraph | null>(null);
+  const [highlightedChange, setHighlightedChange] = useState<Subgraph | null>(null);
+  const [highlightedViolation, setHighlightedViolation] = useState<Subgraph | null>(null);
+  const [impact, setImpact] = useState<ImpactAnalysis | null>(null);
+  const [graphDiff, setGraphDiff] = useState<GraphDiff | null>(null);
+  const [recentGraphs, setRecentGraphs] = useState<RecentGraph[]>([]);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<GraphDiagnostic[]>([]);
+  const [clusters, setClusters] = useState<Cluster[]>([]);
+  const [collapsedNamespaces, setCollapsedNamespaces] = useState<string[]>([]);
+  const [colorMode, setColorMode] = useState<NodeColorMode>('type');
+  const [sizeMetric, setSizeMetric] = useState<MetricKey>('degree');
+  const [focusedNamespace, setFocusedNamespace] = useState<string | null>(null);
+  const [layout, setLayout] = useState<LayoutName>('circular');
+  const [layoutOptions, setLayoutOptions] = useState<LayoutOptions>(DEFAULT_LAYOUT_OPTIONS);
+  const [customPositions, setCustomPositions] = useState<NodePositions | null>(null);
+  const [focus, setFocus] = useState<FocusState | null>(null);
+  const [focusTrail, setFocusTrail] = useState<string[]>([]);
+  // Architecture rules of the previous visits, which are left empty when they cannot be read
+  const [savedArchitecture] = useState(() => {
+    try {
+      return { rules: loadArchitectureRules(), error: null };
+    } catch (err) {
+      return { rules: EMPTY_ARCHITECTURE_RULES, error: err };
     }
   });
+  const [architecture, setArchitecture] = useState<ArchitectureRules>(savedArchitecture.rules);
+  const [performanceMode, setPerformanceMode] = useState(false);
+  const [layoutProgress, setLayoutProgress] = useState<number | null>(null);
+  const [loadProgress, setLoadProgress] = useState<GraphLoadProgress | null>(null);
+  // Graph displayed while the graph data is received on the first load
+  const [previewGraph, setPreviewGraph] = useState<DirectedGraph | null>(null);
+  // Whether the displayed graph is the one of the server, which is reloaded when it changes
+  const [serverGraph, setServerGraph] = useState(false);
+  const [liveReload, setLiveReload] = useState(true);
+  const [reloadChanges, setReloadChanges] = useState<GraphReloadChanges | null>(null);
+  // Incremented when the nodes and edges of the displayed graph change without the graph being replaced
+  const [graphRevision, setGraphRevision] = useState(0);
+  const [view, setView] = useState<GraphView>('graph');
+
+  // Key of the layout the current node positions come from
+  const appliedLayoutKey = useRef(getLayoutKey('circular', DEFAULT_LAYOUT_OPTIONS));
+
+  const [filtersState, setFiltersState] = useState<FiltersState>(DEFAULT_FILTERS);
 
   const sigmaSettings: Partial<Settings> = useMemo(
       () => ({
-        defaultDrawNodeLabel: drawLabel,
+        ...getRenderSettings(false),
         defaultDrawNodeHover: drawHover,
-        labelDensity: 0.07,
-        labelGridCellSize: 60,
-        labelRenderedSizeThreshold: 15,
+        defaultEdgeType: 'arrow',
+        nodeProgramClasses: NODE_PROGRAM_CLASSES,
+        edgeProgramClasses: EDGE_PROGRAM_CLASSES,
         labelFont: "Public Sans, sans-serif",
         zIndex: true,
       }),
       []
   );
 
-  // Load graph data on mount
+  const previewSettings: Partial<Settings> = useMemo(
+      () => ({ ...sigmaSettings, ...getRenderSettings(true) }),
+      [sigmaSettings]
+  );
+
+  // Report a problem that is not found in the graph data, once until the data is loaded again
+  const reportDiagnostic = useCallback((diagnostic: GraphDiagnostic) => {
+    setDiagnostics(prev => prev.some((item) => item.code === diagnostic.code && item.message === diagnostic.message)
+        ? prev
+        : [...prev, diagnostic]);
+  }, []);
+
+  // Build the graph to display, either from a single snapshot or from the differences between two of them,
+  // unless it was already built while the data was received
+  const loadGraphData = useCallback((
+      decoded: DecodedGraphData,
+      baseDecoded: DecodedGraphData | null = null,
+      streamedGraph: DirectedGraph | null = null
+  ) => {
+    let newGraph: DirectedGraph;
+    let newDiff: GraphDiff | null = null;
+
+    if (baseDecoded) {
+      ({ graph: newGraph, diff: newDiff } = buildDiffGraph(baseDecoded.data, decoded.data));
+    } else {
+      // Build graph from the API data
+      newGraph = streamedGraph || buildGraph(decoded.data);
+    }
+
+    // Report the problems found in the data, telling those of the base snapshot apart
+    setDiagnostics(prev => [
+      ...keepStorageDiagnostics(prev),
+      ...decoded.diagnostics,
+      ...(baseDecoded?.diagnostics || []).map((diagnostic) => ({
+        ...diagnostic,
+        message: `Base snapshot: ${diagnostic.message}`
+      }))
+    ]);
+
+    // Initialize node sizes based on connectivity
+    initializeGraph(newGraph);
+
+    // Group nodes by top-level namespace
+    const newClusters = assignClusters(newGraph);
+    setClusters(newClusters);
+    setFiltersState(prev => ({
+      ...prev,
+      clusters: Object.fromEntries(newClusters.map((cluster) => [cluster.key, true])),
+      namespaces: {}
+    }));
+
+    // Compute the coupling metrics of every node
+    assignNodeMetrics(newGraph);
+
+    setReloadChanges(null);
+
+    // The nodes selected, focused, collapsed or highlighted belong to the previous graph
+    setHoveredNode(null);
+    setSelectedNode(null);
+    setFocus(null);
+    setFocusTrail([]);
+    setFocusedNamespace(null);
+    setCollapsedNamespaces([]);
+    setHighlightedPaths([]);
+
+    // Large graphs are rendered in performance mode, and laid out by a force layout in a worker
+    const largeGraph = newGraph.order >= PERFORMANCE_MODE_THRESHOLD;
+    setPerformanceMode(largeGraph);
+    if (largeGraph) setLayout('force');
+
+    setGraphDiff(newDiff);
+    setColorMode(newDiff ? 'diff' : 'type');
+    setGraph(newGraph);
+  }, []);
+
+  // Load graph data on mount, along with the base graph to compare it with, if any
   useEffect(() => {
     const loadGraph = async () => {
       try {
         setLoading(true);
-        const graphData: GraphData = await fetchGraphData();
+        const baseUrl = getBaseUrl();
 
-        // Build graph from the API data
-        const newGraph = buildGraph(graphData);
+        // The graph is displayed while it is received
+        const streamedGraph = new DirectedGraph();
+        setPreviewGraph(streamedGraph);
 
-        // Initialize node sizes based on connectivity
-        initializeGraph(newGraph);
+        // The graph is displayed alone when the base graph cannot be loaded
+        const baseLoad = baseUrl
+            ? fetchGraphData(baseUrl).then((data) => ({ data, error: null }), (error: unknown) => ({ data: null, error }))
+            : Promise.resolve({ data: null, error: null });
+        const decoded = await fetchGraphData(getApiUrl(), {
+          onProgress: setLoadProgress,
+          onBatch: (batch) => appendGraphData(streamedGraph, batch)
+        });
+        const { data: baseDecoded, error: baseError } = await baseLoad;
 
-        setGraph(newGraph);
+        loadGraphData(decoded, baseDecoded, baseDecoded ? null : streamedGraph);
+        setServerGraph(!baseDecoded);
+        if (baseError !== null) {
+          reportDiagnostic({
+            severity: 'error',
+            code: 'base-failed',
+            message: baseError instanceof GraphDataError
+                ? `Invalid base snapshot ${baseUrl}: ${baseError.message}`
+                : `Could not load the base snapshot ${baseUrl}: ${baseError instanceof Error ? baseError.message : String(baseError)}`
+          });
+        }
         setDataReady(true);
         setLoading(false);
       } catch (err) {
         console.error('Failed to load graph:', err);
-        setError('Failed to load graph data. Please check the API endpoint.');
+        setError(err instanceof GraphDataError
+            ? `Invalid graph data: ${err.message}`
+            : 'Failed to load graph data. Please check the API endpoint.');
         setLoading(false);
+      } finally {
+        setPreviewGraph(null);
+        setLoadProgress(null);
       }
     };
 
     loadGraph();
+  }, [loadGraphData, reportDiagnostic]);
+
+  // Merge a new version of the graph data into the displayed graph, which keeps its positions and display settings
+  const reloadGraphData = useCallback((decoded: DecodedGraphData) => {
+    if (!graph) return;
+
+    setDiagnostics(prev => [...keepStorageDiagnostics(prev), ...decoded.diagnostics]);
+    const changes = mergeGraphData(graph, buildGraph(decoded.data));
+
+    assignNodeDegrees(graph);
+    const newClusters = assignClusters(graph);
+    setClusters(newClusters);
+    setFiltersState(prev => ({
+      ...prev,
+      clusters: Object.fromEntries(newClusters.map((cluster) => [cluster.key, prev.clusters[cluster.key] ?? true]))
+    }));
+    assignNodeMetrics(graph);
+
+    setReloadChanges(changes);
+    setGraphRevision((revision) => revision + 1);
+  }, [graph]);
+
+  // The summary of the changes of a reload is hidden after a while
+  useEffect(() => {
+    if (!reloadChanges) return;
+    const timeout = setTimeout(() => setReloadChanges(null), RELOAD_TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [reloadChanges]);
+
+  const compareGraphFiles = useCallback(async (baseFile: File, headFile: File) => {
+    const [baseDecoded, decoded] = await Promise.all([readGraphFile(baseFile), readGraphFile(headFile)]);
+    loadGraphData(decoded, baseDecoded);
+    setServerGraph(false);
+  }, [loadGraphData]);
+
+  // List the graphs that were loaded from files or URLs
+  const refreshRecentGraphs = useCallback(() => {
+    listRecentGraphs()
+        .then(setRecentGraphs)
+        .catch((err) => console.error('Failed to list the recent graphs:', err));
   }, []);
 
+  useEffect(refreshRecentGraphs, [refreshRecentGraphs]);
+
+  // Load a graph from another source, remembering it when it comes from a file or a URL
+  const openGraph = useCallback(async (
+      load: (callbacks: GraphLoadCallbacks) => Promise<DecodedGraphData>,
+      recent: { name: string; source: RecentGraph['source'] } | null = null,
+      fromServer = false
+  ) => {
+    setSourceError(null);
+
+    // Streamed graph data is added to a new graph as it is decoded, instead of once it is complete
+    const streamedGraph = new DirectedGraph();
+    let decoded: DecodedGraphData;
+    try {
+      decoded = await load({
+        onProgress: setLoadProgress,
+        onBatch: (batch) => appendGraphData(streamedGraph, batch)
+      });
+    } catch (err) {
+      setSourceError(err instanceof GraphDataError
+          ? `Invalid graph data: ${err.message}`
+          : `Failed to load the graph: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    } finally {
+      setLoadProgress(null);
+    }
+
+    loadGraphData(decoded, null, streamedGraph.order > 0 ? streamedGraph : null);
+    setServerGraph(fromServer);
+    setError(null);
+    setDataReady(true);
+
+    if (recent) {
+      saveRecentGraph(recent.name, recent.source, decoded)
+          .then(refreshRecentGraphs)
+          .catch((err) => console.error('Failed to save the recent graph:', err));
+    }
+  }, [loadGraphData, refreshRecentGraphs]);
+
+  const loadDefaultGraph = useCallback(() => openGraph((callbacks) => fetchGraphData(getApiUrl(), callbacks), null, true), [openGraph]);
+
+  const loadGraphFromUrl = useCallback((url: string) => {
+    openGraph((callbacks) => fetchGraphData(url, callbacks), { name: url, source: 'url' });
+  }, [openGraph]);
+
+  const loadGraphFromFile = useCallback((file: File) => {
+    openGraph((callbacks) => readGraphFile(file, callbacks), { name: file.name, source: 'file' });
+  }, [openGraph]);
+
+  const loadSyntheticGraph = useCallback((nodeCount: number) => {
+    openGraph(async () => ({ data: generateSyntheticGraph(nodeCount), diagnostics: [] }));
+  }, [openGraph]);
+
+  const loadRecentGraph = useCallback((id: string) => {
+    openGraph(async () => {
+      const recentGraph = await getRecentGraph(id);
+      if (!recentGraph) {
+        throw new Error('This graph is no longer available');
+      }
+      return { data: recentGraph.data, diagnostics: recentGraph.diagnostics || [] };
+    });
+  }, [openGraph]);
+
+  const forgetRecentGraph = useCallback((id: string) => {
+    deleteRecentGraph(id)
+        .then(refreshRecentGraphs)
+        .catch((err) => console.error('Failed to forget the recent graph:', err));
+  }, [refreshRecentGraphs]);
+
   // Update node and edge filters
   const setNodeTypes = (nodeTypes: { [key: string]: boolean }) => {
     setFiltersState(prev => ({
@@ -98,20 +410,174 @@ const Root: FC = () => {
     }));
   };
 
+  const setClusterFilters = (clusters: { [key: string]: boolean }) => {
+    setFiltersState(prev => ({
+      ...prev,
+      clusters
+    }));
+  };
+
+  const setNamespaceFilters = (namespaces: { [namespace: string]: boolean }) => {
+    setFiltersState(prev => ({
+      ...prev,
+      namespaces
+    }));
+  };
+
+  const setQuery = (query: string, queryNeighbors: boolean) => {
+    setFiltersState(prev => ({
+      ...prev,
+      query,
+      queryNeighbors
+    }));
+  };
+
+  // Nodes within the chosen number of hops from the focused node, following the displayed edge types
+  const focusNodes = useMemo(() => {
+    if (!graph || !focus || !graph.hasNode(focus.node)) return null;
+    const edgeTypes = filtersState.edgeTypes;
+    return getNeighborhood(graph, [focus.node], focus.direction, focus.depth, (attributes) => !edgeTypes || edgeTypes[attributes.entityType] !== false);
+  }, [graph, graphRevision, focus, filtersState.edgeTypes]);
+
+  const focusOnNode = useCallback((node: string) => {
+    setFocus(prev => ({ depth: prev?.depth ?? DEFAULT_FOCUS_DEPTH, direction: prev?.direction ?? 'both', node }));
+    setFocusTrail(prev => followFocusTrail(prev, node));
+    setSelectedNode(node);
+  }, []);
+
+  const leaveFocus = useCallback(() => {
+    setFocus(null);
+    setFocusTrail([]);
+  }, []);
+
+  const expandNamespace = useCallback((namespace: string) => {
+    setCollapsedNamespaces(prev => prev.filter((item) => item !== namespace));
+  }, []);
+
+  // State shared through the URL
+  const viewState: ViewState = {
+    filters: filtersState,
+    selectedNode,
+    focusedNamespace,
+    collapsedNamespaces,
+    colorMode,
+    sizeMetric,
+    layout,
+    layoutOptions,
+    focus
+  };
+
+  const defaultViewState: ViewState = useMemo(() => ({
+    filters: {
+      ...DEFAULT_FILTERS,
+      clusters: Object.fromEntries(clusters.map((cluster) => [cluster.key, true]))
+    },
+    selectedNode: null,
+    focusedNamespace: null,
+    collapsedNamespaces: [],
+    colorMode: graphDiff ? 'diff' : 'type',
+    sizeMetric: 'degree',
+    layout: graph && graph.order >= PERFORMANCE_MODE_THRESHOLD ? 'force' : 'circular',
+    layoutOptions: DEFAULT_LAYOUT_OPTIONS,
+    focus: null
+  }), [graph, clusters, graphDiff]);
+
+  const applyViewState = useCallback((state: ViewState) => {
+    setFiltersState(state.filters);
+    setSelectedNode(state.selectedNode);
+    setFocusedNamespace(state.focusedNamespace);
+    setCollapsedNamespaces(state.collapsedNamespaces);
+    setColorMode(state.colorMode);
+    setSizeMetric(state.sizeMetric);
+    setLayout(state.layout);
+    setLayoutOptions(state.layoutOptions);
+    setFocus(state.focus);
+    setFocusTrail(prev => followFocusTrail(prev, state.focus?.node ?? null));
+  }, []);
+
+  // The live ForceAtlas2 layout starts from the current positions, so it must not be applied again
+  const startLiveLayout = useCallback(() => {
+    appliedLayoutKey.current = getLayoutKey('forceAtlas2', layoutOptions);
+    setLayout('forceAtlas2');
+  }, [layoutOptions]);
+
+  // Saved positions are applied through the custom layout, the nodes missing from them stay in place
+  const applyCustomPositions = useCallback((positions: NodePositions) => {
+    setCustomPositions({ ...positions });
+    setLayout('custom');
+  }, []);
+
+  // Tell why the architecture rules of the previous visits are missing
+  useEffect(() => {
+    const { error: readError } = savedArchitecture;
+    if (readError === null) return;
+    reportDiagnostic({
+      severity: 'warning',
+      code: 'storage-failed',
+      message: `Could not read the saved architecture rules: ${readError instanceof Error ? readError.message : String(readError)}`
+    });
+  }, [savedArchitecture, reportDiagnostic]);
+
+  // Keep the architecture rules for the next visits
+  useEffect(() => {
+    try {
+      saveArchitectureRules(architecture);
+    } catch (err) {
+      reportDiagnostic({
+        severity: 'warning',
+        code: 'storage-failed',
+        message: `Could not save the architecture rules: ${err instanceof Error ? err.message : String(err)}`
+      });
+    }
+  }, [architecture, reportDiagnostic]);
+
+  // Dependencies breaking the architecture rules
+  const violations = useMemo(() => graph ? findRuleViolations(graph, architecture) : [], [graph, graphRevision, architecture]);
+  const violatingEdges = useMemo(() => new Set(violations.map((violation) => violation.edge)), [violations]);
+
+  // Paths, cycles, diff changes and rule violations are highlighted together on the graph
+  const highlightedSubgraphs = useMemo(
+      () => [...highlightedPaths, highlightedCycle, highlightedChange, highlightedViolation]
+          .filter((subgraph): subgraph is Subgraph => !!subgraph),
+      [highlightedPaths, highlightedCycle, highlightedChange, highlightedViolation]
+  );
+
   if (loading) {
     return (
         <div className="loading-state">
+          {previewGraph && <SigmaContainer graph={previewGraph} settings={previewSettings} className="react-sigma graph-preview" />}
           <div className="loading-spinner"></div>
-          <p>Loading graph data...</p>
+          {loadProgress
+              ? <LoadProgress progress={loadProgress} nodeCount={previewGraph?.order} />
+              : <p>Loading graph data...</p>}
         </div>
     );
   }
 
+  const loadProgressBar = loadProgress && <LoadProgress progress={loadProgress} />;
+
+  const graphSourcePanel = (
+      <GraphSourcePanel
+          recentGraphs={recentGraphs}
+          sourceError={sourceError}
+          loadDefaultGraph={loadDefaultGraph}
+          liveReload={liveReload}
+          setLiveReload={setLiveReload}
+          loadGraphFromUrl={loadGraphFromUrl}
+          loadGraphFromFile={loadGraphFromFile}
+          loadRecentGraph={loadRecentGraph}
+          forgetRecentGraph={forgetRecentGraph}
+      />
+  );
+
   if (error) {
     return (
         <div className="error-state">
+          <FileDropZone onDropFile={loadGraphFromFile} />
           <h2>Error</h2>
           <p>{error}</p>
+          {loadProgressBar}
+          {graphSourcePanel}
         </div>
     );
   }
@@ -119,18 +585,94 @@ const Root: FC = () => {
   if (!graph) {
     return (
         <div className="error-state">
+          <FileDropZone onDropFile={loadGraphFromFile} />
           <h2>No Data</h2>
           <p>No graph data available.</p>
+          {loadProgressBar}
+          {graphSourcePanel}
         </div>
     );
   }
 
   return (
       <div id="app-root" className={showContents ? "show-contents" : ""}>
+        <FileDropZone onDropFile={loadGraphFromFile} />
         <SigmaContainer graph={graph} settings={sigmaSettings} className="react-sigma">
-          <GraphSettingsController hoveredNode={hoveredNode} />
-          <GraphEventsController setHoveredNode={setHoveredNode} />
-          <GraphDataController filters={filtersState} />
+          <GraphSettingsController
+              hoveredNode={hoveredNode}
+              selectedNode={selectedNode}
+              highlightedSubgraphs={highlightedSubgraphs}
+              violatingEdges={violatingEdges}
+              focusedNamespace={focusedNamespace}
+              impact={impact}
+              performanceMode={performanceMode}
+          />
+          <GraphEventsController
+              setHoveredNode={setHoveredNode}
+              setSelectedNode={setSelectedNode}
+              expandNamespace={expandNamespace}
+          />
+          <GraphDataController
+              graphRevision={graphRevision}
+              filters={filtersState}
+              collapsedNamespaces={collapsedNamespaces}
+              colorMode={colorMode}
+              sizeMetric={sizeMetric}
+              focusNodes={focusNodes}
+          />
+          <LayoutController
+              layout={layout}
+              layoutOptions={layoutOptions}
+              customPositions={customPositions}
+              focusNodes={focusNodes}
+              appliedLayoutKey={appliedLayoutKey}
+              performanceMode={performanceMode}
+              setLayoutProgress={setLayoutProgress}
+          />
+          <LiveReloadController
+              enabled={liveReload && serverGraph}
+              reloadGraphData={reloadGraphData}
+              reportDiagnostic={reportDiagnostic}
+              changes={reloadChanges}
+          />
+          <UrlStateController
+              viewState={viewState}
+              defaultViewState={defaultViewState}
+              applyViewState={applyViewState}
+          />
+
+          {loadProgressBar}
+
+          {layoutProgress !== null && (
+              <div className="layout-progress" role="status">
+                Computing the layout... {Math.round(layoutProgress * 100)}%
+                <progress max={1} value={layoutProgress} />
+              </div>
+          )}
+
+          {view === 'treemap' && (
+              <TreemapView
+                  graphRevision={graphRevision}
+                  filters={filtersState}
+                  selectedNode={selectedNode}
+                  setSelectedNode={setSelectedNode}
+                  setView={setView}
+              />
+          )}
+          {view === 'matrix' && (
+              <DsmView graphRevision={graphRevision} selectedNode={selectedNode} setSelectedNode={setSelectedNode} setView={setView} />
+          )}
+          {view === 'hierarchy' && (
+              <HierarchyView
+                  graphRevision={graphRevision}
+                  filters={filtersState}
+                  selectedNode={selectedNode}
+                  setSelectedNode={setSelectedNode}
+                  setView={setView}
+              />
+          )}
+
+          {reloadChanges && <ReloadToast changes={reloadChanges} onClose={() => setReloadChanges(null)} />}
 
           {dataReady && (
               <>
@@ -145,7 +687,35 @@ const Root: FC = () => {
                       <BiBookContent />
                     </button>
                   </div>
-                  <ForceAtlasControl />
+                  <div className="react-sigma-control ico">
+                    <button
+                        type="button"
+                        onClick={() => setView(view === 'treemap' ? 'graph' : 'treemap')}
+                        title={view === 'treemap' ? "Show the graph" : "Show the namespace treemap"}
+                    >
+                      {view === 'treemap' ? <BiNetworkChart /> : <BiGridAlt />}
+                    </button>
+                  </div>
+                  <div className="react-sigma-control ico">
+                    <button
+                        type="button"
+                        onClick={() => setView(view === 'matrix' ? 'graph' : 'matrix')}
+                        title={view === 'matrix' ? "Show the graph" : "Show the dependency structure matrix"}
+                    >
+                      {view === 'matrix' ? <BiNetworkChart /> : <BiTable />}
+                    </button>
+                  </div>
+                  <div className="react-sigma-control ico">
+                    <button
+                        type="button"
+                        onClick={() => setView(view === 'hierarchy' ? 'graph' : 'hierarchy')}
+                        title={view === 'hierarchy' ? "Show the graph" : "Show the inheritance hierarchy"}
+                    >
+                      {view === 'hierarchy' ? <BiNetworkChart /> : <BiSitemap />}
+                    </button>
+                  </div>
+                  <ForceAtlasControl layout={layout} startLiveLayout={startLiveLayout} />
+                  <ExportControl />
                   <FullScreenControl className="ico">
                     <BsArrowsFullscreen />
                     <BsFullscreenExit />
@@ -170,14 +740,100 @@ const Root: FC = () => {
                   </div>
                   <GraphTitle />
                   <div className="panels">
-                    <SearchField filters={filtersState} />
-                    <NodeDetailsPanel hoveredNode={hoveredNode} />
+                    <SearchField filters={filtersState} setSelectedNode={setSelectedNode} />
+                    <QueryPanel graphRevision={graphRevision} filters={filtersState} setQuery={setQuery} />
+                    {focus && focusNodes && (
+                        <FocusPanel
+                            focus={focus}
+                            focusTrail={focusTrail}
+                            focusNodeCount={focusNodes.size}
+                            setFocus={setFocus}
+                            focusOnNode={focusOnNode}
+                            leaveFocus={leaveFocus}
+                        />
+                    )}
+                    {diagnostics.length > 0 && (
+                        <DiagnosticsPanel diagnostics={diagnostics} setSelectedNode={setSelectedNode} />
+                    )}
+                    <NodeDetailsPanel
+                        graphRevision={graphRevision}
+                        hoveredNode={hoveredNode}
+                        selectedNode={selectedNode}
+                        setSelectedNode={setSelectedNode}
+                        focusOnNode={focusOnNode}
+                    />
+                    <PathFinderPanel
+                        graphRevision={graphRevision}
+                        filters={filtersState}
+                        collapsedNamespaces={collapsedNamespaces}
+                        setHighlightedPaths={setHighlightedPaths}
+                        setSelectedNode={setSelectedNode}
+                    />
+                    <ImpactPanel
+                        graphRevision={graphRevision}
+                        filters={filtersState}
+                        selectedNode={selectedNode}
+                        setImpact={setImpact}
+                        setSelectedNode={setSelectedNode}
+                    />
+                    <CyclesPanel graphRevision={graphRevision} setHighlightedCycle={setHighlightedCycle} />
+                    <ArchitecturePanel
+                        graphRevision={graphRevision}
+                        architecture={architecture}
+                        setArchitecture={setArchitecture}
+                        violations={violations}
+                        setHighlightedViolation={setHighlightedViolation}
+                        setSelectedNode={setSelectedNode}
+                    />
+                    <DiffPanel
+                        graphDiff={graphDiff}
+                        compareGraphFiles={compareGraphFiles}
+                        colorMode={colorMode}
+                        setColorMode={setColorMode}
+                        setHighlightedChange={setHighlightedChange}
+                        setSelectedNode={setSelectedNode}
+                    />
+                    <MetricsPanel
+                        graphRevision={graphRevision}
+                        sizeMetric={sizeMetric}
+                        setSizeMetric={setSizeMetric}
+                        colorMode={colorMode}
+                        setColorMode={setColorMode}
+                        setSelectedNode={setSelectedNode}
+                    />
+                    <LayoutPanel
+                        layout={layout}
+                        setLayout={setLayout}
+                        layoutOptions={layoutOptions}
+                        setLayoutOptions={setLayoutOptions}
+                        applyCustomPositions={applyCustomPositions}
+                        reportDiagnostic={reportDiagnostic}
+                    />
+                    <PerformancePanel
+                        performanceMode={performanceMode}
+                        setPerformanceMode={setPerformanceMode}
+                        loadSyntheticGraph={loadSyntheticGraph}
+                    />
                     <DescriptionPanel />
                     <TypesPanel
                         filters={filtersState}
                         setNodeTypes={setNodeTypes}
                         setEdgeTypes={setEdgeTypes}
                     />
+                    <NamespacesPanel
+                        graphRevision={graphRevision}
+                        clusters={clusters}
+                        filters={filtersState}
+                        setClusters={setClusterFilters}
+                        setNamespaces={setNamespaceFilters}
+                        colorMode={colorMode}
+                        setColorMode={setColorMode}
+                        collapsedNamespaces={collapsedNamespaces}
+                        setCollapsedNamespaces={setCollapsedNamespaces}
+                        focusedNamespace={focusedNamespace}
+                        setFocusedNamespace={setFocusedNamespace}
+                    />
+                    {graphSourcePanel}
                   </div>
                 </div>
               </>
@@ -1,95 +1,49 @@
 import { useSigma } from "@react-sigma/core";
-import { Attributes } from "graphology-types";
-import { ChangeEvent, FC, KeyboardEvent, useEffect, useState } from "react";
+import { FC, useEffect, useState } from "react";
 import { BsSearch } from "react-icons/bs";
+import { DirectedGraph } from "graphology";
 
 import { FiltersState } from '@/types';
+import { animateToNode } from '@/utils/sigma-utils';
+import NodeAutocomplete from "./NodeAutocomplete";
 
-const SearchField: FC<{ filters: FiltersState }> = ({ filters }) => {
-  const sigma = useSigma();
-
-  const [search, setSearch] = useState<string>("");
-  const [values, setValues] = useState<Array<{ id: string; label: string }>>([]);
-  const [selected, setSelected] = useState<string | null>(null);
+type SearchFieldProps = {
+  filters: FiltersState;
+  setSelectedNode: (node: string | null) => void;
+};
 
-  const refreshValues = () => {
-    const newValues: Array<{ id: string; label: string }> = [];
-    const lcSearch = search.toLowerCase();
-    if (!selected && search.length > 1) {
-      sigma.getGraph().forEachNode((key: string, attributes: Attributes): void => {
-        if (!attributes.hidden && attributes.label &&
-            attributes.label.toLowerCase().indexOf(lcSearch) !== -1)
-          newValues.push({ id: key, label: attributes.label });
-      });
-    }
-    setValues(newValues);
-  };
+const SearchField: FC<SearchFieldProps> = ({ filters, setSelectedNode }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
 
-  // Refresh values when search is updated:
-  useEffect(() => refreshValues(), [search]);
+  // The searched node is kept along with its graph, so that it is forgotten when another graph is loaded
+  const [searched, setSearched] = useState<{ graph: DirectedGraph; node: string } | null>(null);
+  const selected = searched && searched.graph === graph ? searched.node : null;
 
-  // Refresh values when filters are updated (but wait a frame first):
   useEffect(() => {
-    requestAnimationFrame(refreshValues);
-  }, [filters]);
+    if (!selected || !graph.hasNode(selected)) return;
 
-  useEffect(() => {
-    if (!selected) return;
-
-    sigma.getGraph().setNodeAttribute(selected, "highlighted", true);
-    const nodeDisplayData = sigma.getNodeDisplayData(selected);
-
-    if (nodeDisplayData)
-      sigma.getCamera().animate(
-          { ...nodeDisplayData, ratio: 0.05 },
-          {
-            duration: 600,
-          },
-      );
+    graph.setNodeAttribute(selected, "highlighted", true);
+    setSelectedNode(selected);
+    animateToNode(sigma, selected);
 
     return () => {
-      sigma.getGraph().setNodeAttribute(selected, "highlighted", false);
+      // The node may have been removed from the graph since, by a reload or an expanded namespace
+      if (graph.hasNode(selected)) {
+        graph.setNodeAttribute(selected, "highlighted", false);
+      }
     };
-  }, [selected, sigma]);
-
-  const onInputChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const searchString = e.target.value;
-    const valueItem = values.find((value) => value.label === searchString);
-    if (valueItem) {
-      setSearch(valueItem.label);
-      setValues([]);
-      setSelected(valueItem.id);
-    } else {
-      setSelected(null);
-      setSearch(searchString);
-    }
-  };
-
-  const onKeyPress = (e: KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter" && values.length) {
-      setSearch(values[0].label);
-      setSelected(values[0].id);
-    }
-  };
+  }, [selected, graph, sigma, setSelectedNode]);
 
   return (
       <div className="search-wrapper">
-        <input
-            type="search"
+        <NodeAutocomplete
+            listId="nodes"
             placeholder="Search for classes, traits, and interfaces..."
-            list="nodes"
-            value={search}
-            onChange={onInputChange}
-            onKeyPress={onKeyPress}
+            filters={filters}
+            onSelect={(node) => setSearched(node ? { graph, node } : null)}
         />
         <BsSearch className="icon" />
-        <datalist id="nodes">
-          {values.map((value: { id: string; label: string }) => (
-              <option key={value.id} value={value.label}>
-                {value.label}
-              </option>
-          ))}
-        </datalist>
       </div>
   );
 };
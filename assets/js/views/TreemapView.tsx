@@ -0,0 +1,128 @@
+import { FC, useEffect, useMemo, useRef, useState } from "react";
+import { useSigma } from "@react-sigma/core";
+import { GrClose } from "react-icons/gr";
+import { FiltersState, GraphView, TreemapRect, TreemapSize } from '@/types';
+import { getNodeNamespace, GLOBAL_NAMESPACE_LABEL, isInNamespace, NAMESPACE_SEPARATOR } from '@/utils/cluster-utils';
+import { getNamespaceAncestors, getTreemapItems, squarify, TREEMAP_SIZE_LABELS } from '@/utils/treemap-utils';
+import { animateToNode } from '@/utils/sigma-utils';
+
+interface TreemapViewProps {
+  graphRevision: number;
+  filters: FiltersState;
+  selectedNode: string | null;
+  setSelectedNode: (node: string | null) => void;
+  setView: (view: GraphView) => void;
+}
+
+// Tiles smaller than this, in pixels, are drawn without their label
+const MIN_LABELED_TILE_SIZE = 40;
+
+const describeTypeCounts = (typeCounts: { [type: string]: number }): string =>
+    Object.entries(typeCounts).map(([type, count]) => `${count} ${type}${count === 1 ? '' : type === 'class' ? 'es' : 's'}`).join(', ');
+
+/**
+ * Treemap of the namespaces of the graph, zoomed on one namespace at a time.
+ *
+ * Clicking a namespace zooms on it, and clicking a class selects it on the graph, the treemap following
+ * the classes selected on the graph in return.
+ */
+const TreemapView: FC<TreemapViewProps> = ({ graphRevision, filters, selectedNode, setSelectedNode, setView }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+  const [root, setRoot] = useState('');
+  const [size, setSize] = useState<TreemapSize>('count');
+  const [area, setArea] = useState<TreemapRect>({ x: 0, y: 0, width: 0, height: 0 });
+  const areaRef = useRef<HTMLDivElement>(null);
+
+  // Lay the tiles out again when the treemap is resized
+  useEffect(() => {
+    const element = areaRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(() => setArea({ x: 0, y: 0, width: element.clientWidth, height: element.clientHeight }));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Namespace of the selected class, whose tile is highlighted
+  const selectedNamespace = selectedNode && graph.hasNode(selectedNode)
+      ? getNodeNamespace(selectedNode, graph.getNodeAttributes(selectedNode))
+      : null;
+
+  // Zoom on the namespace of a class selected on the graph when it is outside of the displayed one
+  useEffect(() => {
+    if (selectedNamespace === null) return;
+    setRoot((prev) => prev !== '' && !isInNamespace(selectedNamespace, prev) ? selectedNamespace : prev);
+  }, [selectedNamespace]);
+
+  const tiles = useMemo(
+      () => squarify(getTreemapItems(graph, root, size, filters), area),
+      [graph, graphRevision, root, size, filters, area]
+  );
+
+  const selectClass = (node: string) => {
+    setSelectedNode(node);
+    animateToNode(sigma, node);
+  };
+
+  return (
+      <div className="treemap-view">
+        <div className="treemap-header">
+          <nav className="treemap-breadcrumb">
+            <button type="button" onClick={() => setRoot('')} disabled={root === ''}>
+              All namespaces
+            </button>
+            {getNamespaceAncestors(root).map((namespace) => (
+                <span key={namespace}>
+                  {` ${NAMESPACE_SEPARATOR} `}
+                  <button type="button" onClick={() => setRoot(namespace)} disabled={namespace === root}>
+                    {namespace.split(NAMESPACE_SEPARATOR).pop()}
+                  </button>
+                </span>
+            ))}
+          </nav>
+          <label>
+            Size by{" "}
+            <select value={size} onChange={(e) => setSize(e.target.value as TreemapSize)}>
+              {Object.entries(TREEMAP_SIZE_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <button type="button" className="treemap-close" onClick={() => setView('graph')} title="Back to the graph">
+            <GrClose />
+          </button>
+        </div>
+
+        <div className="treemap-area" ref={areaRef}>
+          {tiles.length === 0 && area.width > 0 && (
+              <p className="text-muted">No class to display in {root || GLOBAL_NAMESPACE_LABEL}.</p>
+          )}
+          {tiles.map((tile) => {
+            const selected = tile.namespace === null
+                ? tile.key === selectedNode
+                : selectedNamespace !== null && isInNamespace(selectedNamespace, tile.namespace);
+
+            return (
+                <div
+                    key={tile.key}
+                    className={`treemap-tile mouse-pointer ${tile.namespace === null ? 'class-tile' : 'namespace-tile'} ${selected ? 'selected' : ''}`}
+                    style={{ left: tile.x, top: tile.y, width: tile.width, height: tile.height, backgroundColor: tile.color }}
+                    title={`${tile.namespace ?? tile.key}\n${describeTypeCounts(tile.typeCounts)}`}
+                    onClick={() => tile.namespace === null ? selectClass(tile.key) : setRoot(tile.namespace)}
+                >
+                  {tile.width >= MIN_LABELED_TILE_SIZE && tile.height >= MIN_LABELED_TILE_SIZE / 2 && (
+                      <span className="treemap-label">
+                        {tile.label}
+                        {tile.namespace !== null && <span className="text-small"> ({tile.value})</span>}
+                      </span>
+                  )}
+                </div>
+            );
+          })}
+        </div>
+      </div>
+  );
+};
+
+export default TreemapView;
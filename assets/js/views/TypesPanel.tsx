@@ -2,6 +2,7 @@ import React, { FC } from "react";
 import { BiChevronDown, BiChevronUp } from "react-icons/bi";
 import AnimateHeight from "react-animate-height";
 import { FiltersState } from '@/types';
+import { getEdgeStyle, getNodeShape } from '@/utils/graph-utils';
 
 interface TypesPanelProps {
   filters: FiltersState;
@@ -77,7 +78,7 @@ const TypesPanel: FC<TypesPanelProps> = ({ filters, setNodeTypes, setEdgeTypes }
                   />
                   <label htmlFor={`node-${type}`}>
                 <span
-                    className="circle"
+                    className={`circle shape-${getNodeShape(type)}`}
                     style={{ backgroundColor: nodeTypeColors[type as keyof typeof nodeTypeColors] || '#666' }}
                 ></span>
                     <span className="node-label">{type.charAt(0).toUpperCase() + type.slice(1)}</span>
@@ -98,8 +99,8 @@ const TypesPanel: FC<TypesPanelProps> = ({ filters, setNodeTypes, setEdgeTypes }
                   />
                   <label htmlFor={`edge-${type}`}>
                 <span
-                    className="circle"
-                    style={{ backgroundColor: edgeTypeColors[type as keyof typeof edgeTypeColors] || '#666' }}
+                    className={`line edge-${getEdgeStyle(type)}`}
+                    style={{ color: edgeTypeColors[type as keyof typeof edgeTypeColors] || '#666' }}
                 ></span>
                     <span className="node-label">{type.charAt(0).toUpperCase() + type.slice(1)}</span>
                   </label>
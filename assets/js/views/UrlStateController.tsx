@@ -0,0 +1,99 @@
+import { useSigma } from "@react-sigma/core";
+import { FC, useEffect, useRef } from "react";
+import { ViewState } from '@/types';
+import { parseViewState, serializeViewState } from '@/utils/url-state';
+
+type UrlStateControllerProps = {
+  viewState: ViewState;
+  defaultViewState: ViewState;
+  applyViewState: (state: ViewState) => void;
+};
+
+// Delay before the camera position is written to the URL
+const CAMERA_UPDATE_DELAY = 300;
+
+/**
+ * Keep the view state and the camera in sync with the URL hash.
+ *
+ * Changes of the view state add a browser history entry, so that back and
+ * forward navigate between them, while camera moves replace the current entry.
+ */
+const UrlStateController: FC<UrlStateControllerProps> = ({ viewState, defaultViewState, applyViewState }) => {
+  const sigma = useSigma();
+  const graph = sigma.getGraph();
+
+  // Hash of the view state (without the camera) that is currently in the URL
+  const urlStateHash = useRef<string | null>(null);
+
+  const viewStateRef = useRef(viewState);
+  viewStateRef.current = viewState;
+
+  const stateHash = serializeViewState(viewState, defaultViewState);
+
+  const getUrl = (): string => {
+    const hash = serializeViewState(viewStateRef.current, defaultViewState, sigma.getCamera().getState());
+    return hash || window.location.pathname + window.location.search;
+  };
+
+  // Add a history entry when the view state is changed by the user.
+  // This effect is declared first so that it is skipped on mount, before the URL is restored.
+  useEffect(() => {
+    if (urlStateHash.current === null || urlStateHash.current === stateHash) return;
+
+    urlStateHash.current = stateHash;
+    window.history.pushState(null, "", getUrl());
+  }, [stateHash]);
+
+  // Apply the state found in the URL, leaving out the nodes that are not part of this graph
+  const restore = () => {
+    const { state, camera } = parseViewState(window.location.hash, defaultViewState);
+
+    if (state.selectedNode && !graph.hasNode(state.selectedNode)) {
+      state.selectedNode = null;
+    }
+    if (state.focus && !graph.hasNode(state.focus.node)) {
+      state.focus = null;
+    }
+
+    urlStateHash.current = serializeViewState(state, defaultViewState);
+    applyViewState(state);
+
+    if (camera) {
+      sigma.getCamera().setState(camera);
+    }
+  };
+
+  // Restore the state from the URL once. The state of the graphs loaded afterwards is written to the URL
+  // by the effect above, instead of the state of the previous graph being read back.
+  useEffect(restore, []);
+
+  // Follow the browser history
+  useEffect(() => {
+    window.addEventListener("popstate", restore);
+
+    return () => {
+      window.removeEventListener("popstate", restore);
+    };
+  }, [sigma, graph, defaultViewState]);
+
+  // Replace the current history entry when the camera moves
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const onCameraUpdated = () => {
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(() => window.history.replaceState(null, "", getUrl()), CAMERA_UPDATE_DELAY);
+    };
+
+    sigma.getCamera().on("updated", onCameraUpdated);
+
+    return () => {
+      if (timeout) clearTimeout(timeout);
+      sigma.getCamera().off("updated", onCameraUpdated);
+    };
+  }, [sigma, defaultViewState]);
+
+  return null;
+};
+
+export default UrlStateController;
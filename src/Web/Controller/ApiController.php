@@ -105,10 +105,20 @@ class ApiController
      */
     public function getStatus(Request $request): Response
     {
-        return new JsonResponse([
+        // The file is rewritten by the analyze command while the server runs
+        clearstatcache(true, $this->graphDataFile);
+        $available = file_exists($this->graphDataFile);
+
+        $response = new JsonResponse([
             'status' => 'ok',
             'timestamp' => time(),
-            'graphDataAvailable' => file_exists($this->graphDataFile)
+            'graphDataAvailable' => $available,
+            // Let the visualization reload the graph when the file changes
+            'graphDataModifiedAt' => $available ? (filemtime($this->graphDataFile) ?: null) : null,
+            'graphDataHash' => $available ? (md5_file($this->graphDataFile) ?: null) : null
         ]);
+        $response->headers->set('Cache-Control', 'no-store, max-age=0');
+
+        return $response;
     }
 }